@@ -3,7 +3,7 @@
 const path = require('path');
 const fs = require('fs').promises;
 const { exec } = require('child_process');
-import { debugLog } from '../errorLogger';
+import { debugLog } from '../src/assistant/errorLogger';
 
 // Function to execute a command and handle output/errors consistently
 const executeCommand = async (command) => {
@@ -457,7 +457,9 @@ module.exports = {
                 }
             }
         }
-    }
+    },
+    // the process-authoring toolbelt above; off until its `enabled` is set
+    toolbelt: talkdownToolbelt
 }
 export default module.exports;
 
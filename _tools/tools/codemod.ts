@@ -3,9 +3,9 @@
 import * as ts from 'typescript';
 import * as fs from 'fs';
 import { parse, tsquery } from '@phenomnomnominal/tsquery';
-import { debugLog } from '../errorLogger';
+import { debugLog } from '../../src/assistant/errorLogger';
 
-import {confirmExecution} from '../confirmation';
+import {confirmExecution} from '../../src/assistant/confirmation';
 
 // Define custom error types for better error handling
 class FileNotFoundError extends Error {
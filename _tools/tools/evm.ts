@@ -1,6 +1,6 @@
 // assistant/tools/evm.ts
 const ethers = require('ethers');
-import { debugLog } from '../errorLogger';
+import { debugLog } from '../../src/assistant/errorLogger';
 
 // Helper function to validate address
 function validateAddress(address: string): boolean {
@@ -1,8 +1,8 @@
 
 
 // assistant/tools/fixJson.ts
-import { confirmExecution } from '../confirmation';
-import { debugLog } from '../errorLogger';
+import { confirmExecution } from '../../src/assistant/confirmation';
+import { debugLog } from '../../src/assistant/errorLogger';
 
 export default {
   tools: {
@@ -20,7 +20,7 @@ export default {
             content: `Given some content that contains a JSON object or array, you ignore EVERYTHING BEFORE OR AFTER what is obviously JSON data, ignoring funky keys and weird data, and you output a syntactically-valid version of the JSON on a single line. If the content contains no JSON data, you output a JSON object containing the input data, structured in the most appropriate manner for the data.`,
          },{
             content: JSON.stringify(text),
-          }], {}, 'gemini-1.5-flash-001');
+          }], {}, 'fast');
           return schema;
         }
         return extractJSON(text);
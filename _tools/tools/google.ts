@@ -2,7 +2,7 @@
 // assistant/tools/google.ts
 import 'dotenv/config';
 import axios from 'axios';
-import { debugLog } from '../errorLogger';
+import { debugLog } from '../../src/assistant/errorLogger';
 
 module.exports = {
   enabled: true,
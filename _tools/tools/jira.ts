@@ -2,7 +2,7 @@
 // assistant/tools/jira.ts
 import axios from 'axios';
 import 'dotenv/config';
-import { debugLog } from '../errorLogger';
+import { debugLog } from '../../src/assistant/errorLogger';
 
 async function callJIRA({ methodPath, data }: any, api: any) { // Add api parameter
   debugLog(`callJIRA called with methodPath: ${methodPath}, data: ${JSON.stringify(data)}`);
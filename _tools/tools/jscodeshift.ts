@@ -3,7 +3,7 @@
 import jscodeshift from 'jscodeshift';
 import fs from 'fs';
 import vm from 'vm';
-import { debugLog } from '../errorLogger';
+import { debugLog } from '../../src/assistant/errorLogger';
 
 module.exports = {
   enabled: true,
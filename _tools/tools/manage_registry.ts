@@ -3,8 +3,8 @@
 
 import Assistant from '../assistant';
 import { Tool } from '../tool_registry';
-import { debugLog } from '../errorLogger';
-import { confirmExecution } from '../confirmation';
+import { debugLog } from '../../src/assistant/errorLogger';
+import { confirmExecution } from '../../src/assistant/confirmation';
 
 interface RegistryManagementParams {
   action: 'list' | 'add' | 'update' | 'rollback' | 'history';
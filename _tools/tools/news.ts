@@ -1,7 +1,7 @@
 // assistant/tools/news.ts
 import axios from 'axios';
-import { debugLog } from '../errorLogger'; 
-import { confirmExecution, displayCodeForEdit } from '../confirmation'; // Import confirmation functions
+import { debugLog } from '../../src/assistant/errorLogger'; 
+import { confirmExecution, displayCodeForEdit } from '../../src/assistant/confirmation'; // Import confirmation functions
 
 module.exports = {
   enabled: false,
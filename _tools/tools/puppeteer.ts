@@ -2,7 +2,7 @@
 
 // assistant/tools/puppeteer.ts
 const puppeteer = require('puppeteer');
-import { debugLog } from '../errorLogger';
+import { debugLog } from '../../src/assistant/errorLogger';
 
 // Function to handle different form field types
 const fillFormField = async (page, fieldSelector, value) => {
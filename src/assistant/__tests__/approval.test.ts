@@ -0,0 +1,66 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isAutoApproved, PendingChangeQueue } from '../approval';
+
+function proposal(tool: string, reason: string) {
+  return { tool, action: 'update' as const, baseVersion: '1.0.0', source: 'module.exports = async () => 1;', reason, diff: '', testResult: null };
+}
+
+describe('PendingChangeQueue', () => {
+  let dir: string;
+  let queueFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pending-'));
+    queueFile = path.join(dir, '.pending');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps proposals across restarts', () => {
+    const queue = new PendingChangeQueue(queueFile);
+    const change = queue.add(proposal('greet', 'handle empty names'));
+    expect(change.id).toMatch(/^[0-9a-f]{8}$/);
+    expect(change.proposedAt).toEqual(expect.any(String));
+
+    const reloaded = new PendingChangeQueue(queueFile);
+    expect(reloaded.list()).toEqual([change]);
+    expect(reloaded.get(change.id)).toEqual(change);
+  });
+
+  it('replaces a waiting proposal for the same tool', () => {
+    const queue = new PendingChangeQueue(queueFile);
+    const first = queue.add(proposal('greet', 'first'));
+    const other = queue.add(proposal('count', 'other'));
+    const second = queue.add(proposal('greet', 'second'));
+
+    expect(queue.get(first.id)).toBeUndefined();
+    expect(queue.list().map(change => change.id)).toEqual([other.id, second.id]);
+  });
+
+  it('removes an approved or rejected change', () => {
+    const queue = new PendingChangeQueue(queueFile);
+    const change = queue.add(proposal('greet', 'fix'));
+
+    expect(queue.remove(change.id)).toEqual(change);
+    expect(queue.remove(change.id)).toBeUndefined();
+    expect(new PendingChangeQueue(queueFile).list()).toEqual([]);
+  });
+
+  it('starts empty when the queue file is unreadable', () => {
+    fs.writeFileSync(queueFile, 'not json', 'utf8');
+    expect(new PendingChangeQueue(queueFile).list()).toEqual([]);
+  });
+});
+
+describe('isAutoApproved', () => {
+  it('approves a tool carrying one of the listed tags', () => {
+    const policy = { autoApproveTags: ['experimental'] };
+    expect(isAutoApproved(['dev', 'experimental'], policy)).toBe(true);
+    expect(isAutoApproved(['dev'], policy)).toBe(false);
+    expect(isAutoApproved(undefined, policy)).toBe(false);
+  });
+});
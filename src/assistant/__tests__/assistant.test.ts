@@ -0,0 +1,166 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Assistant } from '../assistant';
+import { CassetteProvider } from '../llm/cassette';
+import * as llmConfig from '../llm/config';
+import { registerProvider, useCassette } from '../llm/registry';
+import { ChatRequest, ChatResponse, LLMProvider } from '../llm/types';
+import { EphemeralScriptStore } from '../script/ephemeralStore';
+import ToolRegistry from '../toolRegistry';
+
+jest.setTimeout(60000);
+
+// The model's side of fixtures/decompose.json is synthetic: the cassette was
+// recorded in record mode with `scriptedModel` below answering every request, so
+// it pins the requests the pipeline makes, not what a real model would plan.
+// After a prompt change, record it again with `RECORD_CASSETTE=1 npx jest assistant.test`.
+const cassettePath = path.join(__dirname, 'fixtures', 'decompose.json');
+const recording = process.env.RECORD_CASSETTE === '1';
+const input = 'Work out what the items in my cart cost including sales tax';
+
+const cart = { id: 'cart', description: 'List the items in the cart', dependsOn: [], script: "async execute(params, api) {\n  return [{ name: 'book', price: 12 }, { name: 'lamp', price: 30 }];\n}", chat: 'Fetch the cart contents.' };
+const tax = { id: 'tax_rate', description: 'Look up the sales tax rate', dependsOn: [], output: { type: 'number' }, script: "async execute(params, api) {\n  return await api.tools.tax_rate({ region: 'home' });\n}", chat: 'Find the tax rate.' };
+const total = { id: 'total', description: 'Add up the prices and apply the tax', inputs: { items: { from: 'cart', schema: { type: 'array' } }, rate: 'tax_rate' }, output: { type: 'number' }, script: "async execute(params, api) {\n  const subtotal = params.items.reduce((sum, item) => sum + item.price, 0);\n  return subtotal * (1 + params.rate);\n}", chat: 'Compute the total.' };
+const rounded = { id: 'rounded', description: 'Round the total to whole dollars', inputs: { total: 'total' }, output: { type: 'number' }, script: "async execute(params, api) {\n  return Math.round(params.total);\n}", chat: 'Round the total.' };
+
+const scriptedModel: LLMProvider = {
+  name: 'claude',
+  defaultModel: llmConfig.defaultLLMConfig.providers.claude.model,
+  chat: async (request: ChatRequest): Promise<ChatResponse> => {
+    const text = request.system.includes('concise summary')
+      ? 'The user has not asked for anything yet.'
+      : JSON.stringify(request.messages).includes('Revise the plan')
+        ? JSON.stringify([cart, tax, total, rounded], null, 2)
+        : 'Here is the plan:\n' + JSON.stringify([cart, tax, total], null, 2);
+    return { content: [{ type: 'text', text }], model: request.model, stop_reason: 'end_turn', usage: { input_tokens: 0, output_tokens: 0 } };
+  },
+};
+
+// A ToolRegistry with just what callAgent uses. The tasks run through the real
+// runScript, each in its own sandbox; their api.callTool calls come back here.
+function testRegistry(repoPath: string) {
+  return {
+    repoPath,
+    scripts: new EphemeralScriptStore(path.join(repoPath, '.scripts')),
+    tools: {},
+    predictLikelyTools: async () => [],
+    getActiveTools: () => ['cart', 'tax_rate'],
+    getCompactRepresentation: () => 'cart() - Lists the items in the shopping cart\ntax_rate(region) - Sales tax rate of a region',
+    runScript: ToolRegistry.prototype.runScript,
+    callTool: jest.fn(async (name: string, params: any) => 0.25),
+    emit: () => true,
+    analyzeAndCreateToolFromScript: jest.fn(async () => undefined),
+    improveToolsInBackground: jest.fn(async () => undefined),
+  };
+}
+
+// Nothing remembered yet, so no memory is similar to the input.
+const emptyResults = { ids: [[]], documents: [[]], metadatas: [[]], distances: [[]] };
+const chromaClient: any = {
+  getOrCreateCollection: async () => ({ query: async () => emptyResults, add: async () => undefined, update: async () => undefined }),
+};
+
+describe('Assistant.callAgent', () => {
+  let repoPath: string;
+  let registry: ReturnType<typeof testRegistry>;
+  let assistant: Assistant;
+
+  beforeAll(() => {
+    if (recording) {
+      fs.rmSync(cassettePath, { force: true });
+      registerProvider('vertex-claude', () => scriptedModel);
+    }
+  });
+
+  beforeEach(() => {
+    jest.spyOn(llmConfig, 'loadLLMConfig').mockReturnValue(llmConfig.defaultLLMConfig);
+    useCassette({ mode: recording ? 'record' : 'replay', path: cassettePath });
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'assistant-'));
+    registry = testRegistry(repoPath);
+    assistant = new Assistant(registry as any, chromaClient);
+    assistant.agentMode = 'script';
+    assistant.planMode = false;
+  });
+
+  afterEach(() => {
+    useCassette(null);
+    jest.restoreAllMocks();
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('decomposes the input into a task graph and runs it', async () => {
+    const response = await assistant.callAgent(input);
+
+    expect(response.error).toBeUndefined();
+    expect(response.success).toBe(true);
+    expect(response.data.map(result => [result.id, result.result])).toEqual([
+      ['cart', [{ name: 'book', price: 12 }, { name: 'lamp', price: 30 }]],
+      ['tax_rate', 0.25],
+      ['total', 52.5],
+    ]);
+    expect(registry.callTool).toHaveBeenCalledWith('tax_rate', { region: 'home' });
+    expect(registry.analyzeAndCreateToolFromScript).toHaveBeenCalledTimes(3);
+    expect(registry.improveToolsInBackground).toHaveBeenCalledTimes(1);
+
+    const [run] = assistant.listRuns();
+    expect(run).toMatchObject({ input, status: 'completed', tools: ['cart', 'tax_rate'] });
+    expect(run.plan.tasks.find(task => task.id === 'total').dependsOn).toEqual(['cart', 'tax_rate']);
+    expect(registry.scripts.get(`${run.id}.total`).lastRun).toMatchObject({ success: true });
+  });
+
+  it('lets the task scripts call the tools listed to the model', async () => {
+    await assistant.callAgent(input);
+
+    const [run] = assistant.listRuns();
+    expect(registry.scripts.get(`${run.id}.total`).schema.sandbox).toEqual({ tools: ['cart', 'tax_rate'] });
+  });
+
+  it('reports a run with a failed task as unsuccessful', async () => {
+    registry.callTool.mockRejectedValue(new Error('rate service down'));
+    jest.spyOn(assistant as any, 'getFixedScript').mockResolvedValue("return await api.tools.tax_rate({ region: 'home' });");
+
+    const response = await assistant.callAgent(input);
+
+    expect(response.success).toBe(false);
+    expect(response.data.map(result => [result.id, result.status])).toEqual([
+      ['cart', undefined],
+      ['tax_rate', 'failed'],
+      ['total', 'skipped'],
+    ]);
+    expect(response.data[1].error).toMatch(/rate service down/);
+    expect(assistant.listRuns()[0].status).toBe('failed');
+  });
+
+  it('makes every call of the request with the model it was given', async () => {
+    const chat = jest.spyOn(CassetteProvider.prototype, 'chat');
+
+    const response = await assistant.callAgent(input, 'claude-3-haiku@20240307');
+
+    expect(response.success).toBe(true);
+    expect(chat.mock.calls.map(([request]) => request.model)).toEqual(['claude-3-haiku@20240307', 'claude-3-haiku@20240307']);
+    expect(assistant.listRuns()[0].model).toBe('claude-3-haiku@20240307');
+  });
+
+  it('decomposes again with the feedback of a plan review', async () => {
+    const reviewed: string[][] = [];
+    assistant.planMode = true;
+    assistant.planReviewer = async plan => {
+      reviewed.push(plan.tasks.map(task => task.id));
+      return reviewed.length === 1
+        ? { action: 'replan', feedback: 'Round the total to whole dollars.' }
+        : { action: 'approve', plan };
+    };
+
+    const response = await assistant.callAgent(input);
+
+    expect(reviewed).toEqual([['cart', 'tax_rate', 'total'], ['cart', 'tax_rate', 'total', 'rounded']]);
+    expect(response.success).toBe(true);
+    expect(response.data.map(result => [result.id, result.result])).toEqual([
+      ['cart', [{ name: 'book', price: 12 }, { name: 'lamp', price: 30 }]],
+      ['tax_rate', 0.25],
+      ['total', 52.5],
+      ['rounded', 53],
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { Budget, BudgetExceededError, currentBudget, runOutsideBudget, runWithBudget } from '../budget';
+
+describe('Budget', () => {
+  it('fails the call that goes over the limit, blaming the busiest loop', () => {
+    const budget = new Budget({ maxLLMCalls: 2 });
+    budget.enter('fixScript', 0);
+    budget.chargeCall();
+    budget.chargeCall();
+    let failure: any;
+    try {
+      budget.chargeCall();
+    } catch (error) {
+      failure = error;
+    }
+    expect(failure).toBeInstanceOf(BudgetExceededError);
+    expect(failure.toResult()).toMatchObject({ budgetExceeded: true, loop: 'fixScript', limit: 'maxLLMCalls' });
+  });
+
+  it('limits the depth of a loop', () => {
+    const budget = new Budget({ maxDepth: 1 });
+    budget.enter('fixInput', 1);
+    expect(() => budget.enter('fixInput', 2)).toThrow(/maxDepth/);
+  });
+});
+
+describe('runOutsideBudget', () => {
+  it('runs work that is not part of the request without its budget', async () => {
+    const budget = new Budget({ maxLLMCalls: 1 });
+    await runWithBudget(budget, async () => {
+      expect(currentBudget()).toBe(budget);
+      await runOutsideBudget(async () => {
+        expect(currentBudget()).toBeUndefined();
+      });
+      expect(currentBudget()).toBe(budget);
+    });
+  });
+});
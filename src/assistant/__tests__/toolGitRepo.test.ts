@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { compareVersions, ToolGitRepo } from '../toolGitRepo';
+
+jest.setTimeout(30000);
+
+function snapshot(version: string, source: string) {
+  return { version, source, schema: { name: 'greet' }, tags: ['dev'], metadata: {} };
+}
+
+describe('ToolGitRepo', () => {
+  let repoPath: string;
+  let repo: ToolGitRepo;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-repo-'));
+    repo = new ToolGitRepo(repoPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('creates its own repository with the registry state ignored', async () => {
+    await repo.init();
+    expect(fs.existsSync(path.join(repoPath, '.git'))).toBe(true);
+    expect(fs.readFileSync(path.join(repoPath, '.gitignore'), 'utf8').split('\n')).toEqual(expect.arrayContaining(['.registry', 'node_modules']));
+  });
+
+  it('commits each version with its reason and reads it back', async () => {
+    await repo.record('greet', snapshot('1.0.0', 'return "hi";'), 'add', 'manual');
+    await repo.record('greet', snapshot('1.0.1', 'return "hello";'), 'update', 'improveTool');
+
+    const versions = await repo.listVersions('greet');
+    expect(versions.map(commit => [commit.version, commit.action, commit.reason])).toEqual([
+      ['1.0.0', 'add', 'manual'],
+      ['1.0.1', 'update', 'improveTool'],
+    ]);
+    expect(await repo.latestVersion('greet')).toBe('1.0.1');
+    expect(await repo.getVersion('greet', '1.0.0')).toMatchObject({ version: '1.0.0', source: 'return "hi";', tags: ['dev'] });
+    expect(await repo.diff('greet', '1.0.0', '1.0.1')).toContain('+return "hello";');
+  });
+
+  it('leaves the history alone when nothing changed', async () => {
+    await repo.record('greet', snapshot('1.0.0', 'return "hi";'), 'add', 'manual');
+    expect(await repo.record('greet', snapshot('1.0.0', 'return "hi";'), 'update', 'manual')).toBeNull();
+    expect(await repo.log('greet')).toHaveLength(1);
+  });
+
+  it('previews a change without touching the working copy', async () => {
+    await repo.record('greet', snapshot('1.0.0', 'return "hi";'), 'add', 'manual');
+    const diff = await repo.previewDiff('greet', snapshot('1.0.1', 'return "hey";'));
+    expect(diff).toContain('+return "hey";');
+    expect(fs.readFileSync(path.join(repoPath, 'greet.js'), 'utf8')).toBe('return "hi";');
+  });
+
+  it('blames each line on the version that wrote it', async () => {
+    await repo.record('greet', snapshot('1.0.0', 'const a = 1;\nreturn a;'), 'add', 'manual');
+    await repo.record('greet', snapshot('1.0.1', 'const a = 2;\nreturn a;'), 'update', 'auto-fixed');
+    const lines = await repo.blame('greet');
+    expect(lines.map(line => [line.content, line.version, line.reason])).toEqual([
+      ['const a = 2;', '1.0.1', 'auto-fixed'],
+      ['return a;', '1.0.0', 'manual'],
+    ]);
+  });
+
+  it('records removal', async () => {
+    await repo.record('greet', snapshot('1.0.0', 'return "hi";'), 'add', 'manual');
+    await repo.remove('greet', '1.0.0', 'unused');
+    expect(fs.existsSync(path.join(repoPath, 'greet.js'))).toBe(false);
+    expect((await repo.log('greet'))[0]).toMatchObject({ action: 'remove', reason: 'unused' });
+  });
+});
+
+describe('compareVersions', () => {
+  it('compares numerically, part by part', () => {
+    expect(['1.0.10', '1.0.2', '1.1', '0.9.9'].sort(compareVersions)).toEqual(['0.9.9', '1.0.2', '1.0.10', '1.1']);
+  });
+});
@@ -0,0 +1,27 @@
+import { validateOutput } from '../script/schemaValidator';
+import { tools } from '../tools';
+
+// Only the wallet tools use ethers, and it is not a declared dependency.
+jest.mock('ethers', () => ({}), { virtual: true });
+
+describe('bash', () => {
+  const { execute, schema } = tools.bash;
+
+  it('answers with the output of the command', async () => {
+    const output = await execute({ command: 'echo hello' }, {});
+    expect(output).toBe('hello\n');
+    expect(validateOutput('bash', output, schema.output_schema)).toBeNull();
+  });
+
+  it('answers with the error output of a failing command', async () => {
+    const output = await execute({ command: 'echo "no such file" >&2; exit 3' }, {});
+    expect(output).toBe('no such file\n');
+    expect(validateOutput('bash', output, schema.output_schema)).toBeNull();
+  });
+
+  it('answers with the error message when a failing command prints nothing', async () => {
+    const output = await execute({ command: 'exit 3' }, {});
+    expect(output).toMatch(/Command failed: exit 3/);
+    expect(validateOutput('bash', output, schema.output_schema)).toBeNull();
+  });
+});
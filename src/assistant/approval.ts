@@ -0,0 +1,119 @@
+// approval.ts
+// Changes the assistant proposes to its own tools (improveTool, maintenance
+// review, hardening, enhancement) wait here until someone approves them with
+// `.review`, unless the tool carries a tag the auto-approve policy lists.
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { log } from './logger';
+import { TestSuiteResult } from './testing/results';
+
+export type PendingChangeAction = 'update' | 'remove';
+
+export interface PendingChange {
+  id: string;
+  tool: string;
+  action: PendingChangeAction;
+  // the tool version the change was proposed against
+  baseVersion: string;
+  source?: string;
+  schema?: any;
+  tags?: string[];
+  reason: string;
+  diff: string;
+  testResult: { success: boolean; message: string } | null;
+  // golden tests run against the proposed source; null when there are none
+  regression?: TestSuiteResult | null;
+  proposedAt: string;
+}
+
+export interface ApprovalPolicy {
+  // tools carrying any of these tags have their changes applied right away
+  autoApproveTags: string[];
+}
+
+export const defaultApprovalPolicy: ApprovalPolicy = {
+  autoApproveTags: [],
+};
+
+let cachedPolicy: ApprovalPolicy | null = null;
+
+// Reads the `approval` section of config.json in the working directory (if any).
+export function loadApprovalPolicy(configFile: string = path.join(process.cwd(), 'config.json')): ApprovalPolicy {
+  if (cachedPolicy) return cachedPolicy;
+
+  let fileConfig: Partial<ApprovalPolicy> = {};
+  try {
+    if (fs.existsSync(configFile)) {
+      fileConfig = JSON.parse(fs.readFileSync(configFile, 'utf8')).approval || {};
+    }
+  } catch (error) {
+    console.error(`Error reading approval config from ${configFile}:`, error);
+  }
+
+  cachedPolicy = { ...defaultApprovalPolicy, ...fileConfig };
+  return cachedPolicy;
+}
+
+export function resetApprovalPolicy(): void {
+  cachedPolicy = null;
+}
+
+export function isAutoApproved(tags: string[] = [], policy: ApprovalPolicy = loadApprovalPolicy()): boolean {
+  return tags.some(tag => policy.autoApproveTags.includes(tag));
+}
+
+export class PendingChangeQueue {
+  private changes: PendingChange[] = [];
+
+  constructor(private queueFile: string) {
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.queueFile)) {
+        this.changes = JSON.parse(fs.readFileSync(this.queueFile, 'utf8'));
+      }
+    } catch (error) {
+      log('error', `Error loading pending changes: ${error.message}`, 'PendingChangeQueue');
+      this.changes = [];
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.queueFile, JSON.stringify(this.changes, null, 2), 'utf8');
+    } catch (error) {
+      log('error', `Error saving pending changes: ${error.message}`, 'PendingChangeQueue');
+    }
+  }
+
+  // A newer proposal for the same tool replaces the one still waiting.
+  add(change: Omit<PendingChange, 'id' | 'proposedAt'>): PendingChange {
+    const superseded = this.changes.filter(c => c.tool === change.tool);
+    superseded.forEach(c => log('info', `Pending change ${c.id} for ${c.tool} superseded`, 'PendingChangeQueue'));
+
+    const pending: PendingChange = { ...change, id: uuidv4().slice(0, 8), proposedAt: new Date().toISOString() };
+    this.changes = [...this.changes.filter(c => c.tool !== change.tool), pending];
+    this.save();
+    return pending;
+  }
+
+  get(id: string): PendingChange | undefined {
+    return this.changes.find(change => change.id === id);
+  }
+
+  list(): PendingChange[] {
+    return [...this.changes];
+  }
+
+  remove(id: string): PendingChange | undefined {
+    const change = this.get(id);
+    if (change) {
+      this.changes = this.changes.filter(c => c.id !== id);
+      this.save();
+    }
+    return change;
+  }
+}
@@ -2,7 +2,6 @@ import "dotenv/config";
 import { EventEmitter } from "eventemitter3";
 import { ErrorLogger } from './errorLogger';
 import Conversation from './conversation';
-import { VM } from 'vm2';
 import { MemoryStore } from './memory/store';
 import { ConfidenceCalculator } from './memory/confidence';
 import { ChromaClient } from 'chromadb';
@@ -12,6 +11,14 @@ import { Tool } from "./tool";
 import { log, setLogLevel, toggleService } from './logger';
 import { createPrompts } from './prompts';
 import ToolRegistry from "./toolRegistry";
+import { v4 as uuidv4 } from 'uuid';
+import { currentUsageScope, runWithUsageScope } from './llm/usage';
+import { Budget, BudgetExceededError, BudgetLimits, currentBudget, runWithBudget } from './budget';
+import { ToolValidationError } from './script/schemaValidator';
+import { parsePlan, PlannedTask, TaskPlan, taskToolSchema, withDependents } from './planner/plan';
+import { defaultMaxParallelTasks, TaskGraphExecutor, TaskOutcome, TaskRun } from './planner/executor';
+import { RunJournal, RunRecord } from './planner/journal';
+import { PlanReviewer, reviewPlanInteractively } from './planner/review';
 
 interface Memory {
   input: string;
@@ -32,6 +39,18 @@ export class Assistant extends EventEmitter {
   public history: string[] = [];
   public savedOutput = '';
   public currentTask: string = '';
+  // 'script' decomposes the input into generated scripts up front; 'tools' runs a
+  // native tool-calling loop, executing the model's tool calls turn by turn.
+  public agentMode: 'script' | 'tools' = process.env.AGENT_MODE === 'tools' ? 'tools' : 'script';
+  public maxToolTurns: number = 20;
+  // Overrides for the per-request budget; unset limits fall back to defaultBudgetLimits.
+  public budgetLimits: Partial<BudgetLimits> = {};
+  // Decomposed tasks that do not depend on each other run concurrently, up to this many at once.
+  public maxParallelTasks: number = defaultMaxParallelTasks;
+  // In plan mode the decomposed plan goes to `planReviewer` before any task runs.
+  public planMode: boolean = process.env.AGENT_PLAN_MODE === 'true';
+  public planReviewer: PlanReviewer = reviewPlanInteractively;
+  public runJournal: RunJournal;
 
   private store: any = {};
   private prompts: any;
@@ -44,10 +63,11 @@ export class Assistant extends EventEmitter {
 
   constructor(public toolRegistry: ToolRegistry, public chromaClient: ChromaClient) {
     super();
-    this.conversation = new Conversation('claude');
+    this.conversation = new Conversation();
     this.prompts = createPrompts(this.conversation);
     this.memoryStore = new MemoryStore(chromaClient);
     this.confidenceCalculator = new ConfidenceCalculator();
+    this.runJournal = new RunJournal(path.join(toolRegistry.repoPath, '.runs'));
 
     this.ensureToolsDirectory();
 
@@ -67,6 +87,7 @@ export class Assistant extends EventEmitter {
     this.retryOperation = this.retryOperation.bind(this);
     this.updateMemoryConfidence = this.updateMemoryConfidence.bind(this);
     this.callAgent = this.callAgent.bind(this);
+    this.callAgentWithTools = this.callAgentWithTools.bind(this);
     this.callTool = this.callTool.bind(this);
   }
 
@@ -152,7 +173,6 @@ export class Assistant extends EventEmitter {
 
   async callTool(toolName: string, params: any) {
     this.logMessage('debug', `Calling tool: ${toolName}`);
-    if (Array.isArray(params)) params = params[0];
 
     return this.retryOperation(async () => {
       try {
@@ -184,7 +204,7 @@ export class Assistant extends EventEmitter {
       const history = await this.toolRegistry.getToolHistory(name);
       this.logMessage('info', name);
       history.forEach((entry: any) => {
-        this.logMessage('info', `  ${entry}`);
+        this.logMessage('info', `  v${entry.version} - ${entry.date} (${entry.reason})${entry.current ? ' (current)' : ''}`);
       });
     } catch (error) {
       this.logMessage('error', `Error fetching tool history: ${error.message}`);
@@ -214,7 +234,7 @@ export class Assistant extends EventEmitter {
     const response = await this.conversation.chat([
       { role: 'system', content: prompt },
       { role: 'user', content: 'Adapt the memory to the new input.' }
-    ]);
+    ], {}, model);
 
     return response.content[0].text;
   }
@@ -223,7 +243,32 @@ export class Assistant extends EventEmitter {
     return this.toolRegistry.tools['registry_management'].call(this, params);
   }
 
-  async callAgent(input: string, model = 'claude', resultVar?: string): Promise<{ success: boolean; data?: any; error?: Error; }> {
+  // Every LLM call made while serving this input is charged to one request id
+  // and one budget; recovery retries keep both and pass depth + 1. `model` is a
+  // model name or alias of the assistant's provider, used for all of those calls.
+  async callAgent(input: string, model?: string, resultVar?: string, budget?: Budget, depth: number = 0): Promise<{ success: boolean; data?: any; error?: Error; }> {
+    const requestId = currentUsageScope().requestId || uuidv4();
+    const requestBudget = budget || currentBudget() || new Budget(this.budgetLimits);
+    return runWithUsageScope({ requestId }, () => runWithBudget(requestBudget, async () => {
+      try {
+        requestBudget.enter('callAgent/getFixedInput', depth);
+        return this.agentMode === 'tools'
+          ? await this.callAgentWithTools(input, resultVar, model)
+          : await this.runAgent(input, model, resultVar, requestBudget, depth);
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) throw error;
+        return this.budgetExceeded(error);
+      }
+    }));
+  }
+
+  private budgetExceeded(error: BudgetExceededError): { success: boolean; data: any; error: Error } {
+    log('error', error.message, 'Assistant');
+    this.addToConversationBuffer('error', error.message);
+    return { success: false, data: error.toResult(), error };
+  }
+
+  private async runAgent(input: string, model: string | undefined, resultVar: string | undefined, budget: Budget, depth: number): Promise<{ success: boolean; data?: any; error?: Error; }> {
     const CONFIDENCE_THRESHOLD = 0.8;
     const SIMILARITY_THRESHOLD = 0.9;
 
@@ -250,162 +295,303 @@ export class Assistant extends EventEmitter {
         }
       }
 
+      const plannedTools = this.toolRegistry.getActiveTools();
       const toolsRepresentation = this.toolRegistry.getCompactRepresentation();
       const memoriesRepresentation = this.prepareMemoriesRepresentation(similarMemories as any);
-      const recentActivity = await this.summarizeRecentActivity();
+      const recentActivity = await this.summarizeRecentActivity(model);
 
       const taskDecompositionPrompt = this.prompts.taskDecomposition(input, toolsRepresentation, memoriesRepresentation, recentActivity);
-      const response = await this.conversation.chat([
+      const messages: any[] = [
         { role: 'system', content: taskDecompositionPrompt },
         { role: 'user', content: input }
-      ]);
-
-      let tasks = this.extractJson(response.content[0].text);
-
-      if (!Array.isArray(tasks) || tasks.length === 0) {
-        throw new Error('The task must be an array of subtasks. Check the format and try again.');
+      ];
+      let plan = await this.decompose(messages, model);
+
+      // Each re-plan asks the model again, so the rounds count against the budget.
+      for (let round = 0; this.planMode; round++) {
+        const review = await this.planReviewer(plan, script => this.extractUsedTools(script));
+        if (review.action === 'approve') {
+          plan = review.plan;
+          break;
+        }
+        if (review.action === 'cancel') {
+          log('info', `Plan not run: ${review.reason}`, 'Assistant');
+          this.addToConversationBuffer('assistant', review.reason);
+          return { success: false, error: new Error(review.reason) };
+        }
+        budget.enter('runAgent/replan', round);
+        log('info', `Re-planning with feedback: ${review.feedback}`, 'Assistant');
+        messages.push(
+          { role: 'assistant', content: JSON.stringify(plan.tasks) },
+          { role: 'user', content: `Revise the plan according to this feedback: ${review.feedback}` }
+        );
+        plan = await this.decompose(messages, model);
       }
 
-      log('info', `Decomposed input into ${tasks.length} tasks`, 'Assistant');
-
-      const results: any = [];
-      const usedTools: Set<string> = new Set();
+      const run = this.runJournal.start(input, plan, { resultVar, tools: plannedTools, model });
+      log('info', `Started run ${run.id} with ${plan.tasks.length} tasks`, 'Assistant');
+      const results = await this.executeRun(run);
 
-      this.store[input] = tasks;
+      const newMemory = JSON.stringify(plan.tasks.map(task => ({ ...task, scriptResult: run.tasks[task.id].result })));
+      const initialConfidence = this.confidenceCalculator.calculateInitialConfidence(1.0, newMemory);
+      await this.memoryStore.storeMemory(input, newMemory, initialConfidence);
 
-      if (Array.isArray(tasks[0])) {
-        tasks = tasks[0];
+      for (const memory of similarMemories) {
+        await this.updateMemoryConfidence(memory as any);
       }
 
       if (resultVar) {
         this.store[resultVar] = results;
       }
 
-      for (const task of tasks) {
-        const { task: taskName, script, chat } = task;
-        const [taskId, taskDescription] = taskName.split(':');
-
-        this.store['currentTaskId'] = taskId;
-        this.emit('taskId', taskId);
-
-        this.store[`${taskId}_task`] = task;
-        this.emit(`${taskId}_task`, task);
-
-        this.store[`${taskId}_chat`] = chat;
-        this.emit(`${taskId}_chat`, chat);
-
-        this.store[`${taskId}_script`] = script;
-        this.emit(`${taskId}_script`, script);
-
+      // the run's scripts stay ephemeral unless the analysis finds one worth keeping as a tool
+      for (const result of results.filter(result => !result.error)) {
         try {
-          log('info', `Executing task: ${taskId}`, 'Assistant');
-          await this.toolRegistry.addTool(taskId, script, {
-            name: taskId,
-            description: taskDescription || taskName,
-            methodSignature: `${taskId}(params: any, api: any): Promise<any>`,
-          }, ['ai-generated']);
-
-          const result = await this.toolRegistry.callTool(taskId, {});
-          task.scriptResult = result;
-
-          const toolsUsedInScript = this.extractUsedTools(script);
-          toolsUsedInScript.forEach(tool => usedTools.add(tool));
-
-          this.store[`${taskId}_result`] = result;
-          this.store[`${taskId}_results`] = result;
-          const taskResult = { id: taskId, task: taskDescription || taskName, script, result: result };
-          this.emit(`${taskId}_results`, taskResult);
-
-          results.push(taskResult);
-          log('info', `Task ${taskId} executed successfully`, 'Assistant');
+          await this.considerAddingAsTool(result.script);
         } catch (error) {
-          log('error', `Error executing task ${taskId}: ${error.message}`, 'Assistant');
-          const errorReport = this.generateErrorReport(error, script, this.prepareContext());
-          const fixedScript = await this.getFixedScript(errorReport);
-
-          try {
-            log('info', `Attempting to execute fixed script for task ${taskId}`, 'Assistant');
-            const result = await this.executeScript(fixedScript, this.prepareContext());
-            task.scriptResult = result;
-
-            await this.toolRegistry.updateTool(taskId, fixedScript, {
-              name: taskId,
-              description: taskDescription || taskName,
-              methodSignature: `${taskId}(params: any, api: any): Promise<any>`,
-            }, ['ai-generated', 'auto-fixed']);
-
-            const taskResult = { id: taskId, task: taskDescription || taskName, script: fixedScript, result: result };
-            this.emit(`${taskId}_results`, taskResult);
-            results.push(taskResult);
-            log('info', `Fixed script for task ${taskId} executed successfully`, 'Assistant');
-          } catch (retryError) {
-            log('error', `Failed to execute task ${taskId} after error recovery: ${retryError.message}`, 'Assistant');
-            results.push({ id: taskId, task: taskDescription || taskName, error: retryError.message });
-          }
+          if (error instanceof BudgetExceededError) throw error;
+          log('warn', `Could not analyze the script of task ${result.id}: ${error.message}`, 'Assistant');
         }
       }
 
-      const newMemory = JSON.stringify(tasks);
-      const initialConfidence = this.confidenceCalculator.calculateInitialConfidence(1.0, newMemory);
-      await this.memoryStore.storeMemory(input, newMemory, initialConfidence);
-
-      for (const memory of similarMemories) {
-        await this.updateMemoryConfidence(memory as any);
-      }
-
-      if (resultVar) {
-        this.store[resultVar] = results;
-      }
-
-      await this.optimizeScripts(tasks);
+      this.toolRegistry.improveToolsInBackground();
 
       this.addToConversationBuffer('assistant', JSON.stringify(results));
-      log('info', `Agent call completed successfully`, 'Assistant');
-      return { success: true, data: results };
+      log(run.status === 'completed' ? 'info' : 'warn', `Agent run ${run.id} ${run.status}`, 'Assistant');
+      return { success: run.status === 'completed', data: results };
     } catch (error: any) {
+      if (error instanceof BudgetExceededError) throw error;
       log('error', `High-level error in callAgent: ${error.message}`, 'Assistant');
       this.addToConversationBuffer('error', error.message);
       try {
         const errorReport = this.generateErrorReport(error, input, this.prepareContext());
-        const fixedInput = await this.getFixedInput(errorReport);
+        const fixedInput = await this.getFixedInput(errorReport, model);
         log('info', `Attempting to recover with fixed input`, 'Assistant');
-        return this.callAgent(fixedInput, model, resultVar);
+        return this.callAgent(fixedInput, model, resultVar, budget, depth + 1);
       } catch (recoveryError) {
+        if (recoveryError instanceof BudgetExceededError) throw recoveryError;
         log('error', `Failed to recover from high-level error: ${recoveryError.message}`, 'Assistant');
         return { success: false, error: recoveryError };
       }
     }
   }
 
-  private async getFixedInput(errorReport: string): Promise<string> {
+  listRuns(): RunRecord[] {
+    return this.runJournal.list();
+  }
+
+  // Continues a journaled run: tasks that already succeeded keep their results
+  // and are not run again. `retryTaskId` also re-runs that task and everything
+  // depending on it, whatever their state.
+  async resumeRun(id: string, retryTaskId?: string): Promise<{ success: boolean; data?: any; error?: Error; }> {
+    const run = this.runJournal.get(id);
+    if (!run) {
+      return { success: false, error: new Error(`Run not found: ${id}`) };
+    }
+    if (run.status === 'running') {
+      return { success: false, error: new Error(`Run ${id} is still running`) };
+    }
+    if (retryTaskId) {
+      if (!run.tasks[retryTaskId]) {
+        return { success: false, error: new Error(`Run ${id} has no task ${retryTaskId}`) };
+      }
+      for (const taskId of withDependents(run.plan, [retryTaskId])) {
+        const { result, error, ...state } = run.tasks[taskId];
+        run.tasks[taskId] = { ...state, status: 'pending' };
+      }
+    }
+    this.runJournal.reopen(run);
+    log('info', `Resuming run ${run.id}${retryTaskId ? ` from task ${retryTaskId}` : ''}`, 'Assistant');
+
+    const budget = new Budget(this.budgetLimits);
+    return runWithUsageScope({ requestId: uuidv4() }, () => runWithBudget(budget, async () => {
+      try {
+        const results = await this.executeRun(run);
+        if (run.resultVar) {
+          this.store[run.resultVar] = results;
+        }
+        this.addToConversationBuffer('assistant', JSON.stringify(results));
+        return { success: run.status === 'completed', data: results };
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) throw error;
+        return this.budgetExceeded(error);
+      }
+    }));
+  }
+
+  // Runs the tasks of the run that have not succeeded yet, journaling each one
+  // as it starts and finishes. Returns every task's result in plan order.
+  private async executeRun(run: RunRecord): Promise<any[]> {
+    // a fixed script replaces the planned one for the rest of the run
+    const plan: TaskPlan = { tasks: run.plan.tasks.map(task => run.tasks[task.id].script ? { ...task, script: run.tasks[task.id].script } : task) };
+    const completed = new Map(plan.tasks.filter(task => run.tasks[task.id].status === 'succeeded').map(task => [task.id, run.tasks[task.id].result]));
+    const usedTools: Set<string> = new Set();
+
+    let outcomes: TaskOutcome[];
+    try {
+      outcomes = await new TaskGraphExecutor(this.maxParallelTasks).run(plan, (task, params) => this.runPlannedTask(task, params, run, usedTools), {
+        onStart: task => {
+          this.runJournal.taskStarted(run, task.id);
+          this.emit('taskId', task.id);
+          this.emit(`${task.id}_task`, task);
+          this.emit(`${task.id}_chat`, task.chat);
+          this.emit(`${task.id}_script`, task.script);
+        },
+        onFinish: (task, outcome) => {
+          this.runJournal.taskFinished(run, outcome);
+          if (outcome.status === 'succeeded') {
+            this.emit(`${task.id}_results`, { id: task.id, task: task.description, script: outcome.script || task.script, result: outcome.result });
+          }
+        },
+        isFatal: error => error instanceof BudgetExceededError,
+      }, completed);
+    } catch (error) {
+      this.runJournal.finish(run, error.message);
+      throw error;
+    }
+    this.runJournal.finish(run);
+
+    return outcomes.map((outcome, index) => {
+      const task = plan.tasks[index];
+      return outcome.status === 'succeeded'
+        ? { id: task.id, task: task.description, script: outcome.script || task.script, result: outcome.result }
+        : { id: task.id, task: task.description, status: outcome.status, error: outcome.error };
+    });
+  }
+
+  private async decompose(messages: any[], model?: string): Promise<TaskPlan> {
+    const response = await this.conversation.chat(messages, {}, model);
+    const plan = parsePlan(this.extractJson(response.content[0].text));
+    log('info', `Decomposed input into ${plan.tasks.length} tasks`, 'Assistant');
+    return plan;
+  }
+
+  // Runs one task of the plan as an ephemeral script of its run, with the
+  // outputs of its dependencies as params and the tools the plan was made with
+  // callable from its sandbox. A failing script gets one fix from the model
+  // before the task fails.
+  private async runPlannedTask(task: PlannedTask, params: any, run: RunRecord, usedTools: Set<string>): Promise<TaskRun> {
+    const schema = { ...taskToolSchema(task), sandbox: { tools: run.tools || [] } };
+    const script = this.toolRegistry.scripts.put(task.id, task.script, { runId: run.id, description: task.description, schema });
+    log('info', `Executing task: ${task.id}`, 'Assistant');
+    this.extractUsedTools(task.script).forEach(tool => usedTools.add(tool));
+
+    try {
+      const result = await this.toolRegistry.runScript(script.id, params);
+      log('info', `Task ${task.id} executed successfully`, 'Assistant');
+      return { result };
+    } catch (error) {
+      if (error instanceof BudgetExceededError) throw error;
+      log('error', `Error executing task ${task.id}: ${error.message}`, 'Assistant');
+      const errorReport = this.generateErrorReport(error, task.script, { task: task.id, params });
+      const fixedScript = await this.getFixedScript(errorReport, run.model);
+
+      log('info', `Attempting to execute fixed script for task ${task.id}`, 'Assistant');
+      this.toolRegistry.scripts.replaceSource(script.id, fixedScript);
+      const result = await this.toolRegistry.runScript(script.id, params);
+      log('info', `Fixed script for task ${task.id} executed successfully`, 'Assistant');
+      return { result, script: fixedScript };
+    }
+  }
+
+  async callAgentWithTools(input: string, resultVar?: string, model?: string): Promise<{ success: boolean; data?: any; error?: Error; }> {
+    this.addToConversationBuffer('user', input);
+    log('info', `Received input (tool mode): ${input}`, 'Assistant');
+
+    const tools = this.toolRegistry.getToolDefinitions();
+    const recentActivity = await this.summarizeRecentActivity(model);
+    const system = `You are an assistant that completes the user's task by calling the provided tools. Call tools one step at a time, inspect each result, and continue until the task is done. When you are finished, reply with a concise summary of the outcome and do not call any more tools.
+
+Recent activity:
+${recentActivity}`;
+
+    const messages: any[] = [{ role: 'user', content: input }];
+    const toolCalls: any[] = [];
+
+    try {
+      for (let turn = 0; turn < this.maxToolTurns; turn++) {
+        const response = await this.conversation.chat([{ role: 'system', content: system }, ...messages], {
+          max_tokens: 4000,
+          temperature: 0.15,
+          tools,
+        }, model);
+        messages.push({ role: 'assistant', content: response.content });
+
+        const calls = Conversation.getToolCalls(response);
+        if (calls.length === 0) {
+          const text = response.content.filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+          const data = { response: text, toolCalls };
+          if (resultVar) {
+            this.store[resultVar] = data;
+          }
+          this.addToConversationBuffer('assistant', text);
+          log('info', `Agent call completed after ${turn + 1} turns`, 'Assistant');
+          return { success: true, data };
+        }
+
+        const toolResults: any[] = [];
+        for (const call of calls) {
+          this.emit('taskId', call.id);
+          this.emit(`${call.id}_task`, { task: `${call.name}:${JSON.stringify(call.input)}` });
+          log('info', `Calling tool ${call.name}`, 'Assistant');
+          try {
+            const result = await this.callTool(call.name, call.input);
+            toolCalls.push({ id: call.id, tool: call.name, input: call.input, result });
+            this.emit(`${call.id}_results`, { id: call.id, task: call.name, result });
+            toolResults.push({
+              type: 'tool_result',
+              tool_use_id: call.id,
+              content: typeof result === 'string' ? result : JSON.stringify(result === undefined ? null : result),
+            });
+          } catch (error) {
+            log('error', `Tool ${call.name} failed: ${error.message}`, 'Assistant');
+            toolCalls.push({ id: call.id, tool: call.name, input: call.input, error: error.message });
+            const content = error instanceof ToolValidationError ? error.toReport() : error.message;
+            toolResults.push({ type: 'tool_result', tool_use_id: call.id, content, is_error: true });
+          }
+        }
+        messages.push({ role: 'user', content: toolResults });
+      }
+      throw new Error(`Tool loop did not finish within ${this.maxToolTurns} turns.`);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) throw error;
+      log('error', `Error in tool loop: ${error.message}`, 'Assistant');
+      this.addToConversationBuffer('error', error.message);
+      return { success: false, data: { toolCalls }, error };
+    }
+  }
+
+  private async getFixedInput(errorReport: string, model?: string): Promise<string> {
     log('debug', `Attempting to fix input`, 'Assistant');
     const fixPrompt = this.prompts.fixInput(errorReport);
     const llmResponse = await this.conversation.chat([
       { role: 'system', content: fixPrompt },
       { role: 'user', content: 'Provide a fixed input based on the error report.' }
-    ]);
+    ], {}, model);
     return llmResponse.content[0].text;
   }
 
-  private async executeScript(script: string, context: any): Promise<any> {
+  private async executeScript(script: string, context: any, budget: Budget = currentBudget() || new Budget(this.budgetLimits), depth: number = 0): Promise<any> {
     log('debug', `Executing script`, 'Assistant');
+    budget.enter('executeScript/getFixedScript', depth);
     try {
       const result = await this.toolRegistry.callScript(script);
       return result;
     } catch (error) {
+      if (error instanceof BudgetExceededError) throw error;
       const errorReport = this.generateErrorReport(error, script, context);
-      const fixedScript = await this.getFixedScript(errorReport);
-      return this.executeScript(fixedScript, context);
+      const fixedScript = await runWithBudget(budget, () => this.getFixedScript(errorReport));
+      return this.executeScript(fixedScript, context, budget, depth + 1);
     }
   }
 
-  private async summarizeRecentActivity(): Promise<string> {
+  private async summarizeRecentActivity(model?: string): Promise<string> {
     log('debug', `Summarizing recent activity`, 'Assistant');
     const summaryPrompt = this.prompts.summarizeConversation(this.conversationBuffer);
     const summary = await this.conversation.chat([
       { role: 'system', content: summaryPrompt },
       { role: 'user', content: 'Summarize the recent activity.' }
-    ]);
+    ], {}, model);
     return summary.content[0].text;
   }
 
@@ -458,6 +644,7 @@ Similarity: ${memory.similarity}
           const fixedScript = await this.getFixedScript(errorDescription);
           script = this.unescapeTemplateLiteral(fixedScript);
         } catch (fixError) {
+          if (fixError instanceof BudgetExceededError) throw fixError;
           this.logMessage('error', `Error attempting to fix the script: ${fixError}`);
         }
 
@@ -473,15 +660,10 @@ Similarity: ${memory.similarity}
       tools: {},
       taskResults: {},
       console: { log: console.log, error: console.error },
-      require: require,
-      fs: require('fs'),
-      path: require('path'),
-      axios: require('axios'),
-      _: require('lodash'),
     };
 
     for (const toolName in this.toolRegistry.tools) {
-      context.tools[toolName] = async (...args: any[]) => await this.toolRegistry.callTool(toolName, args);
+      context.tools[toolName] = async (params: any) => await this.toolRegistry.callTool(toolName, params);
       context[toolName] = context.tools[toolName];
     }
 
@@ -493,9 +675,17 @@ Similarity: ${memory.similarity}
     return context;
   }
 
+  // Schema violations carry the offending value and the expected schema, which
+  // is what the model needs to correct the call. Errors from sandboxed tools
+  // arrive with the report already rendered.
+  private validationDetails(error: any): string {
+    const report = error instanceof ToolValidationError ? error.toReport() : error?.report;
+    return report ? `\nValidation:\n${report}\n` : '';
+  }
+
   private generateErrorReport(error: Error, script: string, context: any): string {
     return `
-  Error: ${error.message}
+  Error: ${error.message}${this.validationDetails(error)}
   Stack Trace: ${error.stack}
   Script:
   ${script}
@@ -509,12 +699,6 @@ Similarity: ${memory.similarity}
     await this.toolRegistry.analyzeAndCreateToolFromScript(script, "Auto-generated from successful script execution");
   }
 
-  private async optimizeScripts(tasks: any[]): Promise<void> {
-    for (const task of tasks) {
-      await this.toolRegistry.improveTools();
-    }
-  }
-
   getSchemas() {
     return this.toolRegistry.schemas;
   }
@@ -612,7 +796,7 @@ async promptUser(question: string): Promise<string> {
     const stackTrace = error.stack;
     const errorLine = this.extractErrorLine(stackTrace);
 
-    let errDescription = `Error calling script (attempt ${retryCount}/${retryLimit}): ${errorMessage}\nScript: ${script}\nError Line: ${errorLine}\nStack Trace: ${stackTrace}\n\nAvailable Tools: ${Object.keys(this.toolRegistry.tools).join(', ')}\n\nIn context: ${Object.keys(this.prepareContext()).join(', ')}`;
+    let errDescription = `Error calling script (attempt ${retryCount}/${retryLimit}): ${errorMessage}${this.validationDetails(error)}\nScript: ${script}\nError Line: ${errorLine}\nStack Trace: ${stackTrace}\n\nAvailable Tools: ${Object.keys(this.toolRegistry.tools).join(', ')}\n\nIn context: ${Object.keys(this.prepareContext()).join(', ')}`;
     if (retryCount === Math.floor(retryLimit / 2)) {
       errDescription += `\n\n*** Halfway through the retry limit. Try something else. ***`;
     }
@@ -620,24 +804,15 @@ async promptUser(question: string): Promise<string> {
     return errDescription;
   }
 
-  private async getFixedScript(errorDescription: string): Promise<string> {
+  private async getFixedScript(errorDescription: string, model?: string): Promise<string> {
     const fixPrompt = this.prompts.fixScript(errorDescription);
     const llmResponse = await this.conversation.chat([
       { role: 'system', content: fixPrompt },
       { role: 'user', content: 'Fix the script based on the error description.' }
-    ]);
+    ], {}, model);
 
     const fixedScriptResponse = JSON.parse(llmResponse.content[0].text);
     this.logMessage('info', fixedScriptResponse.explanation);
     return fixedScriptResponse.modifiedScript;
   }
-
-  private async runInSandbox(script: string, context: any): Promise<any> {
-    const vm = new VM({
-      timeout: 10000,
-      sandbox: context
-    });
-
-    return await vm.run(script);
-  }
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+// budget.ts
+// Per-request limits for the self-correcting loops (fix-script, fix-input,
+// tool creation). Every LLM call made while a budget is active is charged to it
+// through the async context; loop depth is checked explicitly at each recursion.
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface BudgetLimits {
+  maxLLMCalls: number;
+  maxTokens: number;
+  maxWallClockMs: number;
+  maxDepth: number;
+}
+
+export interface BudgetUsage {
+  llmCalls: number;
+  tokens: number;
+  elapsedMs: number;
+  iterations: { [loop: string]: number };
+}
+
+export interface BudgetExceededResult {
+  budgetExceeded: true;
+  loop: string;
+  limit: keyof BudgetLimits;
+  limits: BudgetLimits;
+  usage: BudgetUsage;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) ? fallback : value;
+}
+
+export const defaultBudgetLimits: BudgetLimits = {
+  maxLLMCalls: envNumber('BUDGET_MAX_LLM_CALLS', 50),
+  maxTokens: envNumber('BUDGET_MAX_TOKENS', 500000),
+  maxWallClockMs: envNumber('BUDGET_MAX_WALL_CLOCK_MS', 10 * 60 * 1000),
+  maxDepth: envNumber('BUDGET_MAX_DEPTH', 5),
+};
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public loop: string,
+    public limit: keyof BudgetLimits,
+    public limits: BudgetLimits,
+    public usage: BudgetUsage
+  ) {
+    super(`Budget exceeded in ${loop}: ${limit} (${limits[limit]}) reached after ${usage.llmCalls} LLM calls, ${usage.tokens} tokens, ${usage.elapsedMs}ms`);
+    this.name = 'BudgetExceededError';
+  }
+
+  toResult(): BudgetExceededResult {
+    return { budgetExceeded: true, loop: this.loop, limit: this.limit, limits: this.limits, usage: this.usage };
+  }
+}
+
+export class Budget {
+  readonly limits: BudgetLimits;
+  private llmCalls = 0;
+  private tokens = 0;
+  private startTime = Date.now();
+  private iterations: { [loop: string]: number } = {};
+
+  constructor(limits: Partial<BudgetLimits> = {}) {
+    this.limits = { ...defaultBudgetLimits, ...limits };
+  }
+
+  get usage(): BudgetUsage {
+    return {
+      llmCalls: this.llmCalls,
+      tokens: this.tokens,
+      elapsedMs: Date.now() - this.startTime,
+      iterations: { ...this.iterations },
+    };
+  }
+
+  // Called on every pass through a recursive loop; `depth` is how many times
+  // this loop has already re-entered itself for the current request.
+  enter(loop: string, depth: number): void {
+    this.iterations[loop] = (this.iterations[loop] || 0) + 1;
+    if (depth > this.limits.maxDepth) {
+      this.fail(loop, 'maxDepth');
+    }
+    this.check(loop);
+  }
+
+  // Called before each LLM request.
+  chargeCall(): void {
+    this.check();
+    this.llmCalls++;
+    if (this.llmCalls > this.limits.maxLLMCalls) {
+      this.fail(this.busiestLoop(), 'maxLLMCalls');
+    }
+  }
+
+  // Tokens are only known once a response arrives, so an overrun is reported
+  // by the next call or loop iteration rather than discarding the response.
+  chargeTokens(tokens: number): void {
+    this.tokens += tokens;
+  }
+
+  check(loop: string = this.busiestLoop()): void {
+    if (this.tokens > this.limits.maxTokens) {
+      this.fail(loop, 'maxTokens');
+    }
+    if (Date.now() - this.startTime > this.limits.maxWallClockMs) {
+      this.fail(loop, 'maxWallClockMs');
+    }
+  }
+
+  // Call and token limits are blamed on the loop that has iterated the most.
+  private busiestLoop(): string {
+    const loops = Object.entries(this.iterations).sort((a, b) => b[1] - a[1]);
+    return loops.length > 0 ? loops[0][0] : 'request';
+  }
+
+  private fail(loop: string, limit: keyof BudgetLimits): never {
+    throw new BudgetExceededError(loop, limit, this.limits, this.usage);
+  }
+}
+
+const budgetStorage = new AsyncLocalStorage<Budget>();
+
+export function runWithBudget<T>(budget: Budget, fn: () => Promise<T>): Promise<T> {
+  return budgetStorage.run(budget, fn);
+}
+
+export function currentBudget(): Budget | undefined {
+  return budgetStorage.getStore();
+}
+
+// Runs `fn` with no budget, for work that is not part of answering the request.
+export function runOutsideBudget<T>(fn: () => Promise<T>): Promise<T> {
+  return budgetStorage.exit(fn);
+}
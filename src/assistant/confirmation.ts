@@ -84,4 +84,159 @@ export async function displayCodeForEdit(api: any, message: string, filePath: st
 
     screen.render();
   });
-}
\ No newline at end of file
+}
+// Function to display a proposed change (e.g. a diff) and get a decision
+export async function reviewChange(title: string, details: string): Promise<'approve' | 'reject' | 'skip'> {
+  return new Promise((resolve) => {
+    const screen = blessed.screen({
+      smartCSR: true
+    });
+
+    const detailsBox = blessed.box({
+      parent: screen,
+      border: 'line',
+      top: 0,
+      left: 0,
+      width: '100%',
+      height: '100%-3',
+      label: ` ${title} `,
+      content: details,
+      keys: true,
+      vi: true,
+      scrollable: true,
+      alwaysScroll: true,
+      scrollbar: { ch: ' ', style: { bg: 'blue' } },
+    });
+
+    blessed.box({
+      parent: screen,
+      bottom: 0,
+      left: 0,
+      width: '100%',
+      height: 3,
+      border: 'line',
+      tags: true,
+      content: '{green-fg}[A]{/green-fg}pprove / {red-fg}[R]{/red-fg}eject / {yellow-fg}[S]{/yellow-fg}kip   (arrows to scroll)',
+    });
+
+    const decide = (decision: 'approve' | 'reject' | 'skip') => {
+      screen.destroy();
+      resolve(decision);
+    };
+    screen.key(['a'], () => decide('approve'));
+    screen.key(['r'], () => decide('reject'));
+    screen.key(['s', 'escape'], () => decide('skip'));
+
+    detailsBox.focus();
+    screen.render();
+  });
+}
+
+export interface PlanReviewItem {
+  label: string;
+  details: string;
+}
+
+export type PlanReviewAction =
+  | { action: 'approve' | 'cancel' }
+  | { action: 'edit' | 'drop'; index: number }
+  | { action: 'replan'; feedback: string };
+
+// Function to display a task plan (list + details of the selected task) and get the next action
+export async function reviewPlan(title: string, items: PlanReviewItem[], selected: number = 0): Promise<PlanReviewAction> {
+  return new Promise((resolve) => {
+    const screen = blessed.screen({
+      smartCSR: true
+    });
+
+    const taskList = blessed.list({
+      parent: screen,
+      border: 'line',
+      top: 0,
+      left: 0,
+      width: '35%',
+      height: '100%-3',
+      label: ` ${title} `,
+      items: items.map(item => item.label),
+      keys: true,
+      vi: true,
+      tags: true,
+      style: { selected: { bg: 'blue' } },
+    });
+
+    const detailsBox = blessed.box({
+      parent: screen,
+      border: 'line',
+      top: 0,
+      left: '35%',
+      width: '65%',
+      height: '100%-3',
+      label: ' Task ',
+      content: items[selected]?.details || '',
+      scrollable: true,
+      alwaysScroll: true,
+      scrollbar: { ch: ' ', style: { bg: 'blue' } },
+    });
+
+    blessed.box({
+      parent: screen,
+      bottom: 0,
+      left: 0,
+      width: '100%',
+      height: 3,
+      border: 'line',
+      tags: true,
+      content: '{green-fg}[A]{/green-fg}pprove all / {cyan-fg}[E]{/cyan-fg}dit script / {yellow-fg}[D]{/yellow-fg}rop or restore / re-[P]lan / {red-fg}[Q]{/red-fg}uit   (PgUp/PgDn scroll the task)',
+    });
+
+    const decide = (decision: PlanReviewAction) => {
+      screen.destroy();
+      resolve(decision);
+    };
+    const current = () => (taskList as any).selected as number;
+
+    taskList.on('select item', (_item: any, index: number) => {
+      detailsBox.setContent(items[index]?.details || '');
+      detailsBox.setScroll(0);
+      screen.render();
+    });
+    // the plan keys are ignored while the feedback prompt has the keyboard
+    let prompting = false;
+    const onKey = (keys: string[], handler: () => void) => screen.key(keys, () => {
+      if (!prompting) handler();
+    });
+    onKey(['pageup'], () => { detailsBox.scroll(-10); screen.render(); });
+    onKey(['pagedown'], () => { detailsBox.scroll(10); screen.render(); });
+    onKey(['a'], () => decide({ action: 'approve' }));
+    onKey(['e'], () => decide({ action: 'edit', index: current() }));
+    onKey(['d'], () => decide({ action: 'drop', index: current() }));
+    onKey(['q', 'escape'], () => decide({ action: 'cancel' }));
+    onKey(['p'], () => {
+      prompting = true;
+      const feedbackPrompt = blessed.prompt({
+        parent: screen,
+        border: 'line',
+        height: 'shrink',
+        width: 'half',
+        top: 'center',
+        left: 'center',
+        label: ' Re-plan ',
+        keys: true,
+      });
+      feedbackPrompt.input('What should the planner change?', '', (_error: any, feedback: string) => {
+        if (feedback && feedback.trim()) {
+          decide({ action: 'replan', feedback: feedback.trim() });
+          return;
+        }
+        // let the escape that closed the prompt pass before the plan keys are live again
+        setImmediate(() => { prompting = false; });
+        taskList.focus();
+        screen.render();
+      });
+    });
+
+    taskList.select(selected);
+    taskList.focus();
+    screen.render();
+  });
+}
@@ -1,83 +1,95 @@
-
 // conversation.ts
-import { AnthropicVertex } from '@anthropic-ai/vertex-sdk';
-import { VertexAI } from '@google-cloud/vertexai';
+import { EventEmitter } from 'eventemitter3';
+import { getProvider, resolveModel } from './llm/registry';
+import { responseToEvents } from './llm/stream';
+import { usageTracker } from './llm/usage';
+import { currentBudget } from './budget';
+import { ChatMessage, ChatRequest, ChatResponse, LLMProvider, StreamEvent, ToolChoice, ToolDefinition, ToolUseBlock } from './llm/types';
 
-export default class Conversation {
-  model: string;
-  projectId: string;
-  location: string;
-  client: any;
-  vertexAI: any;
-  constructor(model: any) {
-    this.model = model.toLowerCase();
+export interface ChatOptions {
+  max_tokens?: number;
+  temperature?: number;
+  responseFormat?: string;
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+}
 
-    if (this.model !== 'claude' && this.model !== 'gemini') {
-      throw new Error("Invalid model specified. Choose either 'claude' or 'gemini'.");
-    }
+const defaultChatOptions: ChatOptions = {
+  max_tokens: 4000,
+  temperature: 0.618,
+  responseFormat: ''
+};
 
-    // Vertex AI Configuration (adjust if needed)
-    this.projectId = 'silent-blade-417120';
-    this.location = this.model === 'claude' ? 'us-east5' : 'us-central1';
+// Emits 'delta' (text) and 'tool_use' (block) while a completion streams in.
+// `chat` streams whenever someone is listening for 'delta', so UIs can render
+// partial output without every caller switching to `stream`.
+export default class Conversation extends EventEmitter {
+  model: string;
+  provider: LLMProvider;
 
-    if (this.model === 'claude') {
-      this.client = new AnthropicVertex({
-        region: this.location,
-        projectId: this.projectId,
-      });
-    } else {
-      this.vertexAI = new VertexAI({
-        project: this.projectId,
-        location: this.location
-      });
-    }
+  // `model` names a configured provider ('claude', 'gemini', 'anthropic', 'local', ...).
+  // When omitted the provider selected in config.json / LLM_PROVIDER is used.
+  constructor(model?: string) {
+    super();
+    this.provider = getProvider(model ? model.toLowerCase() : undefined);
+    this.model = this.provider.name;
   }
 
-  async chat(messages: any[], options = {
-    max_tokens : 4000, 
-    temperature : 0.618,
-    responseFormat: ''
-  }, model = 'gemini-1.5-pro-001') {
-    const {}: any = options;
+  private prepareRequest(messages: ChatMessage[], options: ChatOptions, model?: string): ChatRequest {
     if(!Array.isArray(messages)) {
       throw new Error('Messages must be an array of objects.');
     }
+    const { max_tokens, temperature } = { ...defaultChatOptions, ...options };
+    let responseFormat = options.responseFormat || '';
+    if(responseFormat !== '') {
+      responseFormat = `\n\nRESPONSE FORMAT. *** YOU are REQUIRED to return the response in JSON formatted with the following format: ${responseFormat} Do NOT SURROUND with Codeblocks ***`
+    }
 
-    if (this.model === 'claude') {
-      return this.chatWithClaude(messages, options);
-    } else {
-      return this.chatWithGemini(messages, options, model);
+    messages = messages.map(message => ({ ...message }));
+    let system = "You are a helpful assistant.";
+    if (messages[0] && messages[0].role === "system") {
+      system = messages[0].content + responseFormat;
+      messages.shift();
+    }
+    if(responseFormat !== '' && messages.length > 0) {
+      messages[messages.length - 1].content += responseFormat;
     }
+
+    return {
+      messages,
+      model: resolveModel(this.model, model),
+      system,
+      max_tokens: max_tokens || 4000,
+      temperature,
+      tools: options.tools,
+      tool_choice: options.tool_choice,
+    };
   }
 
-  async chatWithClaude(messages: any[], options = {
-    max_tokens : 4000, 
-    temperature : 0.15,
-    responseFormat : ''
-  }) {
-    let { max_tokens, temperature, responseFormat } = options;
-    if(responseFormat !== '') {
-      responseFormat = `\n\nRESPONSE FORMAT. *** YOU are REQUIRED to return the response in JSON formatted with the following format: ${responseFormat} Do NOT SURROUND with Codeblocks ***`
-    }
+  // `model` is either a concrete model name or an alias such as 'fast' that the
+  // provider config maps to one of its models.
+  async chat(messages: ChatMessage[], options: ChatOptions = defaultChatOptions, model?: string) {
+    const request = this.prepareRequest(messages, options, model);
     try {
-      let system = "You are a helpful assistant.";
-      if (messages[0].role === "system") {
-        system = messages[0].content + (responseFormat ? responseFormat : '');
-        messages.shift();
-      }
-      if(responseFormat !== '') {
-        messages[messages.length - 1].content += responseFormat;
+      let result: any;
+      if (this.listenerCount('delta') > 0) {
+        for await (const event of this.streamRequest(request)) {
+          if (event.type === 'done') result = event.response;
+        }
+      } else {
+        currentBudget()?.chargeCall();
+        const startTime = Date.now();
+        try {
+          result = await this.provider.chat(request);
+        } catch (error) {
+          this.recordUsage(request, null, startTime);
+          throw error;
+        }
+        this.recordUsage(request, result, startTime);
       }
-      let result = await this.client.messages.create({
-        messages: messages,
-        model: 'claude-3-5-sonnet@20240620',
-        system,
-        max_tokens: max_tokens || 4000,
-        temperature: temperature,
-      });
-      if(responseFormat !== '') {
+      if(options.responseFormat) {
         try {
-        result = JSON.parse(result.content[0].text);
+          result = JSON.parse(result.content[0].text);
         } catch (error) {
           result = result.content[0].text;
         }
@@ -85,23 +97,50 @@ export default class Conversation {
       return result;
     } catch (error) {
       console.error(error);
-      return error;
+      throw error;
     }
   }
 
-  async chatWithGemini(messages: any[], options: any, model: string = 'gemini-1.5-pro-001') {
-    const { max_tokens, temperature } = options;
-    const generativeModel = this.vertexAI.getGenerativeModel({
-      model: model,
-    });
-    const prompt = messages.map(message => `${message.role}: ${message.content}`).join('\n');
+  // Async iterator of text deltas and tool calls, ending with a 'done' event that
+  // carries the full response.
+  async *stream(messages: ChatMessage[], options: ChatOptions = defaultChatOptions, model?: string): AsyncIterable<StreamEvent> {
+    yield* this.streamRequest(this.prepareRequest(messages, options, model));
+  }
 
-    const resp = await generativeModel.generateContent(prompt, {
-      temperature: temperature,
-      maxOutputTokens: max_tokens,
+  private async *streamRequest(request: ChatRequest): AsyncIterable<StreamEvent> {
+    currentBudget()?.chargeCall();
+    const startTime = Date.now();
+    try {
+      const events = this.provider.stream
+        ? this.provider.stream(request)
+        : responseToEvents(await this.provider.chat(request));
+      for await (const event of events) {
+        if (event.type === 'text') this.emit('delta', event.text);
+        if (event.type === 'tool_use') this.emit('tool_use', event.block);
+        if (event.type === 'done') this.recordUsage(request, event.response, startTime);
+        yield event;
+      }
+    } catch (error) {
+      this.recordUsage(request, null, startTime);
+      throw error;
+    }
+  }
+
+  // Failed calls are recorded with zero tokens so latency and call counts stay honest.
+  private recordUsage(request: ChatRequest, response: ChatResponse | null, startTime: number): void {
+    currentBudget()?.chargeTokens((response?.usage?.input_tokens || 0) + (response?.usage?.output_tokens || 0));
+    usageTracker.record({
+      provider: this.model,
+      model: response?.model || request.model,
+      inputTokens: response?.usage?.input_tokens || 0,
+      outputTokens: response?.usage?.output_tokens || 0,
+      latencyMs: Date.now() - startTime,
+      success: !!response,
     });
+  }
 
-    const contentResponse = await resp.response;
-    return contentResponse;
+  // The tool calls the model requested in a `chat` response made with `options.tools`.
+  static getToolCalls(response: ChatResponse | any): ToolUseBlock[] {
+    return (response?.content || []).filter((block: any) => block.type === 'tool_use');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,165 @@
+// llm/cassette.ts
+// Record/replay wrapper around any provider. In 'record' mode every request and
+// the provider's response are appended to a cassette file; in 'replay' mode the
+// responses are served back by request hash without touching the network.
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { ChatRequest, ChatResponse, LLMProvider, StreamEvent } from './types';
+import { responseToEvents } from './stream';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteSettings {
+  mode: CassetteMode;
+  path: string;
+}
+
+interface Interaction {
+  key: string;
+  provider: string;
+  request: ChatRequest;
+  response: ChatResponse;
+}
+
+interface CassetteFile {
+  version: number;
+  interactions: Interaction[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(public key: string, public request: ChatRequest, cassettePath: string) {
+    super(`No recorded response in ${cassettePath} for request ${key} (model ${request.model}): ${JSON.stringify(request.messages[request.messages.length - 1]?.content || '').slice(0, 120)}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((obj, key) => {
+      obj[key] = sortKeys(value[key]);
+      return obj;
+    }, {} as any);
+  }
+  return value;
+}
+
+// Same idea as the cache key in server.js: hash the request with object keys
+// sorted so that property order never changes the key.
+export function generateRequestKey(providerName: string, request: ChatRequest): string {
+  const hasher = createHash('md5');
+  hasher.update(providerName);
+  hasher.update(JSON.stringify(sortKeys(request)));
+  return hasher.digest('hex');
+}
+
+export class Cassette {
+  private interactions: Interaction[] = [];
+  private playCounts = new Map<string, number>();
+
+  constructor(public readonly filePath: string) {
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    const data: CassetteFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    this.interactions = data.interactions || [];
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const data: CassetteFile = { version: 1, interactions: this.interactions };
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf8');
+  }
+
+  record(interaction: Interaction): void {
+    this.interactions.push(interaction);
+    this.save();
+  }
+
+  // Identical requests recorded several times are replayed in recording order;
+  // once exhausted, the last recorded response keeps being served.
+  find(key: string): Interaction | undefined {
+    const matches = this.interactions.filter(i => i.key === key);
+    if (matches.length === 0) return undefined;
+    const count = this.playCounts.get(key) || 0;
+    this.playCounts.set(key, count + 1);
+    return matches[Math.min(count, matches.length - 1)];
+  }
+}
+
+export class CassetteProvider implements LLMProvider {
+  private inner: LLMProvider | null = null;
+
+  constructor(
+    readonly name: string,
+    readonly defaultModel: string,
+    private mode: CassetteMode,
+    private cassette: Cassette,
+    private createInner: () => LLMProvider
+  ) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const key = generateRequestKey(this.name, request);
+
+    if (this.mode === 'replay') {
+      const interaction = this.cassette.find(key);
+      if (!interaction) {
+        throw new CassetteMissError(key, request, this.cassette.filePath);
+      }
+      return interaction.response;
+    }
+
+    const response = await this.getInner().chat(request);
+    this.cassette.record({ key, provider: this.name, request, response });
+    return response;
+  }
+
+  // Streams are recorded as their final response and replayed in one chunk.
+  async *stream(request: ChatRequest): AsyncIterable<StreamEvent> {
+    if (this.mode === 'replay' || !this.getInner().stream) {
+      yield* responseToEvents(await this.chat(request));
+      return;
+    }
+    for await (const event of this.getInner().stream(request)) {
+      if (event.type === 'done') {
+        this.cassette.record({ key: generateRequestKey(this.name, request), provider: this.name, request, response: event.response });
+      }
+      yield event;
+    }
+  }
+
+  // The real provider is only constructed when recording, so replay never
+  // needs credentials.
+  private getInner(): LLMProvider {
+    if (!this.inner) this.inner = this.createInner();
+    return this.inner;
+  }
+}
+
+let settingsOverride: CassetteSettings | null = null;
+const cassettes = new Map<string, Cassette>();
+
+export function getCassette(filePath: string): Cassette {
+  const resolved = path.resolve(filePath);
+  if (!cassettes.has(resolved)) {
+    cassettes.set(resolved, new Cassette(resolved));
+  }
+  return cassettes.get(resolved);
+}
+
+// Programmatic override; use `useCassette` in registry.ts so cached providers are rebuilt.
+export function setCassette(settings: CassetteSettings | null): void {
+  settingsOverride = settings;
+  cassettes.clear();
+}
+
+export function getCassetteSettings(configured?: Partial<CassetteSettings>): CassetteSettings {
+  if (settingsOverride) return settingsOverride;
+  return {
+    mode: (process.env.LLM_CASSETTE_MODE as CassetteMode) || configured?.mode || 'off',
+    path: process.env.LLM_CASSETTE || configured?.path || path.join(process.cwd(), 'cassettes', 'llm.json'),
+  };
+}
@@ -0,0 +1,71 @@
+// llm/config.ts
+import fs from 'fs';
+import path from 'path';
+import { LLMConfig } from './types';
+
+const defaultProjectId = process.env.VERTEX_PROJECT_ID || 'silent-blade-417120';
+
+export const defaultLLMConfig: LLMConfig = {
+  provider: 'claude',
+  providers: {
+    claude: {
+      type: 'vertex-claude',
+      projectId: defaultProjectId,
+      location: 'us-east5',
+      model: 'claude-3-5-sonnet@20240620',
+    },
+    gemini: {
+      type: 'vertex-gemini',
+      projectId: defaultProjectId,
+      location: 'us-central1',
+      model: 'gemini-1.5-pro-001',
+      models: { fast: 'gemini-1.5-flash-001' },
+    },
+    anthropic: {
+      type: 'anthropic',
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      model: 'claude-3-5-sonnet-20240620',
+      models: { fast: 'claude-3-haiku-20240307' },
+    },
+    local: {
+      type: 'openai-compatible',
+      baseURL: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.OPENAI_API_KEY || 'local',
+      model: process.env.LOCAL_MODEL || 'llama3',
+    },
+  },
+};
+
+let cachedConfig: LLMConfig | null = null;
+
+// Reads the `llm` section of config.json in the working directory (if any) and
+// merges it over the defaults. LLM_PROVIDER overrides the selected provider.
+export function loadLLMConfig(configFile: string = path.join(process.cwd(), 'config.json')): LLMConfig {
+  if (cachedConfig) return cachedConfig;
+
+  let fileConfig: Partial<LLMConfig> = {};
+  try {
+    if (fs.existsSync(configFile)) {
+      fileConfig = JSON.parse(fs.readFileSync(configFile, 'utf8')).llm || {};
+    }
+  } catch (error) {
+    console.error(`Error reading LLM config from ${configFile}:`, error);
+  }
+
+  const providers = { ...defaultLLMConfig.providers };
+  for (const [name, providerConfig] of Object.entries(fileConfig.providers || {})) {
+    providers[name] = { ...(providers[name] || {}), ...providerConfig };
+  }
+
+  cachedConfig = {
+    provider: process.env.LLM_PROVIDER || fileConfig.provider || defaultLLMConfig.provider,
+    providers,
+    cassette: fileConfig.cassette,
+    prices: fileConfig.prices,
+  };
+  return cachedConfig;
+}
+
+export function resetLLMConfig(): void {
+  cachedConfig = null;
+}
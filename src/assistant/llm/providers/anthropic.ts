@@ -0,0 +1,18 @@
+// providers/anthropic.ts
+import Anthropic from '@anthropic-ai/sdk';
+import { ProviderConfig } from '../types';
+import { AnthropicMessagesProvider } from './anthropicMessages';
+
+export class AnthropicProvider extends AnthropicMessagesProvider {
+  readonly defaultModel: string;
+  protected client: Anthropic;
+
+  constructor(readonly name: string, config: ProviderConfig) {
+    super();
+    this.defaultModel = config.model;
+    this.client = new Anthropic({
+      apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY,
+      ...(config.baseURL ? { baseURL: config.baseURL } : {}),
+    });
+  }
+}
@@ -0,0 +1,51 @@
+// providers/anthropicMessages.ts
+// Shared Messages API implementation for the Anthropic-native clients
+// (AnthropicVertex and the direct Anthropic SDK expose the same surface).
+import { ChatRequest, ChatResponse, LLMProvider, StreamEvent } from '../types';
+
+export abstract class AnthropicMessagesProvider implements LLMProvider {
+  abstract readonly name: string;
+  abstract readonly defaultModel: string;
+  protected abstract client: any;
+
+  protected toParams(request: ChatRequest): any {
+    return {
+      messages: request.messages,
+      model: request.model,
+      system: request.system,
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      ...(request.tools && request.tools.length > 0 ? { tools: request.tools, tool_choice: request.tool_choice } : {}),
+    };
+  }
+
+  protected toResponse(result: any, request: ChatRequest): ChatResponse {
+    return {
+      content: result.content,
+      model: result.model || request.model,
+      stop_reason: result.stop_reason,
+      usage: result.usage,
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const result = await this.client.messages.create(this.toParams(request));
+    return this.toResponse(result, request);
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<StreamEvent> {
+    const stream = this.client.messages.stream(this.toParams(request));
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield { type: 'text', text: event.delta.text };
+      }
+    }
+    const response = this.toResponse(await stream.finalMessage(), request);
+    for (const block of response.content) {
+      if (block.type === 'tool_use') {
+        yield { type: 'tool_use', block: block as any };
+      }
+    }
+    yield { type: 'done', response };
+  }
+}
@@ -0,0 +1,150 @@
+// providers/openaiCompatible.ts
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+// local llama.cpp / Ollama / vLLM endpoint configured through `baseURL`.
+import OpenAI from 'openai';
+import { ChatMessage, ChatRequest, ChatResponse, ContentBlock, LLMProvider, ProviderConfig, StreamEvent } from '../types';
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(readonly name: string, config: ProviderConfig) {
+    this.defaultModel = config.model;
+    this.client = new OpenAI({
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY || 'none',
+      baseURL: config.baseURL,
+    });
+  }
+
+  // Anthropic-style tool_use blocks become `tool_calls` on the assistant message,
+  // and each tool_result block becomes its own `tool` role message.
+  private toMessages(messages: ChatMessage[]): any[] {
+    const converted: any[] = [];
+    for (const message of messages) {
+      if (typeof message.content === 'string') {
+        converted.push({ role: message.role === 'assistant' ? 'assistant' : 'user', content: message.content });
+        continue;
+      }
+      const blocks: ContentBlock[] = message.content;
+      const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+      if (message.role === 'assistant') {
+        const toolCalls = blocks.filter(block => block.type === 'tool_use').map(block => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input || {}) },
+        }));
+        converted.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+        continue;
+      }
+      for (const block of blocks.filter(block => block.type === 'tool_result')) {
+        converted.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: typeof block.content === 'string' ? block.content : JSON.stringify(block.content),
+        });
+      }
+      if (text) {
+        converted.push({ role: 'user', content: text });
+      }
+    }
+    return converted;
+  }
+
+  private toParams(request: ChatRequest): any {
+    const hasTools = request.tools && request.tools.length > 0;
+    const toolChoice = !request.tool_choice || request.tool_choice.type === 'auto'
+      ? 'auto'
+      : request.tool_choice.type === 'any'
+        ? 'required'
+        : { type: 'function', function: { name: request.tool_choice.name } };
+
+    return {
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.system },
+        ...this.toMessages(request.messages),
+      ],
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      ...(hasTools ? {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+        })),
+        tool_choice: toolChoice,
+      } : {}),
+    };
+  }
+
+  private toResponse(request: ChatRequest, model: string, text: string, toolCalls: any[], finishReason: string | null, usage: any): ChatResponse {
+    const content: ContentBlock[] = [{ type: 'text', text }];
+    for (const toolCall of toolCalls) {
+      let input = {};
+      try {
+        input = JSON.parse(toolCall.function.arguments || '{}');
+      } catch (error) {
+        input = { _raw: toolCall.function.arguments };
+      }
+      content.push({ type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input });
+    }
+    return {
+      content,
+      model: model || request.model,
+      stop_reason: finishReason === 'tool_calls' ? 'tool_use' : finishReason,
+      usage: {
+        input_tokens: usage?.prompt_tokens || 0,
+        output_tokens: usage?.completion_tokens || 0,
+      },
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const result = await this.client.chat.completions.create(this.toParams(request));
+    const choice = result.choices[0];
+    return this.toResponse(
+      request,
+      result.model,
+      choice?.message?.content || '',
+      choice?.message?.tool_calls || [],
+      choice?.finish_reason || null,
+      result.usage
+    );
+  }
+
+  // Tool call arguments arrive as JSON fragments keyed by index and are only
+  // parsed once the stream has finished.
+  async *stream(request: ChatRequest): AsyncIterable<StreamEvent> {
+    const stream: any = await this.client.chat.completions.create({ ...this.toParams(request), stream: true });
+    let text = '';
+    let model = '';
+    let finishReason: string | null = null;
+    let usage: any = null;
+    const toolCalls: any[] = [];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      usage = chunk.usage || usage;
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      finishReason = choice.finish_reason || finishReason;
+      if (choice.delta?.content) {
+        text += choice.delta.content;
+        yield { type: 'text', text: choice.delta.content };
+      }
+      for (const fragment of choice.delta?.tool_calls || []) {
+        const toolCall = toolCalls[fragment.index] || (toolCalls[fragment.index] = { id: '', function: { name: '', arguments: '' } });
+        if (fragment.id) toolCall.id = fragment.id;
+        if (fragment.function?.name) toolCall.function.name += fragment.function.name;
+        if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments;
+      }
+    }
+
+    const response = this.toResponse(request, model, text, toolCalls.filter(Boolean), finishReason, usage);
+    for (const block of response.content) {
+      if (block.type === 'tool_use') {
+        yield { type: 'tool_use', block: block as any };
+      }
+    }
+    yield { type: 'done', response };
+  }
+}
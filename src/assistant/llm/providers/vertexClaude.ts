@@ -0,0 +1,18 @@
+// providers/vertexClaude.ts
+import { AnthropicVertex } from '@anthropic-ai/vertex-sdk';
+import { ProviderConfig } from '../types';
+import { AnthropicMessagesProvider } from './anthropicMessages';
+
+export class VertexClaudeProvider extends AnthropicMessagesProvider {
+  readonly defaultModel: string;
+  protected client: AnthropicVertex;
+
+  constructor(readonly name: string, config: ProviderConfig) {
+    super();
+    this.defaultModel = config.model;
+    this.client = new AnthropicVertex({
+      region: config.location || 'us-east5',
+      projectId: config.projectId,
+    });
+  }
+}
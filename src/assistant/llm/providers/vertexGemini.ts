@@ -0,0 +1,119 @@
+// providers/vertexGemini.ts
+import { VertexAI } from '@google-cloud/vertexai';
+import { ChatMessage, ChatRequest, ChatResponse, ContentBlock, LLMProvider, ProviderConfig, StreamEvent } from '../types';
+
+export class VertexGeminiProvider implements LLMProvider {
+  readonly defaultModel: string;
+  private vertexAI: VertexAI;
+
+  constructor(readonly name: string, config: ProviderConfig) {
+    this.defaultModel = config.model;
+    this.vertexAI = new VertexAI({
+      project: config.projectId,
+      location: config.location || 'us-central1',
+    });
+  }
+
+  // Gemini replies to a function call by name rather than by call id, so tool
+  // results are matched back to the tool_use block that produced them.
+  private toContents(messages: ChatMessage[]): any[] {
+    const toolNames: { [id: string]: string } = {};
+    return messages.map(message => {
+      const blocks: ContentBlock[] = typeof message.content === 'string'
+        ? [{ type: 'text', text: message.content }]
+        : message.content;
+      const parts = blocks.map(block => {
+        switch (block.type) {
+          case 'tool_use':
+            toolNames[block.id] = block.name;
+            return { functionCall: { name: block.name, args: block.input || {} } };
+          case 'tool_result':
+            return {
+              functionResponse: {
+                name: toolNames[block.tool_use_id] || block.tool_use_id,
+                response: { content: block.content, is_error: !!block.is_error },
+              },
+            };
+          default:
+            return { text: block.text || '' };
+        }
+      });
+      return { role: message.role === 'assistant' ? 'model' : 'user', parts };
+    });
+  }
+
+  private getModel(request: ChatRequest) {
+    return this.vertexAI.getGenerativeModel({
+      model: request.model,
+      systemInstruction: request.system,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.max_tokens,
+      },
+    });
+  }
+
+  // The Vertex SDK version in use has no toolConfig, so tool_choice is not forwarded.
+  private toContentRequest(request: ChatRequest): any {
+    const hasTools = request.tools && request.tools.length > 0;
+    return {
+      contents: this.toContents(request.messages),
+      ...(hasTools ? {
+        tools: [{
+          functionDeclarations: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.input_schema,
+          })),
+        }],
+      } : {}),
+    };
+  }
+
+  private toResponse(contentResponse: any, request: ChatRequest): ChatResponse {
+    const candidate = contentResponse.candidates?.[0];
+    const content: ContentBlock[] = [];
+    let text = '';
+    (candidate?.content?.parts || []).forEach((part: any, index: number) => {
+      if (part.functionCall) {
+        content.push({ type: 'tool_use', id: `call_${Date.now()}_${index}`, name: part.functionCall.name, input: part.functionCall.args || {} });
+      } else if (part.text) {
+        text += part.text;
+      }
+    });
+    if (text || content.length === 0) {
+      content.unshift({ type: 'text', text });
+    }
+    return {
+      content,
+      model: request.model,
+      stop_reason: content.some(block => block.type === 'tool_use') ? 'tool_use' : candidate?.finishReason || null,
+      usage: {
+        input_tokens: contentResponse.usageMetadata?.promptTokenCount || 0,
+        output_tokens: contentResponse.usageMetadata?.candidatesTokenCount || 0,
+      },
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const resp = await this.getModel(request).generateContent(this.toContentRequest(request));
+    return this.toResponse(resp.response, request);
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<StreamEvent> {
+    const result = await this.getModel(request).generateContentStream(this.toContentRequest(request));
+    for await (const chunk of result.stream) {
+      const text = (chunk.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join('');
+      if (text) {
+        yield { type: 'text', text };
+      }
+    }
+    const response = this.toResponse(await result.response, request);
+    for (const block of response.content) {
+      if (block.type === 'tool_use') {
+        yield { type: 'tool_use', block: block as any };
+      }
+    }
+    yield { type: 'done', response };
+  }
+}
@@ -0,0 +1,84 @@
+// llm/registry.ts
+import { loadLLMConfig } from './config';
+import { LLMProvider, ProviderFactory } from './types';
+import { VertexClaudeProvider } from './providers/vertexClaude';
+import { VertexGeminiProvider } from './providers/vertexGemini';
+import { AnthropicProvider } from './providers/anthropic';
+import { OpenAICompatibleProvider } from './providers/openaiCompatible';
+import { CassetteProvider, CassetteSettings, getCassette, getCassetteSettings, setCassette } from './cassette';
+
+const factories = new Map<string, ProviderFactory>();
+const instances = new Map<string, LLMProvider>();
+
+export function registerProvider(type: string, factory: ProviderFactory): void {
+  factories.set(type, factory);
+}
+
+export function listProviders(): string[] {
+  return Object.keys(loadLLMConfig().providers);
+}
+
+export function hasProvider(name: string): boolean {
+  return name in loadLLMConfig().providers;
+}
+
+// Provider instances are shared, so every Conversation talking to the same
+// backend reuses a single client.
+export function getProvider(name?: string): LLMProvider {
+  const config = loadLLMConfig();
+  const providerName = name || config.provider;
+
+  const existing = instances.get(providerName);
+  if (existing) return existing;
+
+  const providerConfig = config.providers[providerName];
+  if (!providerConfig) {
+    throw new Error(`Unknown LLM provider '${providerName}'. Configured providers: ${listProviders().join(', ')}`);
+  }
+  const factory = factories.get(providerConfig.type);
+  if (!factory) {
+    throw new Error(`No adapter registered for provider type '${providerConfig.type}'.`);
+  }
+
+  let provider: LLMProvider;
+  const cassette = getCassetteSettings(config.cassette);
+  if (cassette.mode === 'record' || cassette.mode === 'replay') {
+    provider = new CassetteProvider(
+      providerName,
+      providerConfig.model,
+      cassette.mode,
+      getCassette(cassette.path),
+      () => factory(providerName, providerConfig)
+    );
+  } else {
+    provider = factory(providerName, providerConfig);
+  }
+  instances.set(providerName, provider);
+  return provider;
+}
+
+// Drops cached provider instances, e.g. after switching cassette mode in a test.
+export function resetProviders(): void {
+  instances.clear();
+}
+
+// Switches every provider to record or replay against the given cassette:
+// `useCassette({ mode: 'replay', path: 'fixtures/decompose.json' })`.
+export function useCassette(settings: CassetteSettings | null): void {
+  setCassette(settings);
+  resetProviders();
+}
+
+export function resolveModel(providerName: string, model?: string): string {
+  const providerConfig = loadLLMConfig().providers[providerName];
+  if (!model) return providerConfig.model;
+  if (providerConfig.models && providerConfig.models[model]) return providerConfig.models[model];
+  // Aliases the provider doesn't define fall back to its default model
+  if (model === 'fast' || model === 'default') return providerConfig.model;
+  return model;
+}
+
+registerProvider('vertex-claude', (name, config) => new VertexClaudeProvider(name, config));
+registerProvider('vertex-gemini', (name, config) => new VertexGeminiProvider(name, config));
+registerProvider('anthropic', (name, config) => new AnthropicProvider(name, config));
+registerProvider('openai-compatible', (name, config) => new OpenAICompatibleProvider(name, config));
@@ -0,0 +1,17 @@
+// llm/stream.ts
+import { ChatResponse, StreamEvent } from './types';
+
+// Replays a complete response as stream events, for providers (or cassettes)
+// that can't stream natively.
+export function* responseToEvents(response: ChatResponse): Iterable<StreamEvent> {
+  const text = response.content.filter(block => block.type === 'text').map(block => block.text).join('');
+  if (text) {
+    yield { type: 'text', text };
+  }
+  for (const block of response.content) {
+    if (block.type === 'tool_use') {
+      yield { type: 'tool_use', block: block as any };
+    }
+  }
+  yield { type: 'done', response };
+}
@@ -0,0 +1,91 @@
+// llm/types.ts
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | string;
+  content: any;
+}
+
+export interface ContentBlock {
+  type: 'text' | string;
+  text?: string;
+  [key: string]: any;
+}
+
+// Every provider normalizes its completion into the Anthropic message shape,
+// so callers can keep reading `response.content[0].text`.
+export interface ChatResponse {
+  content: ContentBlock[];
+  model: string;
+  stop_reason?: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Tool definitions and tool blocks follow the Anthropic shape: the model answers
+// with `{ type: 'tool_use', id, name, input }` blocks and the caller replies with
+// `{ type: 'tool_result', tool_use_id, content, is_error? }` blocks in a user message.
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: any;
+}
+
+export interface ToolUseBlock extends ContentBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: any;
+}
+
+export type ToolChoice = { type: 'auto' } | { type: 'any' } | { type: 'tool'; name: string };
+
+export interface ChatRequest {
+  model: string;
+  system: string;
+  messages: ChatMessage[];
+  max_tokens: number;
+  temperature: number;
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+}
+
+// Incremental output of a streamed completion. `done` is always the last event
+// and carries the same normalized response `chat` would have returned.
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; block: ToolUseBlock }
+  | { type: 'done'; response: ChatResponse };
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+  // Optional; Conversation falls back to a single `chat` call when missing
+  stream?(request: ChatRequest): AsyncIterable<StreamEvent>;
+}
+
+export interface ProviderConfig {
+  type: string;
+  model: string;
+  // Aliases such as 'fast' that callers can pass instead of a concrete model name
+  models?: { [alias: string]: string };
+  projectId?: string;
+  location?: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export interface LLMConfig {
+  provider: string;
+  providers: { [name: string]: ProviderConfig };
+  cassette?: {
+    mode?: 'off' | 'record' | 'replay';
+    path?: string;
+  };
+  // USD per million tokens, keyed by model name or model name prefix
+  prices?: { [model: string]: { input: number; output: number } };
+}
+
+export type ProviderFactory = (name: string, config: ProviderConfig) => LLMProvider;
@@ -0,0 +1,143 @@
+// llm/usage.ts
+// Per-call token, latency and cost accounting. Calls are attributed to the
+// session, request and tool active in the current async context, so nested
+// LLM calls (standardizing a tool while running a task, ...) are charged to the
+// work that caused them without threading ids through every method.
+import fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { loadLLMConfig } from './config';
+
+export interface UsageScope {
+  sessionId?: string;
+  requestId?: string;
+  tool?: string;
+}
+
+export interface UsageRecord extends UsageScope {
+  timestamp: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+  success: boolean;
+}
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+export const defaultPrices: { [modelPrefix: string]: ModelPrice } = {
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-1.5-pro': { input: 3.5, output: 10.5 },
+  'gemini-1.5-flash': { input: 0.35, output: 1.05 },
+};
+
+const scopeStorage = new AsyncLocalStorage<UsageScope>();
+
+// Runs `fn` with the given attribution merged over the enclosing scope.
+export function runWithUsageScope<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+  return scopeStorage.run({ ...(scopeStorage.getStore() || {}), ...scope }, fn);
+}
+
+export function currentUsageScope(): UsageScope {
+  return scopeStorage.getStore() || {};
+}
+
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+  private logFile: string | null = null;
+
+  // Matches the longest configured prefix so dated/versioned model ids
+  // ('claude-3-5-sonnet@20240620') share one price entry.
+  getPrice(model: string): ModelPrice {
+    const prices = { ...defaultPrices, ...(loadLLMConfig().prices || {}) };
+    if (prices[model]) return prices[model];
+    const prefix = Object.keys(prices)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : { input: 0, output: 0 };
+  }
+
+  estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const price = this.getPrice(model);
+    return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+  }
+
+  // Every record is also appended to this JSONL file so usage survives restarts.
+  setLogFile(filePath: string): void {
+    this.logFile = filePath;
+  }
+
+  record(entry: Omit<UsageRecord, 'timestamp' | 'cost' | keyof UsageScope>): UsageRecord {
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...currentUsageScope(),
+      ...entry,
+      cost: this.estimateCost(entry.model, entry.inputTokens, entry.outputTokens),
+    };
+    this.records.push(record);
+    if (this.logFile) {
+      try {
+        fs.appendFileSync(this.logFile, JSON.stringify(record) + '\n');
+      } catch (error) {
+        console.error('Error writing usage log:', error);
+      }
+    }
+    return record;
+  }
+
+  getRecords(filter: UsageScope = {}): UsageRecord[] {
+    return this.records.filter(record =>
+      Object.entries(filter).every(([key, value]) => value === undefined || record[key] === value)
+    );
+  }
+
+  summarize(records: UsageRecord[] = this.records): UsageSummary {
+    return records.reduce((summary, record) => ({
+      calls: summary.calls + 1,
+      inputTokens: summary.inputTokens + record.inputTokens,
+      outputTokens: summary.outputTokens + record.outputTokens,
+      latencyMs: summary.latencyMs + record.latencyMs,
+      cost: summary.cost + record.cost,
+    }), { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 });
+  }
+
+  aggregate(by: 'sessionId' | 'requestId' | 'tool' | 'model' | 'provider', filter: UsageScope = {}): { [key: string]: UsageSummary } {
+    const groups: { [key: string]: UsageRecord[] } = {};
+    for (const record of this.getRecords(filter)) {
+      const key = record[by] || '(none)';
+      (groups[key] = groups[key] || []).push(record);
+    }
+    return Object.entries(groups).reduce((result, [key, records]) => {
+      result[key] = this.summarize(records);
+      return result;
+    }, {} as { [key: string]: UsageSummary });
+  }
+
+  generateReport(filter: UsageScope = {}): any {
+    return {
+      generatedAt: new Date().toISOString(),
+      total: this.summarize(this.getRecords(filter)),
+      bySession: this.aggregate('sessionId', filter),
+      byRequest: this.aggregate('requestId', filter),
+      byTool: this.aggregate('tool', filter),
+      byModel: this.aggregate('model', filter),
+    };
+  }
+}
+
+export const usageTracker = new UsageTracker();
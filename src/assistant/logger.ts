@@ -45,6 +45,15 @@ function setLogLevel(level: string) {
   logger.level = level;
 }
 
+// In stdio server mode stdout carries the protocol, so log lines go to stderr
+function logToStderr() {
+  for (const transport of logger.transports) {
+    if (transport instanceof winston.transports.Console) {
+      (transport as any).stderrLevels = Object.fromEntries(Object.keys(logLevels).map(level => [level, true]));
+    }
+  }
+}
+
 // Create a function to enable/disable specific services
 const enabledServices = new Set<string>();
 
@@ -63,4 +72,4 @@ function log(level: string, message: string, service: string) {
   }
 }
 
-export { logger, setLogLevel, toggleService, log };
\ No newline at end of file
+export { logger, setLogLevel, toggleService, log, logToStderr };
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { defaultMcpServerPolicy } from '../config';
+import { isPublished, needsConfirmation } from '../server';
+
+function tool(name: string, tags: string[], extra: any = {}): any {
+  return { name, tags, schema: {}, ...extra };
+}
+
+describe('needsConfirmation', () => {
+  it.each([
+    ['a builtin tool', tool('call_agent', ['builtin']), true],
+    ['a trusted tool', tool('deploy', ['trusted']), true],
+    ['a plugin tool', tool('weather', ['plugin'], { handler: async () => undefined }), true],
+    ['a tool tagged dangerous', tool('wipe', ['dangerous']), true],
+    ['a sandboxed tool', tool('greet', ['generated']), false],
+  ])('decides whether %s needs confirmation', (_label, candidate, expected) => {
+    expect(needsConfirmation(candidate, defaultMcpServerPolicy)).toBe(expected);
+  });
+
+  it('leaves unsandboxed tools alone when told to', () => {
+    const policy = { ...defaultMcpServerPolicy, confirmUnsandboxed: false };
+    expect(needsConfirmation(tool('bash', ['builtin']), policy)).toBe(false);
+    expect(needsConfirmation(tool('bash', ['builtin']), { ...policy, confirmTools: ['bash'] })).toBe(true);
+  });
+});
+
+describe('isPublished', () => {
+  it('hides tools imported from other MCP servers and archived tools', () => {
+    expect(isPublished(tool('github_create_issue', ['mcp', 'mcp:github']), defaultMcpServerPolicy)).toBe(false);
+    expect(isPublished(tool('greet', [], { schema: { archived: true } }), defaultMcpServerPolicy)).toBe(false);
+    expect(isPublished(tool('greet', []), defaultMcpServerPolicy)).toBe(true);
+  });
+});
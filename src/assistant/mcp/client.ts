@@ -0,0 +1,101 @@
+// mcp/client.ts
+// One connection to one MCP server: the initialize handshake, tool listing and
+// tool calls.
+import * as packageJson from '../../../package.json';
+import { McpServerConfig } from './config';
+import { HttpTransport, McpError, McpTransport, StdioTransport } from './transport';
+
+export const mcpProtocolVersion = '2025-03-26';
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: any;
+  outputSchema?: any;
+}
+
+export class McpClient {
+  private transport: McpTransport | null = null;
+  public serverInfo: { name: string; version: string } | null = null;
+  public onClose?: (reason: string) => void;
+  public onToolsChanged?: () => void;
+
+  constructor(public server: string, private config: McpServerConfig) {}
+
+  get connected(): boolean {
+    return this.transport !== null;
+  }
+
+  async connect(): Promise<void> {
+    let transport: McpTransport;
+    if (this.config.command) {
+      const stdio = new StdioTransport(this.server, this.config);
+      await stdio.start();
+      transport = stdio;
+    } else if (this.config.url) {
+      transport = new HttpTransport(this.server, this.config);
+    } else {
+      throw new McpError(this.server, 'Needs a command or a url');
+    }
+
+    transport.onClose = reason => {
+      if (this.transport !== transport) return;
+      this.transport = null;
+      this.onClose?.(reason);
+    };
+    transport.onNotification = method => {
+      if (method === 'notifications/tools/list_changed') this.onToolsChanged?.();
+    };
+
+    try {
+      const result = await transport.request('initialize', {
+        protocolVersion: mcpProtocolVersion,
+        capabilities: {},
+        clientInfo: { name: packageJson.name, version: packageJson.version },
+      });
+      this.serverInfo = result?.serverInfo || null;
+      await transport.notify('notifications/initialized');
+    } catch (error) {
+      await transport.close();
+      throw error;
+    }
+    this.transport = transport;
+  }
+
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(page?.tools || []));
+      cursor = page?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  // Structured content when the tool returns it, otherwise the text of its
+  // content blocks (non-text blocks are returned as they are).
+  async callTool(name: string, args: any): Promise<any> {
+    const result = await this.request('tools/call', { name, arguments: args || {} });
+    const content: any[] = result?.content || [];
+    const text = content.filter(block => block.type === 'text').map(block => block.text).join('\n');
+    if (result?.isError) {
+      throw new McpError(this.server, `${name} failed: ${text || 'no details'}`);
+    }
+    if (result?.structuredContent !== undefined) return result.structuredContent;
+    return content.every(block => block.type === 'text') ? text : content;
+  }
+
+  private request(method: string, params?: any): Promise<any> {
+    if (!this.transport) {
+      return Promise.reject(new McpError(this.server, 'Not connected'));
+    }
+    return this.transport.request(method, params);
+  }
+
+  async close(): Promise<void> {
+    const transport = this.transport;
+    this.transport = null;
+    await transport?.close();
+  }
+}
@@ -0,0 +1,73 @@
+// mcp/config.ts
+import fs from 'fs';
+import path from 'path';
+
+// A server is either spawned (`command`) and spoken to over stdio, or reached
+// at `url` over streamable HTTP.
+export interface McpServerConfig {
+  command?: string;
+  args?: string[];
+  env?: { [name: string]: string };
+  cwd?: string;
+  url?: string;
+  headers?: { [name: string]: string };
+  // false keeps the server configured but unconnected until enabled with `.mcp enable`
+  enabled?: boolean;
+  // per-request timeout
+  timeoutMs?: number;
+}
+
+export interface McpConfig {
+  servers: { [name: string]: McpServerConfig };
+}
+
+// Reads the `mcp` section of config.json in the working directory (if any):
+//   { "mcp": { "servers": { "github": { "command": "npx", "args": [...] }, "docs": { "url": "http://..." } } } }
+export function loadMcpConfig(configFile: string = path.join(process.cwd(), 'config.json')): McpConfig {
+  let fileConfig: Partial<McpConfig> = {};
+  try {
+    if (fs.existsSync(configFile)) {
+      fileConfig = JSON.parse(fs.readFileSync(configFile, 'utf8')).mcp || {};
+    }
+  } catch (error) {
+    console.error(`Error reading MCP config from ${configFile}:`, error);
+  }
+  return { servers: fileConfig.servers || {} };
+}
+
+// Which registry tools `--mcp` publishes, and which need the user's consent
+// before each call. Read from the `mcpServer` section of config.json.
+export interface McpServerPolicy {
+  // when non-empty, only tools carrying one of these tags are published
+  includeTags: string[];
+  // tools carrying any of these are never published; by default the tools
+  // imported from other MCP servers
+  excludeTags: string[];
+  // calls to these tools, or to tools carrying one of `confirmTags`, are
+  // confirmed with the user through the client first
+  confirmTools: string[];
+  confirmTags: string[];
+  // so are calls to every tool running outside the sandbox: builtin (bash,
+  // call_agent, ...), trusted and plugin tools
+  confirmUnsandboxed: boolean;
+}
+
+export const defaultMcpServerPolicy: McpServerPolicy = {
+  includeTags: [],
+  excludeTags: ['mcp'],
+  confirmTools: [],
+  confirmTags: ['dangerous'],
+  confirmUnsandboxed: true,
+};
+
+export function loadMcpServerPolicy(configFile: string = path.join(process.cwd(), 'config.json')): McpServerPolicy {
+  let fileConfig: Partial<McpServerPolicy> = {};
+  try {
+    if (fs.existsSync(configFile)) {
+      fileConfig = JSON.parse(fs.readFileSync(configFile, 'utf8')).mcpServer || {};
+    }
+  } catch (error) {
+    console.error(`Error reading MCP server config from ${configFile}:`, error);
+  }
+  return { ...defaultMcpServerPolicy, ...fileConfig };
+}
@@ -0,0 +1,193 @@
+// mcp/manager.ts
+// Connects the configured MCP servers and registers their tools in the
+// registry as runtime tools named `<server>_<tool>`, tagged 'mcp' and
+// 'mcp:<server>'. A server whose connection drops is reconnected with backoff;
+// its tools stay registered meanwhile and fail until it is back. Servers are
+// enabled or disabled at runtime; the choice is kept in `<repoPath>/.mcp`.
+import fs from 'fs';
+import path from 'path';
+import { log } from '../logger';
+import ToolRegistry from '../toolRegistry';
+import { McpClient, McpToolInfo } from './client';
+import { loadMcpConfig, McpConfig, McpServerConfig } from './config';
+
+export type McpServerStatus = 'disabled' | 'connecting' | 'connected' | 'error';
+
+export interface McpServerState {
+  name: string;
+  status: McpServerStatus;
+  error?: string;
+  tools: string[];
+}
+
+interface ServerEntry {
+  config: McpServerConfig;
+  client: McpClient | null;
+  status: McpServerStatus;
+  error?: string;
+  tools: string[];
+  attempts: number;
+  reconnectTimer?: NodeJS.Timeout;
+}
+
+const maxReconnectDelayMs = 60000;
+
+// JSON schema of the tool's params, as the registry validates them.
+export function toInputSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') return { type: 'object', properties: {} };
+  const { $schema, ...rest } = schema;
+  return { type: 'object', properties: {}, ...rest };
+}
+
+export function mcpToolName(server: string, tool: string): string {
+  return `${server}_${tool}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+function toolSchema(server: string, name: string, tool: McpToolInfo): any {
+  const input = toInputSchema(tool.inputSchema);
+  const required = new Set<string>(input.required || []);
+  const params = Object.keys(input.properties || {}).map(param => required.has(param) ? param : `${param}?`);
+  return {
+    name,
+    description: tool.description || `${tool.name} from MCP server ${server}`,
+    methodSignature: `${name}(params: { ${params.join(', ')} }): Promise<any>`,
+    input_schema: input,
+    ...(tool.outputSchema ? { output_schema: tool.outputSchema } : {}),
+    mcp: { server, tool: tool.name },
+  };
+}
+
+export class McpClientManager {
+  private servers = new Map<string, ServerEntry>();
+  private stateFile: string;
+
+  constructor(private toolRegistry: ToolRegistry, config: McpConfig = loadMcpConfig()) {
+    this.stateFile = path.join(toolRegistry.repoPath, '.mcp');
+    const enabled = this.loadEnabled();
+    for (const [name, serverConfig] of Object.entries(config.servers)) {
+      const isEnabled = enabled[name] ?? serverConfig.enabled !== false;
+      this.servers.set(name, { config: serverConfig, client: null, status: isEnabled ? 'connecting' : 'disabled', tools: [], attempts: 0 });
+    }
+  }
+
+  private loadEnabled(): { [name: string]: boolean } {
+    try {
+      return JSON.parse(fs.readFileSync(this.stateFile, 'utf8')).enabled || {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  private saveEnabled(name: string, enabled: boolean) {
+    try {
+      fs.writeFileSync(this.stateFile, JSON.stringify({ enabled: { ...this.loadEnabled(), [name]: enabled } }, null, 2));
+    } catch (error) {
+      log('error', `Error saving MCP server state: ${error.message}`, 'McpClientManager');
+    }
+  }
+
+  // Connects every enabled server; failures are reported in status() and retried.
+  async start(): Promise<void> {
+    await Promise.all([...this.servers].filter(([, entry]) => entry.status !== 'disabled').map(([name]) => this.connect(name)));
+  }
+
+  status(): McpServerState[] {
+    return [...this.servers].map(([name, entry]) => ({ name, status: entry.status, ...(entry.error ? { error: entry.error } : {}), tools: entry.tools }));
+  }
+
+  private entry(name: string): ServerEntry {
+    const entry = this.servers.get(name);
+    if (!entry) throw new Error(`Unknown MCP server: ${name}. Configure it under "mcp.servers" in config.json.`);
+    return entry;
+  }
+
+  async connect(name: string): Promise<void> {
+    const entry = this.entry(name);
+    clearTimeout(entry.reconnectTimer);
+    await entry.client?.close();
+
+    const client = new McpClient(name, entry.config);
+    entry.client = client;
+    entry.status = 'connecting';
+    client.onClose = reason => {
+      if (entry.client !== client) return;
+      log('warn', `MCP server ${name} disconnected: ${reason}`, 'McpClientManager');
+      entry.status = 'error';
+      entry.error = `Disconnected: ${reason}`;
+      this.scheduleReconnect(name);
+    };
+    client.onToolsChanged = () => {
+      this.registerTools(name, client).catch(error => log('error', `Error refreshing tools of MCP server ${name}: ${error.message}`, 'McpClientManager'));
+    };
+
+    try {
+      await client.connect();
+      await this.registerTools(name, client);
+      entry.status = 'connected';
+      entry.attempts = 0;
+      delete entry.error;
+      log('info', `Connected MCP server ${name} (${entry.tools.length} tools)`, 'McpClientManager');
+    } catch (error) {
+      if (entry.client !== client) return;
+      entry.status = 'error';
+      entry.error = error.message;
+      log('error', `Cannot connect MCP server ${name}: ${error.message}`, 'McpClientManager');
+      await client.close();
+      this.scheduleReconnect(name);
+    }
+  }
+
+  private scheduleReconnect(name: string) {
+    const entry = this.entry(name);
+    if (entry.status === 'disabled') return;
+    const delay = Math.min(1000 * 2 ** entry.attempts, maxReconnectDelayMs);
+    entry.attempts++;
+    clearTimeout(entry.reconnectTimer);
+    entry.reconnectTimer = setTimeout(() => this.connect(name), delay);
+    // a server that never comes back must not keep the process alive
+    entry.reconnectTimer.unref();
+  }
+
+  private async registerTools(name: string, client: McpClient) {
+    const entry = this.entry(name);
+    const tools = await client.listTools();
+    const registered: string[] = [];
+    for (const tool of tools) {
+      const toolName = mcpToolName(name, tool.name);
+      const schema = toolSchema(name, toolName, tool);
+      if (this.toolRegistry.registerRuntimeTool(toolName, schema, ['mcp', `mcp:${name}`], params => client.callTool(tool.name, params))) {
+        registered.push(toolName);
+      }
+    }
+    entry.tools.filter(toolName => !registered.includes(toolName)).forEach(toolName => this.toolRegistry.unregisterRuntimeTool(toolName));
+    entry.tools = registered;
+  }
+
+  async enable(name: string): Promise<void> {
+    this.entry(name);
+    this.saveEnabled(name, true);
+    await this.connect(name);
+  }
+
+  async disable(name: string): Promise<void> {
+    const entry = this.entry(name);
+    this.saveEnabled(name, false);
+    entry.status = 'disabled';
+    delete entry.error;
+    clearTimeout(entry.reconnectTimer);
+    const client = entry.client;
+    entry.client = null;
+    await client?.close();
+    entry.tools.forEach(toolName => this.toolRegistry.unregisterRuntimeTool(toolName));
+    entry.tools = [];
+  }
+
+  async close(): Promise<void> {
+    for (const entry of this.servers.values()) {
+      clearTimeout(entry.reconnectTimer);
+      const client = entry.client;
+      entry.client = null;
+      await client?.close();
+    }
+  }
+}
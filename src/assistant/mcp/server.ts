@@ -0,0 +1,169 @@
+// mcp/server.ts
+// `--mcp`: publishes the registry's tools to MCP clients over stdio. Calls to
+// tools the policy marks for confirmation are put to the user through the
+// client's elicitation support; a client without it cannot call them.
+import readline from 'readline';
+import { Readable, Writable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import * as packageJson from '../../../package.json';
+import { log } from '../logger';
+import ToolRegistry from '../toolRegistry';
+import { Tool } from '../tool';
+import { runWithUsageScope } from '../llm/usage';
+import { shouldSandbox } from '../sandbox/policy';
+import { handleRpc, RpcError, RpcErrorCode, RpcMethods } from '../server/protocol';
+import { mcpProtocolVersion } from './client';
+import { loadMcpServerPolicy, McpServerPolicy } from './config';
+
+const supportedProtocolVersions = ['2024-11-05', '2025-03-26', '2025-06-18'];
+
+export function isPublished(tool: Tool, policy: McpServerPolicy): boolean {
+  const tags = tool.tags || [];
+  return !tool.schema?.archived
+    && (policy.includeTags.length === 0 || tags.some(tag => policy.includeTags.includes(tag)))
+    && !tags.some(tag => policy.excludeTags.includes(tag));
+}
+
+export function needsConfirmation(tool: Tool, policy: McpServerPolicy): boolean {
+  return (policy.confirmUnsandboxed && (!!tool.handler || !shouldSandbox(tool)))
+    || policy.confirmTools.includes(tool.name)
+    || (tool.tags || []).some(tag => policy.confirmTags.includes(tag));
+}
+
+function toolResult(result: any, isError: boolean = false): any {
+  const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2) ?? 'null';
+  return {
+    content: [{ type: 'text', text }],
+    ...(!isError && result && typeof result === 'object' && !Array.isArray(result) ? { structuredContent: result } : {}),
+    isError,
+  };
+}
+
+export class McpToolServer {
+  private clientCapabilities: any = {};
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+  private send: (message: any) => void = () => undefined;
+
+  constructor(private toolRegistry: ToolRegistry, private policy: McpServerPolicy = loadMcpServerPolicy()) {}
+
+  private publishedTools(): Tool[] {
+    const definitions = new Set(this.toolRegistry.getToolDefinitions().map(definition => definition.name));
+    return Object.values(this.toolRegistry.getTools()).filter(tool => definitions.has(tool.name) && isPublished(tool, this.policy));
+  }
+
+  methods(): RpcMethods {
+    return {
+      initialize: async (params) => {
+        this.clientCapabilities = params.capabilities || {};
+        return {
+          protocolVersion: supportedProtocolVersions.includes(params.protocolVersion) ? params.protocolVersion : mcpProtocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: packageJson.name, version: packageJson.version },
+        };
+      },
+      'notifications/initialized': async () => undefined,
+      ping: async () => ({}),
+      'tools/list': async () => {
+        const published = new Set(this.publishedTools().map(tool => tool.name));
+        return {
+          tools: this.toolRegistry.getToolDefinitions()
+            .filter(definition => published.has(definition.name))
+            .map(definition => ({ name: definition.name, description: definition.description, inputSchema: definition.input_schema })),
+        };
+      },
+      'tools/call': async (params) => this.callTool(params.name, params.arguments || {}),
+    };
+  }
+
+  private async callTool(name: string, args: any): Promise<any> {
+    const tool = this.publishedTools().find(candidate => candidate.name === name);
+    if (!tool) {
+      throw new RpcError(RpcErrorCode.invalidParams, `Unknown tool: ${name}`);
+    }
+    if (needsConfirmation(tool, this.policy) && !(await this.confirm(tool, args))) {
+      return toolResult(`The user did not allow this call to ${name}.`, true);
+    }
+    try {
+      const result = await runWithUsageScope({ sessionId: 'mcp', requestId: uuidv4() }, () => this.toolRegistry.callTool(name, args));
+      return toolResult(result);
+    } catch (error) {
+      // tool failures are results the calling model can act on, not protocol errors
+      return toolResult(error?.message || String(error), true);
+    }
+  }
+
+  private async confirm(tool: Tool, args: any): Promise<boolean> {
+    if (!this.clientCapabilities.elicitation) {
+      log('warn', `Refused ${tool.name}: it needs confirmation and the client cannot ask the user`, 'McpToolServer');
+      return false;
+    }
+    try {
+      const answer = await this.request('elicitation/create', {
+        message: `Allow ${tool.name} to run with ${JSON.stringify(args)}?`,
+        requestedSchema: {
+          type: 'object',
+          properties: { allow: { type: 'boolean', title: `Run ${tool.name}` } },
+          required: ['allow'],
+        },
+      });
+      return answer?.action === 'accept' && answer.content?.allow === true;
+    } catch (error) {
+      log('warn', `Confirmation of ${tool.name} failed: ${error.message}`, 'McpToolServer');
+      return false;
+    }
+  }
+
+  private request(method: string, params: any): Promise<any> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  // Responses to our own requests (elicitation) arrive on the same stream as
+  // the client's requests.
+  private receiveResponse(message: any): boolean {
+    if (message.method || !this.pending.has(message.id)) return false;
+    const { resolve, reject } = this.pending.get(message.id);
+    this.pending.delete(message.id);
+    if (message.error) {
+      reject(new Error(message.error.message));
+    } else {
+      resolve(message.result);
+    }
+    return true;
+  }
+
+  // Resolves once the input has closed and every request has been answered.
+  serve(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    this.send = message => output.write(`${JSON.stringify(message)}\n`);
+    const methods = this.methods();
+    const handling = new Set<Promise<void>>();
+
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', line => {
+      if (!line.trim()) return;
+      try {
+        if (this.receiveResponse(JSON.parse(line))) return;
+      } catch (error) {
+        // handleRpc reports the parse error
+      }
+      const handled = handleRpc(methods, line).then(reply => {
+        if (reply) this.send(reply);
+      });
+      handling.add(handled);
+      handled.finally(() => handling.delete(handled));
+    });
+
+    return new Promise(resolve => {
+      lines.on('close', async () => {
+        for (const { reject } of this.pending.values()) reject(new Error('Client disconnected'));
+        this.pending.clear();
+        await Promise.all(handling);
+        resolve();
+      });
+    });
+  }
+}
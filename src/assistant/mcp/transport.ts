@@ -0,0 +1,205 @@
+// mcp/transport.ts
+// The two standard MCP transports, both carrying JSON-RPC 2.0: newline-delimited
+// messages over a child process's stdin/stdout, and streamable HTTP, where each
+// request is a POST answered with JSON or with a server-sent event stream.
+import { ChildProcess, spawn } from 'child_process';
+import readline from 'readline';
+import { log } from '../logger';
+import { McpServerConfig } from './config';
+
+export class McpError extends Error {
+  constructor(public server: string, message: string, public code?: number) {
+    super(`[${server}] ${message}`);
+    this.name = 'McpError';
+  }
+}
+
+export interface McpTransport {
+  request(method: string, params?: any): Promise<any>;
+  notify(method: string, params?: any): Promise<void>;
+  close(): Promise<void>;
+  // called once when the connection is lost (not after close())
+  onClose?: (reason: string) => void;
+  onNotification?: (method: string, params: any) => void;
+}
+
+const defaultTimeoutMs = 60000;
+
+function responseResult(server: string, message: any): any {
+  if (message.error) {
+    throw new McpError(server, message.error.message || 'Request failed', message.error.code);
+  }
+  return message.result;
+}
+
+export class StdioTransport implements McpTransport {
+  private child: ChildProcess;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }>();
+  private closing = false;
+  public onClose?: (reason: string) => void;
+  public onNotification?: (method: string, params: any) => void;
+
+  constructor(private server: string, private config: McpServerConfig) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.child = spawn(this.config.command, this.config.args || [], {
+        cwd: this.config.cwd,
+        env: { ...process.env, ...(this.config.env || {}) },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      this.child.once('spawn', () => resolve());
+      this.child.once('error', error => {
+        reject(new McpError(this.server, `Cannot start ${this.config.command}: ${error.message}`));
+        this.lost(error.message);
+      });
+      this.child.once('exit', (code, signal) => this.lost(`process exited (${signal || code})`));
+      this.child.stderr.on('data', data => log('debug', `[${this.server}] ${String(data).trimEnd()}`, 'McpClient'));
+      readline.createInterface({ input: this.child.stdout }).on('line', line => this.receive(line));
+    });
+  }
+
+  private receive(line: string) {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch (error) {
+      log('debug', `[${this.server}] ignoring non-JSON output: ${line}`, 'McpClient');
+      return;
+    }
+    if (message.method) {
+      if (message.id === undefined) {
+        this.onNotification?.(message.method, message.params);
+      } else {
+        // sampling, roots and the other server-to-client requests are not supported
+        this.send({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Unsupported method: ${message.method}` } });
+      }
+      return;
+    }
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+    try {
+      pending.resolve(responseResult(this.server, message));
+    } catch (error) {
+      pending.reject(error);
+    }
+  }
+
+  private send(message: any) {
+    this.child.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  request(method: string, params?: any): Promise<any> {
+    if (!this.child || this.child.exitCode !== null) {
+      return Promise.reject(new McpError(this.server, 'Not connected'));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpError(this.server, `${method} timed out`));
+      }, this.config.timeoutMs || defaultTimeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.send({ jsonrpc: '2.0', id, method, ...(params !== undefined ? { params } : {}) });
+    });
+  }
+
+  async notify(method: string, params?: any): Promise<void> {
+    this.send({ jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}) });
+  }
+
+  private lost(reason: string) {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new McpError(this.server, `Connection lost: ${reason}`));
+      this.pending.delete(id);
+    }
+    if (!this.closing) {
+      this.closing = true;
+      this.onClose?.(reason);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    if (this.child && this.child.exitCode === null) {
+      this.child.stdin.end();
+      this.child.kill();
+    }
+  }
+}
+
+export class HttpTransport implements McpTransport {
+  private nextId = 1;
+  private sessionId: string | null = null;
+  public onClose?: (reason: string) => void;
+
+  constructor(private server: string, private config: McpServerConfig) {}
+
+  private async post(message: any): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.fetch(message);
+    } catch (error) {
+      this.onClose?.(error.message);
+      throw new McpError(this.server, `Cannot reach ${this.config.url}: ${error.message}`);
+    }
+    this.sessionId = response.headers.get('mcp-session-id') || this.sessionId;
+    if (response.status === 404 && this.sessionId) {
+      // the server forgot our session; reconnecting starts a new one
+      this.sessionId = null;
+      this.onClose?.('session expired');
+    }
+    if (!response.ok) {
+      throw new McpError(this.server, `HTTP ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private fetch(message: any): Promise<Response> {
+    return fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+        ...(this.config.headers || {}),
+      },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(this.config.timeoutMs || defaultTimeoutMs),
+    });
+  }
+
+  async request(method: string, params?: any): Promise<any> {
+    const id = this.nextId++;
+    const response = await this.post({ jsonrpc: '2.0', id, method, ...(params !== undefined ? { params } : {}) });
+    if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+      return responseResult(this.server, await response.json());
+    }
+    // the response to our request is one of the streamed messages
+    for (const block of (await response.text()).split(/\r?\n\r?\n/)) {
+      const data = block.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trimStart()).join('\n');
+      if (!data) continue;
+      const message = JSON.parse(data);
+      if (message.id === id) return responseResult(this.server, message);
+    }
+    throw new McpError(this.server, `No response to ${method}`);
+  }
+
+  async notify(method: string, params?: any): Promise<void> {
+    await this.post({ jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}) });
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    try {
+      await fetch(this.config.url, { method: 'DELETE', headers: { 'Mcp-Session-Id': this.sessionId, ...(this.config.headers || {}) } });
+    } catch (error) {
+      // the session ends with the server anyway
+    }
+    this.sessionId = null;
+  }
+}
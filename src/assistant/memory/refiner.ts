@@ -9,7 +9,7 @@ export class MemoryRefiner {
     this.confidenceCalculator = new ConfidenceCalculator();
   }
 
-  async refineMemories(memoryStore: MemoryStore, model: string = 'claude'): Promise<void> {
+  async refineMemories(memoryStore: MemoryStore, model?: string): Promise<void> {
     const memories = await memoryStore.listMemories();
     for (const memory of memories) {
       if (memory.confidence < 0.8) {
@@ -24,7 +24,7 @@ export class MemoryRefiner {
 }
 
 // TODO: not gonna work, becuse it has no context of the conversation
-private async getRefinedResponse(input: string, previousResponse: string, model: string): Promise<string> {
+private async getRefinedResponse(input: string, previousResponse: string, model?: string): Promise<string> {
   const convo = new Conversation(model);
   const prompt = `Given the following input and previous response, please provide an improved response:
   
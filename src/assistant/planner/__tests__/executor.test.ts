@@ -0,0 +1,120 @@
+import { TaskGraphExecutor, TaskRun } from '../executor';
+import { parsePlan, PlannedTask } from '../plan';
+
+const script = 'return 1;';
+
+// A runTask that records when each task started and resolves it by hand.
+function controlledRunner() {
+  const started: string[] = [];
+  const pending = new Map<string, { resolve: (run: TaskRun) => void; reject: (error: Error) => void }>();
+  const runTask = (task: PlannedTask, params: any) => {
+    started.push(task.id);
+    return new Promise<TaskRun>((resolve, reject) => pending.set(task.id, { resolve, reject }));
+  };
+  const settle = async (id: string, result: any, error?: Error) => {
+    const task = pending.get(id);
+    pending.delete(id);
+    error ? task.reject(error) : task.resolve({ result });
+    // let the executor react before the next step
+    await new Promise(resolve => setImmediate(resolve));
+  };
+  return { started, runTask, settle };
+}
+
+describe('TaskGraphExecutor', () => {
+  it('starts a task once its dependencies succeeded and passes their results', async () => {
+    const plan = parsePlan([
+      { id: 'a', script, dependsOn: [] },
+      { id: 'b', script, dependsOn: [] },
+      { id: 'sum', script, inputs: { left: 'a', right: 'b.value' } },
+    ]);
+    const params: { [id: string]: any } = {};
+    const runner = controlledRunner();
+    const done = new TaskGraphExecutor(4).run(plan, runner.runTask, { onStart: (task, taskParams) => params[task.id] = taskParams });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(runner.started).toEqual(['a', 'b']);
+    await runner.settle('a', 2);
+    expect(runner.started).toEqual(['a', 'b']);
+    await runner.settle('b', { value: 3 });
+    expect(runner.started).toEqual(['a', 'b', 'sum']);
+    await runner.settle('sum', 5);
+
+    const outcomes = await done;
+    expect(outcomes.map(outcome => [outcome.id, outcome.status, outcome.result])).toEqual([
+      ['a', 'succeeded', 2],
+      ['b', 'succeeded', { value: 3 }],
+      ['sum', 'succeeded', 5],
+    ]);
+    expect(params.sum).toEqual({ left: 2, right: 3 });
+  });
+
+  it('never runs more than maxParallel tasks at once', async () => {
+    const plan = parsePlan(['a', 'b', 'c', 'd', 'e'].map(id => ({ id, script, dependsOn: [] })));
+    let running = 0;
+    let peak = 0;
+    await new TaskGraphExecutor(2).run(plan, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { result: null };
+    });
+    expect(peak).toBe(2);
+  });
+
+  it('skips everything downstream of a failed task and runs the rest', async () => {
+    const plan = parsePlan([
+      { id: 'fetch', script, dependsOn: [] },
+      { id: 'parse', script, dependsOn: ['fetch'] },
+      { id: 'report', script, dependsOn: ['parse'] },
+      { id: 'other', script, dependsOn: [] },
+    ]);
+    const outcomes = await new TaskGraphExecutor().run(plan, async task => {
+      if (task.id === 'fetch') throw new Error('offline');
+      return { result: task.id };
+    });
+    expect(outcomes.map(outcome => [outcome.id, outcome.status, outcome.error])).toEqual([
+      ['fetch', 'failed', 'offline'],
+      ['parse', 'skipped', "dependency 'fetch' failed"],
+      ['report', 'skipped', "dependency 'parse' skipped"],
+      ['other', 'succeeded', undefined],
+    ]);
+  });
+
+  it('rethrows a fatal error once the running tasks have settled, starting nothing new', async () => {
+    const plan = parsePlan([
+      { id: 'a', script, dependsOn: [] },
+      { id: 'b', script, dependsOn: [] },
+      { id: 'c', script, dependsOn: ['a'] },
+    ]);
+    const fatal = new Error('budget exceeded');
+    const runner = controlledRunner();
+    const done = new TaskGraphExecutor(4).run(plan, runner.runTask, { isFatal: error => error === fatal });
+    await new Promise(resolve => setImmediate(resolve));
+
+    await runner.settle('a', null, fatal);
+    let settled = false;
+    done.catch(() => undefined).finally(() => settled = true);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(settled).toBe(false);
+
+    await runner.settle('b', 'b');
+    await expect(done).rejects.toBe(fatal);
+    expect(runner.started).toEqual(['a', 'b']);
+  });
+
+  it('does not run tasks completed by an earlier run', async () => {
+    const plan = parsePlan([
+      { id: 'a', script, dependsOn: [] },
+      { id: 'b', script, inputs: { value: 'a' } },
+    ]);
+    const ran: string[] = [];
+    const outcomes = await new TaskGraphExecutor().run(plan, async (task, params) => {
+      ran.push(task.id);
+      return { result: params.value * 2 };
+    }, {}, new Map([['a', 21]]));
+    expect(ran).toEqual(['b']);
+    expect(outcomes.map(outcome => outcome.result)).toEqual([21, 42]);
+  });
+});
@@ -0,0 +1,101 @@
+import { parsePlan, PlanError, resolveInputs, taskToolSchema, topologicalOrder, withDependents } from '../plan';
+
+const script = 'return 1;';
+
+describe('parsePlan', () => {
+  it('turns inputs into dependencies', () => {
+    const plan = parsePlan({
+      tasks: [
+        { id: 'fetch', script },
+        { id: 'parse', script, inputs: { html: 'fetch.body', meta: { from: 'fetch', path: 'headers', schema: { type: 'object' } } } },
+        { id: 'report', script, dependsOn: ['fetch'], inputs: { rows: 'parse' } },
+      ],
+    });
+    expect(plan.tasks.map(task => [task.id, task.dependsOn])).toEqual([
+      ['fetch', []],
+      ['parse', ['fetch']],
+      ['report', ['fetch', 'parse']],
+    ]);
+    expect(plan.tasks[1].inputs).toEqual({
+      html: { from: 'fetch', path: 'body' },
+      meta: { from: 'fetch', path: 'headers', schema: { type: 'object' } },
+    });
+  });
+
+  it('runs tasks of a plan without a graph one after another', () => {
+    const plan = parsePlan([[
+      { task: 'one:First step', script },
+      { task: 'two:Second step', script },
+      { task: 'three:Third step', script },
+    ]]);
+    expect(plan.tasks.map(task => [task.id, task.description, task.dependsOn])).toEqual([
+      ['one', 'First step', []],
+      ['two', 'Second step', ['one']],
+      ['three', 'Third step', ['two']],
+    ]);
+  });
+
+  it.each([
+    [[], /non-empty array/],
+    [[{ id: 'a' }], /has no script/],
+    [[{ id: 'a', script }, { id: 'a', script }], /Duplicate task id 'a'/],
+    [[{ id: 'a', script, dependsOn: ['b'] }], /unknown task 'b'/],
+    [[{ id: 'a', script, dependsOn: ['a'] }], /depends on itself/],
+    [[{ id: 'a', script, inputs: { x: 42 } }], /Input 'x' of task 'a'/],
+    [[{ id: 'a', script, dependsOn: ['c'] }, { id: 'b', script, dependsOn: ['a'] }, { id: 'c', script, dependsOn: ['b'] }], /Dependency cycle: a -> c -> b -> a/],
+  ])('rejects %j', (tasks, message) => {
+    expect(() => parsePlan(tasks)).toThrow(PlanError);
+    expect(() => parsePlan(tasks)).toThrow(message);
+  });
+});
+
+describe('topologicalOrder', () => {
+  it('puts dependencies first and otherwise keeps plan order', () => {
+    const plan = parsePlan([
+      { id: 'summary', script, dependsOn: ['a', 'b'] },
+      { id: 'b', script, dependsOn: [] },
+      { id: 'a', script, dependsOn: ['b'] },
+      { id: 'unrelated', script, dependsOn: [] },
+    ]);
+    expect(topologicalOrder(plan).map(task => task.id)).toEqual(['b', 'a', 'summary', 'unrelated']);
+  });
+});
+
+describe('withDependents', () => {
+  it('includes everything downstream of the given tasks', () => {
+    const plan = parsePlan([
+      { id: 'a', script, dependsOn: [] },
+      { id: 'b', script, dependsOn: ['a'] },
+      { id: 'c', script, dependsOn: ['b'] },
+      { id: 'd', script, dependsOn: [] },
+    ]);
+    expect([...withDependents(plan, ['b'])].sort()).toEqual(['b', 'c']);
+  });
+});
+
+describe('resolveInputs', () => {
+  it('reads each input from the producing task\'s result', () => {
+    const [, task] = parsePlan([
+      { id: 'fetch', script, dependsOn: [] },
+      { id: 'use', script, inputs: { first: 'fetch.items.0.name', all: 'fetch', missing: 'fetch.nope.deeper' } },
+    ]).tasks;
+    const results = new Map([['fetch', { items: [{ name: 'x' }] }]]);
+    expect(resolveInputs(task, results)).toEqual({ first: 'x', all: { items: [{ name: 'x' }] }, missing: undefined });
+  });
+});
+
+describe('taskToolSchema', () => {
+  it('requires every input and checks the declared output', () => {
+    const [, task] = parsePlan([
+      { id: 'fetch', script, dependsOn: [] },
+      { id: 'count', description: 'Count rows', script, inputs: { rows: { from: 'fetch', schema: { type: 'array' } } }, output: { type: 'number' } },
+    ]).tasks;
+    expect(taskToolSchema(task)).toEqual({
+      name: 'count',
+      description: 'Count rows',
+      methodSignature: 'count(params: { rows }, api: any): Promise<any>',
+      input_schema: { type: 'object', properties: { rows: { type: 'array' } }, required: ['rows'] },
+      output_schema: { type: 'number' },
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// planner/executor.ts
+// Runs a task plan: every task starts as soon as all of its dependencies have
+// succeeded, with at most `maxParallel` tasks running at once. A task whose
+// dependency failed or was skipped is skipped.
+import { log } from '../logger';
+import { PlannedTask, resolveInputs, TaskPlan, validatePlan } from './plan';
+
+export type TaskStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface TaskOutcome {
+  id: string;
+  status: TaskStatus;
+  result?: any;
+  // the script that produced the result, when it differs from the planned one
+  script?: string;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface TaskRun {
+  result: any;
+  script?: string;
+}
+
+export interface TaskGraphHooks {
+  onStart?: (task: PlannedTask, params: any) => void;
+  onFinish?: (task: PlannedTask, outcome: TaskOutcome) => void;
+  // errors that end the whole run instead of failing one task (e.g. an exhausted budget)
+  isFatal?: (error: any) => boolean;
+}
+
+export const defaultMaxParallelTasks = Number(process.env.AGENT_MAX_PARALLEL_TASKS) || 4;
+
+export class TaskGraphExecutor {
+  constructor(private maxParallel: number = defaultMaxParallelTasks) {}
+
+  // Outcomes in plan order. A fatal error is rethrown once the tasks already
+  // running have settled. Tasks with a result in `completed` (from an earlier,
+  // interrupted run) count as succeeded and are not run again.
+  async run(plan: TaskPlan, runTask: (task: PlannedTask, params: any) => Promise<TaskRun>, hooks: TaskGraphHooks = {}, completed: Map<string, any> = new Map()): Promise<TaskOutcome[]> {
+    validatePlan(plan);
+    const outcomes = new Map<string, TaskOutcome>(plan.tasks.map(task => [
+      task.id,
+      completed.has(task.id) ? { id: task.id, status: 'succeeded', result: completed.get(task.id) } : { id: task.id, status: 'pending' },
+    ]));
+    const results = new Map<string, any>([...completed].filter(([id]) => outcomes.has(id)));
+    const running = new Map<string, Promise<void>>();
+    let fatal: any = null;
+
+    const finish = (task: PlannedTask, outcome: TaskOutcome) => {
+      outcomes.set(task.id, outcome);
+      hooks.onFinish?.(task, outcome);
+    };
+
+    const start = (task: PlannedTask) => {
+      const params = resolveInputs(task, results);
+      const startedAt = Date.now();
+      outcomes.set(task.id, { id: task.id, status: 'running' });
+      hooks.onStart?.(task, params);
+      const execution = runTask(task, params)
+        .then(run => {
+          results.set(task.id, run.result);
+          finish(task, { id: task.id, status: 'succeeded', result: run.result, ...(run.script && run.script !== task.script ? { script: run.script } : {}), durationMs: Date.now() - startedAt });
+        })
+        .catch(error => {
+          if (hooks.isFatal?.(error)) fatal = fatal || error;
+          finish(task, { id: task.id, status: 'failed', error: error?.message || String(error), durationMs: Date.now() - startedAt });
+        })
+        .finally(() => running.delete(task.id));
+      running.set(task.id, execution);
+    };
+
+    while (true) {
+      // settle the tasks that can no longer run, then start the ready ones
+      for (const task of plan.tasks) {
+        if (outcomes.get(task.id).status !== 'pending') continue;
+        const blocker = task.dependsOn.find(dependency => ['failed', 'skipped'].includes(outcomes.get(dependency).status));
+        if (blocker) {
+          finish(task, { id: task.id, status: 'skipped', error: `dependency '${blocker}' ${outcomes.get(blocker).status}` });
+        }
+      }
+      if (!fatal) {
+        for (const task of plan.tasks) {
+          if (running.size >= this.maxParallel) break;
+          if (outcomes.get(task.id).status === 'pending' && task.dependsOn.every(dependency => outcomes.get(dependency).status === 'succeeded')) {
+            start(task);
+          }
+        }
+      }
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    if (fatal) throw fatal;
+    const stuck = plan.tasks.filter(task => outcomes.get(task.id).status === 'pending');
+    if (stuck.length > 0) {
+      // only reachable if validatePlan let a cycle through
+      log('error', `Tasks never became ready: ${stuck.map(task => task.id).join(', ')}`, 'TaskGraphExecutor');
+    }
+    return plan.tasks.map(task => outcomes.get(task.id));
+  }
+}
@@ -0,0 +1,161 @@
+// planner/journal.ts
+// Every executed plan is journaled to `<dir>/<runId>.json` and rewritten as its
+// tasks start and finish, so a run cut short by a crash or a failed task can
+// continue from what already completed instead of repeating its side effects.
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../logger';
+import { TaskOutcome, TaskStatus } from './executor';
+import { TaskPlan } from './plan';
+
+// 'interrupted' is never written: it is how a run still marked 'running' by a
+// process that no longer exists is reported.
+export type RunStatus = 'running' | 'completed' | 'failed' | 'interrupted';
+
+export interface RunTaskState {
+  status: TaskStatus;
+  result?: any;
+  error?: string;
+  // the script that replaced the planned one after a fix
+  script?: string;
+  attempts: number;
+  durationMs?: number;
+  updatedAt: string;
+}
+
+export interface RunRecord {
+  id: string;
+  input: string;
+  resultVar?: string;
+  status: RunStatus;
+  error?: string;
+  pid: number;
+  createdAt: string;
+  updatedAt: string;
+  plan: TaskPlan;
+  // the tools listed to the model when it made the plan; the task scripts may call these
+  tools?: string[];
+  // the model the run was requested with, also used to fix its failing scripts
+  model?: string;
+  tasks: { [taskId: string]: RunTaskState };
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return error.code === 'EPERM';
+  }
+}
+
+// Results are kept as JSON; anything that does not survive the round trip is
+// stored as its string form.
+function storable(value: any): any {
+  try {
+    const json = JSON.stringify(value);
+    return json === undefined ? null : JSON.parse(json);
+  } catch (error) {
+    return String(value);
+  }
+}
+
+export class RunJournal {
+  constructor(private dir: string) {}
+
+  private file(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private save(run: RunRecord): void {
+    run.updatedAt = new Date().toISOString();
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      // write-then-rename, so a crash mid-write leaves the previous state
+      const temp = `${this.file(run.id)}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(run, null, 2));
+      fs.renameSync(temp, this.file(run.id));
+    } catch (error) {
+      log('error', `Error saving run ${run.id}: ${error.message}`, 'RunJournal');
+    }
+  }
+
+  start(input: string, plan: TaskPlan, details: Pick<RunRecord, 'resultVar' | 'tools' | 'model'> = {}): RunRecord {
+    const now = new Date().toISOString();
+    const { resultVar, tools, model } = details;
+    const run: RunRecord = {
+      id: uuidv4().slice(0, 8),
+      input,
+      ...(resultVar ? { resultVar } : {}),
+      status: 'running',
+      pid: process.pid,
+      createdAt: now,
+      updatedAt: now,
+      plan,
+      ...(tools ? { tools } : {}),
+      ...(model ? { model } : {}),
+      tasks: Object.fromEntries(plan.tasks.map(task => [task.id, { status: 'pending', attempts: 0, updatedAt: now }])),
+    };
+    this.save(run);
+    return run;
+  }
+
+  // Claims the run for this process before it continues.
+  reopen(run: RunRecord): void {
+    run.status = 'running';
+    run.pid = process.pid;
+    delete run.error;
+    this.save(run);
+  }
+
+  taskStarted(run: RunRecord, taskId: string): void {
+    const state = run.tasks[taskId];
+    run.tasks[taskId] = { ...state, status: 'running', attempts: state.attempts + 1, updatedAt: new Date().toISOString() };
+    delete run.tasks[taskId].error;
+    this.save(run);
+  }
+
+  taskFinished(run: RunRecord, outcome: TaskOutcome): void {
+    const state = run.tasks[outcome.id];
+    run.tasks[outcome.id] = {
+      status: outcome.status,
+      ...(outcome.status === 'succeeded' ? { result: storable(outcome.result) } : {}),
+      ...(outcome.error ? { error: outcome.error } : {}),
+      ...(outcome.script || state.script ? { script: outcome.script || state.script } : {}),
+      attempts: state.attempts,
+      ...(outcome.durationMs !== undefined ? { durationMs: outcome.durationMs } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+    this.save(run);
+  }
+
+  finish(run: RunRecord, error?: string): void {
+    run.status = !error && Object.values(run.tasks).every(task => task.status === 'succeeded') ? 'completed' : 'failed';
+    if (error) run.error = error;
+    this.save(run);
+  }
+
+  get(id: string): RunRecord | null {
+    try {
+      const run: RunRecord = JSON.parse(fs.readFileSync(this.file(id), 'utf8'));
+      if (run.status === 'running' && run.pid !== process.pid && !isAlive(run.pid)) {
+        run.status = 'interrupted';
+      }
+      return run;
+    } catch (error) {
+      if (error.code !== 'ENOENT') log('error', `Error reading run ${id}: ${error.message}`, 'RunJournal');
+      return null;
+    }
+  }
+
+  // Newest first.
+  list(): RunRecord[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.get(path.basename(file, '.json')))
+      .filter(Boolean)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
@@ -0,0 +1,187 @@
+// planner/plan.ts
+// The task graph a request is decomposed into. Each task declares the outputs
+// of other tasks it consumes as named inputs; those references are its
+// dependencies, and the resolved values reach its script as `params`.
+
+// `path` is a dotted path into the producing task's result ('' or absent for
+// the whole result); `schema` is the JSON schema the value must satisfy.
+export interface TaskInputRef {
+  from: string;
+  path?: string;
+  schema?: any;
+}
+
+export interface PlannedTask {
+  id: string;
+  description: string;
+  script: string;
+  chat: string;
+  // every task whose output this one needs, plus any declared ordering-only dependencies
+  dependsOn: string[];
+  inputs: { [name: string]: TaskInputRef };
+  // JSON schema of the task's result
+  output?: any;
+}
+
+export interface TaskPlan {
+  tasks: PlannedTask[];
+}
+
+export class PlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanError';
+  }
+}
+
+// 'fetchPrices.items.0' -> { from: 'fetchPrices', path: 'items.0' }
+function parseInputRef(name: string, taskId: string, value: any): TaskInputRef {
+  if (typeof value === 'string') {
+    const [from, ...path] = value.split('.');
+    return { from, ...(path.length > 0 ? { path: path.join('.') } : {}) };
+  }
+  if (value && typeof value === 'object' && typeof value.from === 'string') {
+    return { from: value.from, ...(value.path ? { path: String(value.path) } : {}), ...(value.schema ? { schema: value.schema } : {}) };
+  }
+  throw new PlanError(`Input '${name}' of task '${taskId}' must be "<taskId>.<path>" or { "from": "<taskId>", "path": "...", "schema": {...} }`);
+}
+
+function parseTask(raw: any, index: number): PlannedTask & { declaresGraph: boolean } {
+  if (!raw || typeof raw !== 'object') {
+    throw new PlanError(`Task ${index + 1} is not an object`);
+  }
+  // older plans name tasks as "<id>:<description>"
+  const [legacyId, ...legacyDescription] = typeof raw.task === 'string' ? raw.task.split(':') : [];
+  const id = String(raw.id || legacyId || '').trim();
+  if (!id) {
+    throw new PlanError(`Task ${index + 1} has no id`);
+  }
+  if (typeof raw.script !== 'string' || !raw.script.trim()) {
+    throw new PlanError(`Task '${id}' has no script`);
+  }
+
+  const inputs: { [name: string]: TaskInputRef } = {};
+  for (const [name, value] of Object.entries(raw.inputs || {})) {
+    inputs[name] = parseInputRef(name, id, value);
+  }
+  const dependsOn = [...new Set([...(Array.isArray(raw.dependsOn) ? raw.dependsOn.map(String) : []), ...Object.values(inputs).map(input => input.from)])];
+
+  return {
+    id,
+    description: raw.description || legacyDescription.join(':').trim() || id,
+    script: raw.script,
+    chat: raw.chat || '',
+    dependsOn,
+    inputs,
+    ...(raw.output ? { output: raw.output } : {}),
+    declaresGraph: 'dependsOn' in raw || 'inputs' in raw,
+  };
+}
+
+// Accepts the decomposition as returned by the model: an array of tasks, an
+// array wrapped in another array, or `{ "tasks": [...] }` (possibly wrapped too). A plan in which no
+// task declares dependencies or inputs predates the graph format; its tasks
+// run one after another, as they always did.
+export function parsePlan(raw: any): TaskPlan {
+  let entries = raw;
+  if (Array.isArray(entries) && entries.length === 1 && (Array.isArray(entries[0]) || Array.isArray(entries[0]?.tasks))) entries = entries[0];
+  if (entries && !Array.isArray(entries) && Array.isArray(entries.tasks)) entries = entries.tasks;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new PlanError('The plan must be a non-empty array of tasks');
+  }
+
+  const parsed = entries.map(parseTask);
+  const sequential = !parsed.some(task => task.declaresGraph);
+  const tasks = parsed.map(({ declaresGraph, ...task }, index) =>
+    sequential && index > 0 ? { ...task, dependsOn: [parsed[index - 1].id] } : task
+  );
+
+  const plan = { tasks };
+  validatePlan(plan);
+  return plan;
+}
+
+// Rejects duplicate ids, references to unknown tasks and cycles.
+export function validatePlan(plan: TaskPlan): void {
+  const ids = new Set<string>();
+  for (const task of plan.tasks) {
+    if (ids.has(task.id)) throw new PlanError(`Duplicate task id '${task.id}'`);
+    ids.add(task.id);
+  }
+  for (const task of plan.tasks) {
+    for (const dependency of task.dependsOn) {
+      if (dependency === task.id) throw new PlanError(`Task '${task.id}' depends on itself`);
+      if (!ids.has(dependency)) throw new PlanError(`Task '${task.id}' depends on unknown task '${dependency}'`);
+    }
+  }
+  topologicalOrder(plan);
+}
+
+// Dependencies before dependents; ties keep plan order.
+export function topologicalOrder(plan: TaskPlan): PlannedTask[] {
+  const byId = new Map(plan.tasks.map(task => [task.id, task]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const order: PlannedTask[] = [];
+
+  const visit = (task: PlannedTask, trail: string[]) => {
+    if (state.get(task.id) === 'done') return;
+    if (state.get(task.id) === 'visiting') {
+      throw new PlanError(`Dependency cycle: ${[...trail.slice(trail.indexOf(task.id)), task.id].join(' -> ')}`);
+    }
+    state.set(task.id, 'visiting');
+    task.dependsOn.forEach(dependency => visit(byId.get(dependency), [...trail, task.id]));
+    state.set(task.id, 'done');
+    order.push(task);
+  };
+  plan.tasks.forEach(task => visit(task, []));
+  return order;
+}
+
+// Task ids that depend on any of `ids`, directly or not, plus `ids` themselves.
+export function withDependents(plan: TaskPlan, ids: string[]): Set<string> {
+  const affected = new Set(ids);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const task of plan.tasks) {
+      if (!affected.has(task.id) && task.dependsOn.some(dependency => affected.has(dependency))) {
+        affected.add(task.id);
+        changed = true;
+      }
+    }
+  }
+  return affected;
+}
+
+function valueAt(value: any, path?: string): any {
+  if (!path) return value;
+  return path.split('.').reduce((current, key) => (current === undefined || current === null ? undefined : current[key]), value);
+}
+
+// The task's params, built from the results of the tasks it depends on.
+export function resolveInputs(task: PlannedTask, results: Map<string, any>): { [name: string]: any } {
+  const params: { [name: string]: any } = {};
+  for (const [name, input] of Object.entries(task.inputs)) {
+    params[name] = valueAt(results.get(input.from), input.path);
+  }
+  return params;
+}
+
+// Tool schema for the task's script, so its inputs and result are validated
+// like any other tool call.
+export function taskToolSchema(task: PlannedTask): any {
+  const names = Object.keys(task.inputs);
+  return {
+    name: task.id,
+    description: task.description,
+    methodSignature: `${task.id}(params: ${names.length > 0 ? `{ ${names.join(', ')} }` : 'any'}, api: any): Promise<any>`,
+    ...(names.length > 0 ? {
+      input_schema: {
+        type: 'object',
+        properties: Object.fromEntries(names.map(name => [name, task.inputs[name].schema || {}])),
+        required: names,
+      },
+    } : {}),
+    ...(task.output ? { output_schema: task.output } : {}),
+  };
+}
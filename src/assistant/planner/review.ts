@@ -0,0 +1,109 @@
+// planner/review.ts
+// Plan mode: the decomposed plan is shown before anything is registered or run.
+// The user approves it (possibly after editing scripts or dropping tasks),
+// sends it back to the planner with feedback, or cancels the request.
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { displayCodeForEdit, reviewPlan } from '../confirmation';
+import { log } from '../logger';
+import { PlannedTask, TaskPlan, withDependents } from './plan';
+
+export type PlanReview =
+  | { action: 'approve'; plan: TaskPlan }
+  | { action: 'replan'; feedback: string }
+  | { action: 'cancel'; reason: string };
+
+// `toolsUsed` lists the registry tools a script calls.
+export type PlanReviewer = (plan: TaskPlan, toolsUsed: (script: string) => string[]) => Promise<PlanReview>;
+
+// Dropping a task drops everything that depends on it, directly or not.
+export function dropTasks(plan: TaskPlan, ids: Iterable<string>): { plan: TaskPlan; dropped: Set<string> } {
+  const dropped = withDependents(plan, [...ids]);
+  return { plan: { tasks: plan.tasks.filter(task => !dropped.has(task.id)) }, dropped };
+}
+
+export function describePlannedTask(task: PlannedTask, toolsUsed: string[]): string {
+  const inputs = Object.entries(task.inputs).map(([name, input]) => `${name} <- ${input.from}${input.path ? `.${input.path}` : ''}`);
+  return [
+    `${task.id}: ${task.description}`,
+    '',
+    task.chat || '(no explanation)',
+    '',
+    `Depends on: ${task.dependsOn.join(', ') || 'nothing'}`,
+    `Inputs: ${inputs.join(', ') || 'none'}`,
+    `Tools used: ${toolsUsed.join(', ') || 'none'}`,
+    '',
+    task.script,
+  ].join('\n');
+}
+
+// In $EDITOR when one is set, otherwise in the code edit screen. Returns the
+// script unchanged if the edit was cancelled.
+async function editScript(task: PlannedTask): Promise<string> {
+  const file = path.join(os.tmpdir(), `plan-${process.pid}-${task.id}.js`);
+  fs.writeFileSync(file, task.script);
+  try {
+    const editor = process.env.VISUAL || process.env.EDITOR;
+    if (editor) {
+      const result = spawnSync(editor, [file], { stdio: 'inherit', shell: true });
+      if (result.status !== 0) {
+        log('warn', `Editor exited with status ${result.status}; keeping the script of ${task.id}`, 'PlanReview');
+        return task.script;
+      }
+    } else if (!(await displayCodeForEdit(null, `Script of task ${task.id}`, file))) {
+      return task.script;
+    }
+    return fs.readFileSync(file, 'utf8');
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+export const reviewPlanInteractively: PlanReviewer = async (plan, toolsUsed) => {
+  if (!process.stdin.isTTY) {
+    return { action: 'cancel', reason: 'Plan mode needs an interactive terminal' };
+  }
+
+  const tasks = [...plan.tasks];
+  const droppedByUser = new Set<string>();
+  let selected = 0;
+  while (true) {
+    const { dropped } = dropTasks({ tasks }, droppedByUser);
+    const items = tasks.map(task => {
+      const state = droppedByUser.has(task.id) ? ' {red-fg}(dropped){/red-fg}' : dropped.has(task.id) ? ' {yellow-fg}(needs a dropped task){/yellow-fg}' : '';
+      return { label: `${task.id}${state}`, details: describePlannedTask(task, toolsUsed(task.script)) };
+    });
+
+    const decision = await reviewPlan(`Plan: ${tasks.length - dropped.size}/${tasks.length} tasks`, items, selected);
+    switch (decision.action) {
+      case 'approve': {
+        const approved = dropTasks({ tasks }, droppedByUser).plan;
+        return approved.tasks.length > 0
+          ? { action: 'approve', plan: approved }
+          : { action: 'cancel', reason: 'Every task of the plan was dropped' };
+      }
+      case 'cancel':
+        return { action: 'cancel', reason: 'Plan cancelled' };
+      case 'replan':
+        return decision;
+      case 'drop': {
+        selected = decision.index;
+        const id = tasks[decision.index].id;
+        if (droppedByUser.has(id)) {
+          droppedByUser.delete(id);
+        } else {
+          droppedByUser.add(id);
+        }
+        break;
+      }
+      case 'edit': {
+        selected = decision.index;
+        const task = tasks[decision.index];
+        tasks[decision.index] = { ...task, script: await editScript(task) };
+        break;
+      }
+    }
+  }
+};
@@ -0,0 +1,122 @@
+// plugins/adapters.ts
+// The legacy plugin modules under _tools/ export their tools in three shapes:
+//
+//   tool maps    { enabled, state?, tools: { name: { schema, action(params, state, api) } } }
+//                (action(params, api) in modules without state)
+//                (schema in the function-calling form { type: 'function', function: {...} })
+//                or { tools: { name: { schema: { input_schema }, execute(params, api) } } }
+//   toolbelts    { enabled, state, schemas: [...], tools: { name(params, state) } }
+//   bare tools   { name, description, schema: { input_schema }, execute }
+//
+// Each adapter turns one shape into PluginTools with registry-style schemas.
+
+export interface PluginTool {
+  name: string;
+  schema: any;
+  enabled: boolean;
+  handler: (params: any, api: any) => Promise<any>;
+}
+
+export interface PluginAdapter {
+  shape: string;
+  matches(candidate: any): boolean;
+  adapt(candidate: any): PluginTool[];
+}
+
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Accepts `parameters` written as a bare property map, as some plugins do.
+function toInputSchema(parameters: any): any {
+  if (!isObject(parameters)) return { type: 'object', properties: {} };
+  if (parameters.type || parameters.properties) return { type: 'object', properties: {}, ...parameters };
+  return { type: 'object', properties: parameters };
+}
+
+// Registry schema for either schema form; `fallbackName` names tools whose
+// schema does not.
+export function normalizeSchema(raw: any, fallbackName: string): any {
+  const fn = raw?.type === 'function' && isObject(raw.function) ? raw.function : null;
+  const name = fn?.name || raw?.name || fallbackName;
+  const input = toInputSchema(fn ? fn.parameters : raw?.input_schema);
+  const required = new Set<string>(input.required || []);
+  const params = Object.keys(input.properties || {}).map(param => required.has(param) ? param : `${param}?`);
+  return {
+    name,
+    description: fn?.description || raw?.description || name,
+    methodSignature: `${name}(params: { ${params.join(', ')} }): Promise<any>`,
+    input_schema: input,
+    ...(!fn && raw?.output_schema ? { output_schema: raw.output_schema } : {}),
+  };
+}
+
+// A tool without its own schema may be described in the module's `schema` or
+// `schemas`, under the same name.
+function moduleSchema(candidate: any, name: string): any {
+  const schemas = [candidate.schema, ...(Array.isArray(candidate.schemas) ? candidate.schemas : [])].filter(isObject);
+  return schemas.find(schema => (schema.function?.name || schema.name) === name);
+}
+
+// Bare tools written against the assistant take it first: execute(assistant, params).
+function takesApiFirst(fn: Function): boolean {
+  const match = fn.toString().match(/^(?:async\s+)?(?:function\s*[\w$]*\s*)?\(?\s*([\w$]+)/);
+  return !!match && ['assistant', 'api', 'registry'].includes(match[1]);
+}
+
+export const toolMapAdapter: PluginAdapter = {
+  shape: 'tool map',
+  matches: candidate => isObject(candidate?.tools)
+    && Object.values(candidate.tools).some((entry: any) => isObject(entry) && (typeof entry.action === 'function' || typeof entry.execute === 'function')),
+  adapt: candidate => {
+    // modules without state of their own wrote their actions as action(params, api)
+    const state = isObject(candidate.state) ? candidate.state : null;
+    return Object.entries(candidate.tools)
+      .filter(([, entry]: [string, any]) => isObject(entry) && (typeof entry.action === 'function' || typeof entry.execute === 'function'))
+      .map(([key, entry]: [string, any]) => {
+        const schema = normalizeSchema(entry.schema || moduleSchema(candidate, key), key);
+        return {
+          name: schema.name,
+          schema,
+          enabled: candidate.enabled !== false && entry.enabled !== false,
+          handler: typeof entry.action === 'function'
+            ? async (params: any, api: any) => entry.action(params, state || api, api)
+            : async (params: any, api: any) => entry.execute(params, api),
+        };
+      });
+  },
+};
+
+export const toolbeltAdapter: PluginAdapter = {
+  shape: 'toolbelt',
+  matches: candidate => isObject(candidate?.tools)
+    && Object.values(candidate.tools).length > 0
+    && Object.values(candidate.tools).every(entry => typeof entry === 'function'),
+  adapt: candidate => {
+    const state = isObject(candidate.state) ? candidate.state : {};
+    return Object.entries(candidate.tools).map(([key, fn]: [string, Function]) => {
+      const schema = normalizeSchema(moduleSchema(candidate, key), key);
+      return {
+        name: schema.name,
+        schema,
+        enabled: candidate.enabled !== false,
+        handler: async (params: any, api: any) => fn(params, state, api),
+      };
+    });
+  },
+};
+
+export const bareToolAdapter: PluginAdapter = {
+  shape: 'bare tool',
+  matches: candidate => isObject(candidate) && typeof candidate.name === 'string' && typeof candidate.execute === 'function',
+  adapt: candidate => {
+    const schema = normalizeSchema({ description: candidate.description, ...candidate.schema, name: candidate.name }, candidate.name);
+    const apiFirst = takesApiFirst(candidate.execute);
+    return [{
+      name: schema.name,
+      schema,
+      enabled: candidate.enabled !== false,
+      handler: async (params: any, api: any) => apiFirst ? candidate.execute(api, params) : candidate.execute(params, api),
+    }];
+  },
+};
+
+export const pluginAdapters: PluginAdapter[] = [toolMapAdapter, toolbeltAdapter, bareToolAdapter];
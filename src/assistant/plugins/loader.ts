@@ -0,0 +1,142 @@
+// plugins/loader.ts
+// Loads the plugin modules in the plugin directories (by default _tools/ and
+// _tools/tools/) and registers their tools as runtime tools tagged 'plugin'
+// and 'plugin:<module>'. TypeScript modules are compiled on load; a module or
+// tool marked `enabled: false` is reported but not registered.
+import fs from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { createRequire } from 'module';
+import { log } from '../logger';
+import { confirmExecution } from '../confirmation';
+import ToolRegistry from '../toolRegistry';
+import { PluginAdapter, pluginAdapters, PluginTool } from './adapters';
+
+export type PluginStatus = 'loaded' | 'disabled' | 'failed' | 'empty';
+
+export interface PluginReport {
+  file: string;
+  status: PluginStatus;
+  shapes: string[];
+  tools: string[];
+  // disabled tools, and tools whose name a registry tool already has
+  skipped: string[];
+  error?: string;
+}
+
+const defaultPluginDirs = [path.join(__dirname, '../../../_tools'), path.join(__dirname, '../../../_tools/tools')];
+const moduleParams = ['exports', 'require', 'module', '__filename', '__dirname'];
+
+export class PluginLoader {
+  private modules = new Map<string, any>();
+  // tool name -> the plugin module that registered it; the first one keeps it
+  private owners = new Map<string, string>();
+  // `api.store`, shared by all plugin tools
+  private store: { [key: string]: any } = {};
+  public reports: PluginReport[] = [];
+
+  constructor(private toolRegistry: ToolRegistry, private dirs: string[] = defaultPluginDirs, private adapters: PluginAdapter[] = pluginAdapters) {}
+
+  async loadAll(): Promise<PluginReport[]> {
+    this.reports = [];
+    for (const dir of this.dirs.filter(dir => fs.existsSync(dir))) {
+      for (const file of fs.readdirSync(dir).filter(name => /\.(ts|js)$/.test(name) && !name.endsWith('.d.ts')).sort()) {
+        this.reports.push(this.load(path.join(dir, file)));
+      }
+    }
+    const loaded = this.reports.filter(report => report.status === 'loaded');
+    log('info', `Loaded ${loaded.reduce((count, report) => count + report.tools.length, 0)} plugin tools from ${loaded.length} modules`, 'PluginLoader');
+    return this.reports;
+  }
+
+  load(file: string): PluginReport {
+    const report: PluginReport = { file, status: 'empty', shapes: [], tools: [], skipped: [] };
+    let exported: any;
+    try {
+      exported = this.evaluate(file);
+    } catch (error) {
+      log('warn', `Cannot load plugin ${path.basename(file)}: ${error.message}`, 'PluginLoader');
+      return { ...report, status: 'failed', error: error.message };
+    }
+
+    const tools: PluginTool[] = [];
+    for (const candidate of this.candidates(exported)) {
+      const adapter = this.adapters.find(adapter => adapter.matches(candidate));
+      if (!adapter) continue;
+      report.shapes.push(adapter.shape);
+      tools.push(...adapter.adapt(candidate));
+    }
+    if (tools.length === 0) return report;
+
+    const module = path.basename(file).replace(/\.(ts|js)$/, '');
+    for (const tool of tools) {
+      const owner = this.owners.get(tool.name);
+      const handler = (params: any, api: any) => tool.handler(params, this.pluginApi(api));
+      if (tool.enabled && (!owner || owner === file) && this.toolRegistry.registerRuntimeTool(tool.name, tool.schema, ['plugin', `plugin:${module}`], handler)) {
+        this.owners.set(tool.name, file);
+        report.tools.push(tool.name);
+      } else {
+        report.skipped.push(tool.name);
+      }
+    }
+    report.status = report.tools.length > 0 ? 'loaded' : 'disabled';
+    return report;
+  }
+
+  // The registry, plus what the plugins expect of the api they were written
+  // against: store, chat and confirm. Without a terminal nothing is confirmed.
+  private pluginApi(api: any): any {
+    const extras: { [name: string]: any } = {
+      store: this.store,
+      chat: (messages: any[], options?: any, model?: string) => this.toolRegistry.conversation.chat(messages, options, model),
+      confirm: async (message: string) => process.stdin.isTTY ? confirmExecution(api, message) : false,
+    };
+    return new Proxy(api || this.toolRegistry, {
+      get: (target, property) => property in target ? target[property] : extras[property as string],
+    });
+  }
+
+  // The exports object, its default export, and each named export.
+  private candidates(exported: any): any[] {
+    if (!exported || typeof exported !== 'object') return [];
+    return [...new Set([exported, exported.default, ...Object.values(exported)])].filter(candidate => candidate && typeof candidate === 'object');
+  }
+
+  private evaluate(file: string): any {
+    if (this.modules.has(file)) return this.modules.get(file);
+    let source = fs.readFileSync(file, 'utf8');
+    if (file.endsWith('.ts')) {
+      const ts = require('typescript');
+      source = ts.transpileModule(source, {
+        fileName: file,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+      }).outputText;
+    }
+    const module: any = { exports: {} };
+    // cached before running, so import cycles see the partial exports like Node's require does
+    this.modules.set(file, module.exports);
+    try {
+      vm.compileFunction(source, moduleParams, { filename: file })(module.exports, this.requireFrom(file), module, file, path.dirname(file));
+    } catch (error) {
+      this.modules.delete(file);
+      throw error;
+    }
+    this.modules.set(file, module.exports);
+    return module.exports;
+  }
+
+  // Relative imports of TypeScript files are compiled here too, unless a
+  // TypeScript loader (ts-node) is already registered with Node.
+  private requireFrom(file: string): NodeRequire {
+    const nodeRequire = createRequire(file);
+    const pluginRequire: any = (request: string) => {
+      if (request.startsWith('.') && !require.extensions['.ts']) {
+        const base = path.resolve(path.dirname(file), request);
+        const target = [base, `${base}.ts`, path.join(base, 'index.ts')].find(candidate => candidate.endsWith('.ts') && fs.existsSync(candidate));
+        if (target) return this.evaluate(target);
+      }
+      return nodeRequire(request);
+    };
+    return Object.assign(pluginRequire, nodeRequire);
+  }
+}
@@ -148,23 +148,44 @@ Provide a fixed version of the script and an explanation of the changes made.
     .build()
   ),
 
-  taskDecomposition: makePromptFunction(conversation, (toolsRepresentation: string, memoriesRepresentation: string) => new PromptBuilder(`
-Transform the given task into a sequence of subtasks, each with a JavaScript script that uses the provided tools to achieve the subtask objective.
+  // Used directly as the system prompt of the decomposition call.
+  taskDecomposition: (input: string, toolsRepresentation: string, memoriesRepresentation: string, recentActivity: string) => new PromptBuilder(`
+Transform the given task into a graph of subtasks, each with a JavaScript script that uses the provided tools to achieve the subtask objective.
+
+Task:
+{input}
 
 Available Tools:
-${toolsRepresentation}
+{tools}
 
 Similar Past Experiences:
-${memoriesRepresentation}
+{memories}
+
+Recent Activity:
+{activity}
+
+Subtasks that do not depend on each other run in parallel. A subtask receives the results of the subtasks it needs as named inputs:
+- "inputs" maps a param name to "<taskId>" (the whole result) or "<taskId>.<path>" (a field of it), or to { "from": "<taskId>", "path": "<path>", "schema": <JSON schema> } to declare the type of the value
+- the script reads inputs from params: \`async execute(params, api) { const prices = params.prices; ... }\`
+- the script calls an available tool with a single params object: \`await api.tools.bash({ command: 'ls' })\`, or \`await api.callTool('bash', { command: 'ls' })\`; tools are not in scope otherwise
+- "dependsOn" lists subtasks that must finish first without passing data; subtasks referenced by inputs need not be repeated there
+- "output" is an optional JSON schema of the subtask's result
+- every script ends with a return statement for the subtask deliverable
 `)
-    .build(),
-    `{
-    "task": "<taskName>:<description>",
+    .addInput('input', input)
+    .addInput('tools', toolsRepresentation)
+    .addInput('memories', memoriesRepresentation)
+    .addInput('activity', recentActivity)
+    .setOutputFormat(`[{
+    "id": "<taskId>",
+    "description": "<description>",
+    "dependsOn": ["<taskId>"],
+    "inputs": { "<paramName>": "<taskId>.<path>" },
+    "output": <optional JSON schema>,
     "script": "<JavaScript script>",
-    "chat": "<subtask explanation>",
-    "resultVar": "<optional result variable>"
-}[]`
-  ),
+    "chat": "<subtask explanation>"
+}]`)
+    .build(),
 
   generateTestHarness: makePromptFunction(conversation, (source: string, schema: any) =>
     new PromptBuilder(`
@@ -897,16 +918,16 @@ CRITICAL: Verify the JSON output for accuracy and completeness before submission
       }`
   ),
 
-  summarizeConversation: makePromptFunction(conversation, (conversationBuffer: Array<{ role: string, content: string }>) => new PromptBuilder(`
+  // Used directly as the system prompt of the summary call.
+  summarizeConversation: (conversationBuffer: Array<{ role: string, content: string }>) => new PromptBuilder(`
     Analyze the following conversation and provide a concise summary of the recent activity and context. Focus on the user's goals, key decisions, and any important information discovered during the conversation.
 
     Conversation:
-    ${JSON.stringify(conversationBuffer, null, 2)}
+    {conversationBuffer}
 
     Summary:
   `)
-    .addInput('conversationBuffer', JSON.stringify(conversationBuffer))
-    .build()
-  ),
+    .addInput('conversationBuffer', JSON.stringify(conversationBuffer, null, 2))
+    .build(),
 
 });
\ No newline at end of file
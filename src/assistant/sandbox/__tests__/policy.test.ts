@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { defaultSandboxPolicy, excludeProtected, mergePolicy, narrowPolicy, shouldSandbox } from '../policy';
+
+describe('shouldSandbox', () => {
+  it.each([
+    [['ai-generated']],
+    [['auto-generated']],
+    [[]],
+    [['dev']],
+    [undefined],
+  ])('isolates tools tagged %p', (tags) => {
+    expect(shouldSandbox({ tags })).toBe(true);
+  });
+
+  it.each([[['builtin']], [['dev', 'trusted']]])('runs tools tagged %p in the host', (tags) => {
+    expect(shouldSandbox({ tags })).toBe(false);
+  });
+
+  it('does not let a schema opt a tool out', () => {
+    expect(shouldSandbox({ tags: ['auto-generated'], schema: { sandbox: false } })).toBe(true);
+  });
+});
+
+describe('mergePolicy', () => {
+  it('merges fs and limits field by field', () => {
+    const policy = mergePolicy(defaultSandboxPolicy, { fs: { write: [] }, limits: { timeoutMs: 5 } });
+    expect(policy.fs).toEqual({ read: defaultSandboxPolicy.fs.read, write: [] });
+    expect(policy.limits).toEqual({ ...defaultSandboxPolicy.limits, timeoutMs: 5 });
+    expect(policy.net).toEqual([]);
+  });
+});
+
+describe('narrowPolicy', () => {
+  const wide = mergePolicy(defaultSandboxPolicy, {
+    fs: { read: ['/'], write: ['/data'] },
+    net: ['*'],
+    childProcess: true,
+    env: ['PATH', 'API_KEY'],
+    tools: ['bash'],
+    limits: { timeoutMs: 60000 },
+  });
+  const narrow = mergePolicy(defaultSandboxPolicy, {
+    fs: { read: ['/tmp'], write: ['/data/out', '/srv'] },
+    net: ['*.example.com'],
+    env: ['PATH'],
+    limits: { timeoutMs: 1000 },
+  });
+
+  it('keeps only what both policies grant', () => {
+    const policy = narrowPolicy(wide, narrow);
+    expect(policy.fs).toEqual({ read: ['/tmp'], write: ['/data/out'] });
+    expect(policy.net).toEqual(['*.example.com']);
+    expect(policy.childProcess).toBe(false);
+    expect(policy.env).toEqual(['PATH']);
+    expect(policy.tools).toEqual([]);
+    expect(policy.limits.timeoutMs).toBe(1000);
+  });
+
+  it('does not depend on which side is the caller', () => {
+    const forward = narrowPolicy(wide, narrow);
+    const backward = narrowPolicy(narrow, wide);
+    expect(backward.fs).toEqual(forward.fs);
+    expect(backward.net).toEqual(forward.net);
+    expect(backward.limits).toEqual(forward.limits);
+  });
+});
+
+describe('excludeProtected', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'protected-'));
+    for (const file of ['config.json', 'src/app.ts', 'src/tools/a.js', 'data/b.csv']) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), '');
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('replaces a root holding a protected path by its other entries', () => {
+    const excluded = [path.join(root, 'config.json'), path.join(root, 'src', 'tools')];
+    expect(excludeProtected([root], excluded).sort()).toEqual([path.join(root, 'data'), path.join(root, 'src', 'app.ts')]);
+  });
+
+  it('drops roots inside a protected path and keeps unrelated ones', () => {
+    expect(excludeProtected([path.join(root, 'src', 'tools'), '/srv'], [path.join(root, 'src')])).toEqual(['/srv']);
+  });
+});
+
+describe('defaultSandboxPolicy', () => {
+  it('grants no files on the host', () => {
+    expect(defaultSandboxPolicy.fs).toEqual({ read: [], write: [] });
+  });
+});
@@ -0,0 +1,175 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runInSandbox, SandboxError } from '../sandbox';
+import { currentCallerPolicy, defaultSandboxPolicy, mergePolicy, registerProtectedPath } from '../policy';
+
+jest.setTimeout(60000);
+
+const policy = mergePolicy(defaultSandboxPolicy, { limits: { timeoutMs: 20000 } });
+
+function run(source: string, params: any = {}) {
+  return runInSandbox('probe', source, params, {}, policy);
+}
+
+async function failure(source: string): Promise<SandboxError> {
+  try {
+    await run(source);
+  } catch (error) {
+    return error;
+  }
+  throw new Error('the sandboxed tool was not stopped');
+}
+
+describe('runInSandbox', () => {
+  it('runs the tool and returns its result', async () => {
+    await expect(run('export async function execute(params) { return params.n * 2; }', { n: 21 })).resolves.toBe(42);
+  });
+
+  it('sends the tool\'s console output to stderr, not stdout', async () => {
+    const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    let written: { stdout: string; stderr: string };
+    try {
+      await run(`export async function execute() { console.log('chatty tool'); return 1; }`);
+      written = { stdout: stdout.mock.calls.join(''), stderr: stderr.mock.calls.join('') };
+    } finally {
+      stdout.mockRestore();
+      stderr.mockRestore();
+    }
+    expect(written.stdout).not.toContain('chatty tool');
+    expect(written.stderr).toContain('chatty tool');
+  });
+
+  it('blocks a worker evaluating code with its own core modules', async () => {
+    const error = await failure(`
+      export async function execute() {
+        const { Worker } = require('worker_threads');
+        const code = "require('worker_threads').parentPort.postMessage(require('fs').readFileSync('/etc/hostname', 'utf8'))";
+        return new Promise((resolve, reject) => {
+          const worker = new Worker(code, { eval: true });
+          worker.on('message', resolve);
+          worker.on('error', reject);
+        });
+      }`);
+    expect(error.kind).toBe('capability');
+    expect(error.message).toMatch(/worker_threads\.Worker is not allowed/);
+  });
+
+  it('has the runtime refuse workers, child processes and reads outside the policy', async () => {
+    const granted = await run(`
+      export async function execute() {
+        return ['worker', 'child', ['fs.read', '/etc/hostname'], ['fs.write', '/etc/hostname']]
+          .map(scope => Array.isArray(scope) ? process.permission.has(scope[0], scope[1]) : process.permission.has(scope));
+      }`);
+    expect(granted).toEqual([false, false, false, false]);
+  });
+
+  it.each([
+    ['process.binding', `return Object.keys(process.binding('fs'))`],
+    ['dgram.createSocket', `return typeof require('dgram').createSocket('udp4')`],
+    ['process.kill', `return process.kill(process.ppid, 0)`],
+    ['child_process.execSync', `return require('child_process').execSync('hostname').toString()`],
+  ])('denies %s', async (method, body) => {
+    const error = await failure(`export async function execute() { ${body}; }`);
+    expect(error.kind).toBe('capability');
+    expect(error.message).toContain(`${method} is not allowed`);
+  });
+});
+
+describe('file access from the sandbox', () => {
+  const cwd = process.cwd();
+  let project: string;
+
+  // a project directory as the app runs in it, with a tool repo and dev-mode tools
+  beforeAll(() => {
+    project = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'project-')));
+    fs.writeFileSync(path.join(project, 'config.json'), '{}');
+    fs.writeFileSync(path.join(project, '.env'), 'API_KEY=secret');
+    fs.mkdirSync(path.join(project, 'tool_repo'));
+    fs.writeFileSync(path.join(project, 'tool_repo', '.registry'), '{"tools":[]}');
+    fs.mkdirSync(path.join(project, 'tools'));
+    fs.mkdirSync(path.join(project, 'data'));
+    fs.writeFileSync(path.join(project, 'data', 'prices.csv'), 'book,12');
+    registerProtectedPath(path.join(project, 'tool_repo'));
+    registerProtectedPath(path.join(project, 'tools'));
+    process.chdir(project);
+  });
+
+  afterAll(() => {
+    process.chdir(cwd);
+    fs.rmSync(project, { recursive: true, force: true });
+  });
+
+  const writeFile = `export async function execute(params) { require('fs').writeFileSync(params.file, 'changed'); return 'written'; }`;
+
+  it('gives each run a directory of its own and removes it afterwards', async () => {
+    const dir = await run(`
+      export async function execute() {
+        const fs = require('fs');
+        const os = require('os');
+        fs.writeFileSync(require('path').join(os.tmpdir(), 'scratch.txt'), 'ok');
+        return process.cwd() === os.tmpdir() ? os.tmpdir() : null;
+      }`);
+    expect(dir).toMatch(/tool-run-/);
+    expect(fs.existsSync(dir)).toBe(false);
+  });
+
+  it('denies writes to the project by default', async () => {
+    await expect(run(writeFile, { file: path.join(project, 'notes.txt') })).rejects.toThrow(/write access to .* is not allowed/);
+  });
+
+  it.each([
+    ['config.json'],
+    ['tool_repo/.registry'],
+    ['tools/escape.js'],
+  ])('denies writing %s even where the project is writable', async (file) => {
+    const open = mergePolicy(policy, { fs: { read: [project], write: [project] } });
+    await expect(runInSandbox('probe', writeFile, { file: path.join(project, file) }, {}, open)).rejects.toThrow(/write access to .* is not allowed/);
+    await expect(runInSandbox('probe', writeFile, { file: path.join(project, 'data', 'notes.txt') }, {}, open)).resolves.toBe('written');
+  });
+
+  it('has the runtime refuse the protected paths too', async () => {
+    const open = mergePolicy(policy, { fs: { read: [project], write: [project] } });
+    const files = ['config.json', '.env', 'tool_repo/.registry', 'tools/escape.js', 'data/notes.txt'].map(file => path.join(project, file));
+    const granted = `export async function execute(params) { return params.files.map(file => process.permission.has('fs.write', file)); }`;
+    await expect(runInSandbox('probe', granted, { files }, {}, open)).resolves.toEqual([false, false, false, false, true]);
+  });
+
+  it('denies reading .env and config.json even where the project is readable', async () => {
+    const open = mergePolicy(policy, { fs: { read: [project] } });
+    const readFile = `export async function execute(params) { return require('fs').readFileSync(params.file, 'utf8'); }`;
+    await expect(runInSandbox('probe', readFile, { file: path.join(project, '.env') }, {}, open)).rejects.toThrow(/read access to .* is not allowed/);
+    await expect(runInSandbox('probe', readFile, { file: path.join(project, 'config.json') }, {}, open)).rejects.toThrow(/read access to .* is not allowed/);
+    await expect(runInSandbox('probe', readFile, { file: path.join(project, 'data', 'prices.csv') }, {}, open)).resolves.toBe('book,12');
+  });
+});
+
+describe('api calls from the sandbox', () => {
+  const caller = `export async function execute(params, api) { return api.callTool('inner', {}); }`;
+
+  it('are answered under the calling tool\'s policy', async () => {
+    const api = { callTool: async () => currentCallerPolicy()?.fs.write };
+    await expect(run(caller)).rejects.toThrow(/not allowed/);
+    await expect(runInSandbox('probe', caller, {}, api, policy)).resolves.toEqual([expect.stringContaining('tool-run-')]);
+  });
+
+  it('deliver the tool\'s events under its own namespace', async () => {
+    const host = new EventEmitter();
+    const received: any[] = [];
+    host.on('error', () => received.push('host error'));
+    host.on('tool:probe:event', (...args) => received.push(args));
+    const source = `export async function execute(params, api) { await api.emit('error', 'boom'); return 'done'; }`;
+    await expect(runInSandbox('probe', source, {}, host, policy)).resolves.toBe('done');
+    expect(received).toEqual([['error', 'boom']]);
+  });
+
+  it('cannot widen what a nested sandboxed tool may do', async () => {
+    const open = mergePolicy(policy, { fs: { read: ['/'] }, childProcess: true });
+    const inner = `export async function execute() { return [process.permission.has('child'), process.permission.has('fs.read', '/etc/hostname')]; }`;
+    const api = { callTool: () => runInSandbox('inner', inner, {}, {}, open) };
+    await expect(runInSandbox('inner', inner, {}, {}, open)).resolves.toEqual([true, true]);
+    await expect(runInSandbox('probe', caller, {}, api, policy)).resolves.toEqual([false, false]);
+  });
+});
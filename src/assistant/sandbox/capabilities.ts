@@ -0,0 +1,147 @@
+// sandbox/capabilities.ts
+// Installed inside the sandbox child before any tool code loads. Patches the
+// shared core module objects in place, so every `require('fs')` (or fetch,
+// axios, http...) the tool makes goes through the allow-lists in its policy.
+// The runtime enforces the fs, child process and worker limits as well (see
+// permissionArgs in sandbox.ts); the network checks only exist here, so
+// everything that could reach an unpatched copy of these modules is denied.
+import fs from 'fs';
+import net from 'net';
+import dgram from 'dgram';
+import path from 'path';
+import childProcess from 'child_process';
+import workerThreads from 'worker_threads';
+import { hostAllowed, isWithin, SandboxPolicy } from './policy';
+
+export class SandboxCapabilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxCapabilityError';
+  }
+}
+
+type Access = 'read' | 'write';
+
+// Access needed for each path argument, in order.
+const fsMethods: { [method: string]: Access[] } = {
+  readFile: ['read'], readdir: ['read'], stat: ['read'], lstat: ['read'], access: ['read'],
+  exists: ['read'], readlink: ['read'], realpath: ['read'], opendir: ['read'], watch: ['read'],
+  watchFile: ['read'], createReadStream: ['read'],
+  writeFile: ['write'], appendFile: ['write'], mkdir: ['write'], mkdtemp: ['write'], rm: ['write'],
+  rmdir: ['write'], unlink: ['write'], truncate: ['write'], chmod: ['write'], chown: ['write'],
+  utimes: ['write'], createWriteStream: ['write'],
+  rename: ['write', 'write'], copyFile: ['read', 'write'], cp: ['read', 'write'],
+  link: ['read', 'write'], symlink: ['read', 'write'],
+};
+
+function toPath(value: any): string | null {
+  if (typeof value === 'string') return value;
+  if (Buffer.isBuffer(value)) return value.toString();
+  if (value instanceof URL && value.protocol === 'file:') return value.pathname;
+  return null;
+}
+
+function openAccess(flags: any): Access {
+  return typeof flags === 'string' && /[wa+]/.test(flags) ? 'write' : 'read';
+}
+
+function guardFs(target: any, policy: SandboxPolicy): void {
+  // packages stay loadable whatever the policy, as Node resolves them through
+  // fs: the app's node_modules and those on NODE_PATH (see childEnv)
+  const modulePaths = (process.env.NODE_PATH || '').split(path.delimiter).filter(Boolean);
+  const roots = {
+    read: [...policy.fs.read, ...modulePaths, ...module.paths],
+    write: policy.fs.write,
+  };
+  const check = (access: Access, value: any, method: string) => {
+    const filePath = toPath(value);
+    if (filePath === null) return;
+    if (!isWithin(filePath, roots[access])) {
+      throw new SandboxCapabilityError(`fs.${method}: ${access} access to ${path.resolve(filePath)} is not allowed`);
+    }
+  };
+
+  const wrap = (name: string, accessFor: (args: any[]) => Access[]) => {
+    for (const key of [name, `${name}Sync`]) {
+      const original = target[key];
+      if (typeof original !== 'function') continue;
+      target[key] = function (...args: any[]) {
+        accessFor(args).forEach((access, index) => check(access, args[index], key));
+        return original.apply(this, args);
+      };
+    }
+  };
+
+  for (const [name, accesses] of Object.entries(fsMethods)) {
+    wrap(name, () => accesses);
+  }
+  wrap('open', args => [openAccess(args[1])]);
+}
+
+function guardNet(policy: SandboxPolicy): void {
+  const connect = net.Socket.prototype.connect;
+  net.Socket.prototype.connect = function (...args: any[]) {
+    // net.connect() passes its already-normalized [options, callback] pair
+    const options = Array.isArray(args[0]) ? args[0][0] : args[0];
+    let host: string;
+    if (options && typeof options === 'object') {
+      host = options.path ? `unix:${options.path}` : options.host || options.hostname || 'localhost';
+    } else if (typeof options === 'string' && isNaN(Number(options))) {
+      host = `unix:${options}`;
+    } else {
+      host = typeof args[1] === 'string' ? args[1] : 'localhost';
+    }
+    if (!hostAllowed(host, policy.net)) {
+      throw new SandboxCapabilityError(`net: connection to ${host} is not allowed`);
+    }
+    return connect.apply(this, args);
+  } as any;
+}
+
+function guardChildProcess(): void {
+  for (const key of Object.keys(childProcess)) {
+    if (typeof childProcess[key] === 'function' && key !== 'ChildProcess') {
+      childProcess[key] = () => {
+        throw new SandboxCapabilityError(`child_process.${key} is not allowed`);
+      };
+    }
+  }
+}
+
+function deny(target: any, keys: string[], label: string): void {
+  for (const key of keys) {
+    if (typeof target[key] !== 'function') continue;
+    // a function, not an arrow, so `new Worker(...)` throws this error too
+    target[key] = function () {
+      throw new SandboxCapabilityError(`${label}.${key} is not allowed`);
+    };
+  }
+}
+
+// Workers get their own, unpatched core modules; UDP sockets bypass the
+// net.Socket check; bindings and addons reach native code directly.
+function guardEscapes(): void {
+  deny(workerThreads, ['Worker'], 'worker_threads');
+  deny(dgram, ['createSocket', 'Socket'], 'dgram');
+  deny(process, ['binding', '_linkedBinding', 'dlopen', 'kill'], 'process');
+}
+
+// TMPDIR stays: it points os.tmpdir() at the run's own directory (see sandbox.ts).
+function restrictEnv(policy: SandboxPolicy): void {
+  for (const key of Object.keys(process.env)) {
+    if (!policy.env.includes(key) && key !== 'TMPDIR') {
+      delete process.env[key];
+    }
+  }
+}
+
+export function installCapabilities(policy: SandboxPolicy): void {
+  guardFs(fs, policy);
+  guardFs(fs.promises, policy);
+  guardNet(policy);
+  if (!policy.childProcess) {
+    guardChildProcess();
+  }
+  guardEscapes();
+  restrictEnv(policy);
+}
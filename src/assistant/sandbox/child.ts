@@ -0,0 +1,111 @@
+// sandbox/child.ts
+// Entry point of the sandbox child process. Receives one tool run over IPC,
+// locks down its capabilities, evaluates the tool source and reports back
+// either the result or a serialized error. Calls the tool makes on its `api`
+// argument are forwarded to the host, which checks them against the policy.
+import { installCapabilities } from './capabilities';
+import { ToolModuleLoader } from '../script/moduleLoader';
+import { validateInput, validateOutput } from '../script/schemaValidator';
+import { HarnessOptions, parseHarness, runHarness } from '../testing/harness';
+import { SandboxPolicy } from './policy';
+
+export interface SandboxRunMessage {
+  type: 'run' | 'load' | 'test';
+  name: string;
+  source: string;
+  params?: any;
+  policy: SandboxPolicy;
+  // for 'test' runs
+  harness?: string;
+  schema?: any;
+  testOptions?: HarnessOptions;
+}
+
+let nextCallId = 0;
+const pendingCalls = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+
+function send(message: any): void {
+  if (process.send) process.send(message);
+}
+
+function serializeError(error: any): any {
+  return {
+    name: error?.name || 'Error',
+    message: error?.message || String(error),
+    stack: error?.stack,
+    report: error?.report,
+    // fetch() wraps connection errors in a generic 'fetch failed'
+    kind: error?.name === 'ModuleLoadError'
+      ? 'load'
+      : [error?.name, error?.cause?.name].includes('SandboxCapabilityError') ? 'capability' : 'tool',
+  };
+}
+
+function callHost(method: string, args: any[]): Promise<any> {
+  const id = nextCallId++;
+  return new Promise((resolve, reject) => {
+    pendingCalls.set(id, { resolve, reject });
+    send({ type: 'api', id, method, args });
+  });
+}
+
+// `api.someMethod(...)` and `api.tools.someTool(params)` both become IPC calls.
+function createApi(): any {
+  const tools = new Proxy({}, {
+    get: (_target, toolName) => typeof toolName === 'string'
+      ? (params: any) => callHost('callTool', [toolName, params])
+      : undefined,
+  });
+  return new Proxy({}, {
+    get: (_target, method) => {
+      if (method === 'tools') return tools;
+      if (typeof method !== 'string' || method === 'then') return undefined;
+      return (...args: any[]) => callHost(method, args);
+    },
+  });
+}
+
+// Tests call the tool with the same input coercion and output checks as ToolRegistry.callTool.
+async function invokeChecked(run: SandboxRunMessage, execute: (params: any, api: any) => Promise<any>, params: any, api: any): Promise<any> {
+  const input = validateInput(run.name, params, run.schema?.input_schema);
+  if (input.error) throw input.error;
+  const result = await execute(input.value, api);
+  const outputError = validateOutput(run.name, result, run.schema?.output_schema);
+  if (outputError) throw outputError;
+  return result;
+}
+
+process.on('message', async (message: any) => {
+  if (message.type === 'api_result' || message.type === 'api_error') {
+    const pending = pendingCalls.get(message.id);
+    if (!pending) return;
+    pendingCalls.delete(message.id);
+    if (message.type === 'api_result') {
+      pending.resolve(message.value);
+    } else {
+      pending.reject(Object.assign(new Error(message.error.message), message.error));
+    }
+    return;
+  }
+
+  const run: SandboxRunMessage = message;
+  try {
+    installCapabilities(run.policy);
+    const toolModule = new ToolModuleLoader().load(run.name, 'sandbox', run.source);
+    let value: any;
+    if (run.type === 'run') {
+      value = await toolModule.execute(run.params, createApi());
+    } else if (run.type === 'test') {
+      // a golden suite may consist of replayed invocations only
+      const harness = run.harness ? parseHarness(run.harness) : {};
+      value = await runHarness(harness, (params, api) => invokeChecked(run, toolModule.execute, params, api), createApi(), run.testOptions);
+    }
+    send({ type: 'result', value });
+  } catch (error) {
+    send({ type: 'error', error: serializeError(error) });
+  }
+});
+
+process.on('unhandledRejection', (error) => {
+  send({ type: 'error', error: serializeError(error) });
+});
@@ -0,0 +1,208 @@
+// sandbox/policy.ts
+// Capabilities and resource limits granted to a tool running in the sandbox.
+// Everything not explicitly allowed is denied inside the child process.
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface SandboxLimits {
+  timeoutMs: number;
+  maxMemoryMb: number;
+  cpuMs: number;
+}
+
+export interface SandboxPolicy {
+  fs: {
+    read: string[];
+    write: string[];
+  };
+  // Host names; '*.example.com' matches subdomains and '*' allows any host.
+  net: string[];
+  childProcess: boolean;
+  // Environment variables copied into the child; all others are dropped.
+  env: string[];
+  // Methods of the calling api object the tool may invoke over IPC.
+  api: string[];
+  // Tools running outside the sandbox (builtin, trusted, plugin and MCP tools)
+  // the tool may call through the api. Sandboxed tools can always be called,
+  // and run with no more than the caller's policy grants.
+  tools: string[];
+  // node_modules directories packages are loaded from, besides the app's own
+  modulePaths: string[];
+  limits: SandboxLimits;
+}
+
+export type SandboxPolicyOverrides = Partial<Omit<SandboxPolicy, 'fs' | 'limits'>> & {
+  fs?: Partial<SandboxPolicy['fs']>;
+  limits?: Partial<SandboxLimits>;
+};
+
+// Every run also gets a temp directory of its own to read and write, its cwd
+// and os.tmpdir() (see sandbox.ts); nothing else by default.
+export const defaultSandboxPolicy: SandboxPolicy = {
+  fs: {
+    read: [],
+    write: [],
+  },
+  net: [],
+  childProcess: false,
+  env: ['PATH', 'HOME', 'LANG', 'TZ', 'NODE_ENV'],
+  api: ['callTool', 'callScript', 'emit'],
+  tools: [],
+  modulePaths: [],
+  limits: {
+    timeoutMs: 30000,
+    maxMemoryMb: 256,
+    cpuMs: 20000,
+  },
+};
+
+export function mergePolicy(base: SandboxPolicy, overrides: SandboxPolicyOverrides = {}): SandboxPolicy {
+  return {
+    ...base,
+    ...overrides,
+    fs: { ...base.fs, ...(overrides.fs || {}) },
+    limits: { ...base.limits, ...(overrides.limits || {}) },
+  };
+}
+
+export function isWithin(target: string, roots: string[]): boolean {
+  const resolved = path.resolve(target);
+  return roots.some(root => {
+    const relative = path.relative(path.resolve(root), resolved);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+}
+
+export function hostAllowed(host: string, allowed: string[]): boolean {
+  return allowed.some(pattern =>
+    pattern === '*' ||
+    pattern === host ||
+    (pattern.startsWith('*.') && host.endsWith(pattern.slice(1)))
+  );
+}
+
+// What both policies grant: a tool called from a sandboxed tool runs with no
+// more than its caller may use.
+export function narrowPolicy(policy: SandboxPolicy, caller: SandboxPolicy): SandboxPolicy {
+  const paths = (own: string[], callers: string[]) => [...new Set([
+    ...own.filter(dir => isWithin(dir, callers)),
+    ...callers.filter(dir => isWithin(dir, own)),
+  ])];
+  const hosts = [...new Set([
+    ...policy.net.filter(host => hostAllowed(host, caller.net)),
+    ...caller.net.filter(host => hostAllowed(host, policy.net)),
+  ])];
+  return {
+    ...policy,
+    fs: { read: paths(policy.fs.read, caller.fs.read), write: paths(policy.fs.write, caller.fs.write) },
+    net: hosts.includes('*') ? ['*'] : hosts,
+    childProcess: policy.childProcess && caller.childProcess,
+    env: policy.env.filter(key => caller.env.includes(key)),
+    api: policy.api.filter(method => caller.api.includes(method)),
+    tools: (policy.tools || []).filter(name => (caller.tools || []).includes(name)),
+    limits: {
+      timeoutMs: Math.min(policy.limits.timeoutMs, caller.limits.timeoutMs),
+      maxMemoryMb: Math.min(policy.limits.maxMemoryMb, caller.limits.maxMemoryMb),
+      cpuMs: Math.min(policy.limits.cpuMs, caller.limits.cpuMs),
+    },
+  };
+}
+
+// The policy of the sandboxed tool whose api call is being answered, if any.
+const callerStorage = new AsyncLocalStorage<SandboxPolicy>();
+
+export function runWithCallerPolicy<T>(policy: SandboxPolicy, fn: () => Promise<T>): Promise<T> {
+  return callerStorage.run(policy, fn);
+}
+
+export function currentCallerPolicy(): SandboxPolicy | undefined {
+  return callerStorage.getStore();
+}
+
+let cachedPolicy: SandboxPolicy | null = null;
+// added to every policy's modulePaths; the tool repo's node_modules (see script/dependencyManager.ts)
+const registeredModulePaths = new Set<string>();
+
+export function registerModulePath(dir: string): void {
+  registeredModulePaths.add(dir);
+}
+
+export function modulePathsOf(policy: SandboxPolicy): string[] {
+  return [...new Set([...(policy.modulePaths || []), ...registeredModulePaths])];
+}
+
+// Files a sandboxed tool could use to widen its own access or read secrets:
+// the config holding the sandbox policy and .env, plus what the registry adds
+// (the tool repo with its .registry, the dev-mode tools directory).
+const registeredProtectedPaths = new Set<string>();
+
+export function registerProtectedPath(target: string): void {
+  registeredProtectedPaths.add(path.resolve(target));
+}
+
+export function protectedPaths(): string[] {
+  return [path.join(process.cwd(), 'config.json'), path.join(process.cwd(), '.env'), ...registeredProtectedPaths];
+}
+
+// The roots with every protected path cut out. A root holding one is replaced
+// by its entries, so that the permission model, which only knows what to
+// allow, can express the exclusion.
+export function excludeProtected(roots: string[], excluded: string[] = protectedPaths()): string[] {
+  const allowed = new Set<string>();
+  const visit = (target: string) => {
+    if (isWithin(target, excluded)) return;
+    if (!excluded.some(item => isWithin(item, [target]))) {
+      allowed.add(target);
+      return;
+    }
+    let entries: string[] = [];
+    try {
+      entries = fs.readdirSync(target);
+    } catch (error) {
+      return;
+    }
+    entries.forEach(entry => visit(path.join(target, entry)));
+  };
+  roots.forEach(root => visit(path.resolve(root)));
+  return [...allowed];
+}
+
+// Reads the `sandbox` section of config.json in the working directory (if any)
+// and merges it over the defaults.
+export function loadSandboxPolicy(configFile: string = path.join(process.cwd(), 'config.json')): SandboxPolicy {
+  if (cachedPolicy) return cachedPolicy;
+
+  let fileConfig: SandboxPolicyOverrides = {};
+  try {
+    if (fs.existsSync(configFile)) {
+      fileConfig = JSON.parse(fs.readFileSync(configFile, 'utf8')).sandbox || {};
+    }
+  } catch (error) {
+    console.error(`Error reading sandbox config from ${configFile}:`, error);
+  }
+
+  cachedPolicy = mergePolicy(defaultSandboxPolicy, fileConfig);
+  return cachedPolicy;
+}
+
+export function resetSandboxPolicy(): void {
+  cachedPolicy = null;
+}
+
+// Tools that run in the host process, with the app's own access. Builtin tools
+// are imported from tools.ts with the 'builtin' tag; any other tool only runs
+// there once the user tags it 'trusted'.
+export const trustedTags = ['builtin', 'trusted'];
+
+// Every other registry tool runs isolated: generated ones, whatever added them,
+// and those from the server API, dev mode or .tool add. A schema `sandbox`
+// section is set by whoever registers the tool and is applied on top of the
+// configured policy.
+export function shouldSandbox(tool: { tags?: string[]; schema?: any }): boolean {
+  return !(tool.tags || []).some(tag => trustedTags.includes(tag));
+}
+
+export function policyForTool(tool: { schema?: any }): SandboxPolicy {
+  return mergePolicy(loadSandboxPolicy(), tool.schema?.sandbox || {});
+}
@@ -0,0 +1,243 @@
+// sandbox/sandbox.ts
+// Host side of the sandbox: forks a child per tool run, enforces the time,
+// memory and CPU limits, answers the tool's api calls and turns every way the
+// run can fail into a SandboxError.
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fork, ChildProcess } from 'child_process';
+import { currentCallerPolicy, excludeProtected, modulePathsOf, narrowPolicy, runWithCallerPolicy, SandboxPolicy } from './policy';
+import type { SandboxRunMessage } from './child';
+import type { TestCaseResult } from '../testing/results';
+import type { HarnessOptions } from '../testing/harness';
+
+export type SandboxErrorKind = 'tool' | 'load' | 'capability' | 'timeout' | 'memory' | 'cpu' | 'crash';
+
+export class SandboxError extends Error {
+  // `report` is set when the failure was a ToolValidationError, inside the tool
+  // or in one of its api.callTool calls.
+  constructor(public kind: SandboxErrorKind, public toolName: string, message: string, public childStack?: string, public report?: string) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+// Compiled builds fork the emitted child.js; under ts-node the child needs the
+// TypeScript loader too, pointed at the app's tsconfig as it runs in its own
+// directory.
+function childEntry(): { modulePath: string; execArgv: string[]; env: NodeJS.ProcessEnv } {
+  const compiled = path.join(__dirname, 'child.js');
+  if (fs.existsSync(compiled)) {
+    return { modulePath: compiled, execArgv: [], env: {} };
+  }
+  return {
+    modulePath: path.join(__dirname, 'child.ts'),
+    execArgv: ['-r', require.resolve('ts-node/register/transpile-only')],
+    env: { TS_NODE_PROJECT: path.join(appRoot(), 'tsconfig.json') },
+  };
+}
+
+// The directory of the app's package.json.
+function appRoot(): string {
+  for (let dir = __dirname; ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, 'package.json'))) return dir;
+    if (path.dirname(dir) === dir) return process.cwd();
+  }
+}
+
+// What the child reads before any tool loads: its own modules, the app's
+// node_modules, tsconfig and the package.json files Node looks up on the way.
+// Not the rest of the app.
+function childReadPaths(): string[] {
+  const root = appRoot();
+  const appDir = path.dirname(__dirname);
+  const manifests: string[] = [];
+  for (let dir = __dirname; dir !== root && path.dirname(dir) !== dir; dir = path.dirname(dir)) {
+    manifests.push(path.join(dir, 'package.json'));
+  }
+  return [
+    __dirname,
+    path.join(appDir, 'script'),
+    path.join(appDir, 'testing'),
+    path.join(appDir, `logger${path.extname(__filename)}`),
+    path.join(root, 'node_modules'),
+    path.join(root, 'package.json'),
+    path.join(root, 'tsconfig.json'),
+    ...manifests,
+  ];
+}
+
+// Node's permission model, so the runtime itself refuses file access outside
+// the policy, child processes, workers and native addons, whichever copy of
+// the core modules the tool reaches them through. It does not cover the
+// network; capabilities.ts does. Empty on runtimes without it.
+function permissionArgs(policy: SandboxPolicy): string[] {
+  const flags = process.allowedNodeEnvironmentFlags;
+  const permission = ['--permission', '--experimental-permission'].find(flag => flags.has(flag));
+  if (!permission) return [];
+  const read = new Set([...childReadPaths(), ...policy.fs.read, ...modulePathsOf(policy)].map(dir => path.resolve(dir)));
+  const write = new Set(policy.fs.write.map(dir => path.resolve(dir)));
+  return [
+    permission,
+    ...(flags.has('--disable-warning') ? ['--disable-warning=ExperimentalWarning'] : []),
+    ...[...read].map(dir => `--allow-fs-read=${dir}`),
+    ...[...write].map(dir => `--allow-fs-write=${dir}`),
+    ...(policy.childProcess ? ['--allow-child-process'] : []),
+  ];
+}
+
+// CPU time of a child in ms, from /proc on Linux; null where unavailable.
+function readCpuMs(pid: number): number | null {
+  try {
+    const fields = fs.readFileSync(`/proc/${pid}/stat`, 'utf8').split(') ')[1].split(' ');
+    // utime and stime are fields 14 and 15, counted in clock ticks (100 Hz)
+    return (parseInt(fields[11], 10) + parseInt(fields[12], 10)) * 10;
+  } catch (error) {
+    return null;
+  }
+}
+
+function childEnv(policy: SandboxPolicy, runDir: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of policy.env) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  env.TMPDIR = runDir;
+  const modulePaths = modulePathsOf(policy);
+  if (modulePaths.length > 0) {
+    env.NODE_PATH = modulePaths.join(path.delimiter);
+  }
+  return env;
+}
+
+// A sandboxed tool's events all arrive as one host event, `tool:<name>:event`,
+// with the tool's event name as the first argument; it cannot fire the host's
+// own events ('error', 'reload', ...).
+export function toolEventName(toolName: string): string {
+  return `tool:${toolName}:event`;
+}
+
+async function answerApiCall(child: ChildProcess, message: any, api: any, policy: SandboxPolicy, name: string): Promise<void> {
+  try {
+    if (!policy.api.includes(message.method) || !api || typeof api[message.method] !== 'function') {
+      throw new Error(`api.${message.method} is not allowed in the sandbox`);
+    }
+    const args = message.method === 'emit' ? [toolEventName(name), ...message.args] : message.args;
+    // whatever the call runs is held to this tool's policy
+    const value = await runWithCallerPolicy(policy, () => api[message.method](...args));
+    child.send({ type: 'api_result', id: message.id, value });
+  } catch (error) {
+    if (child.connected) {
+      child.send({ type: 'api_error', id: message.id, error: { name: error.name, message: error.message, report: error.toReport?.() } });
+    }
+  }
+}
+
+// The policy a run gets: the configured roots minus the protected paths, plus
+// the run's own directory.
+function runPolicy(policy: SandboxPolicy, runDir: string): SandboxPolicy {
+  return {
+    ...policy,
+    fs: {
+      read: [runDir, ...excludeProtected(policy.fs.read)],
+      write: [runDir, ...excludeProtected(policy.fs.write)],
+    },
+  };
+}
+
+function runChild(run: SandboxRunMessage, api: any): Promise<any> {
+  // called from another sandboxed tool: no more than that tool is granted
+  const caller = currentCallerPolicy();
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-run-'));
+  const message = { ...run, policy: runPolicy(caller ? narrowPolicy(run.policy, caller) : run.policy, runDir) };
+  const { policy, name } = message;
+  const entry = childEntry();
+
+  return new Promise<any>((resolve, reject) => {
+    const child = fork(entry.modulePath, [], {
+      cwd: runDir,
+      env: { ...childEnv(policy, runDir), ...entry.env },
+      execArgv: [...entry.execArgv, ...permissionArgs(policy), `--max-old-space-size=${policy.limits.maxMemoryMb}`],
+      serialization: 'advanced',
+      // stdout carries JSON-RPC in --stdio and --mcp modes
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+    });
+
+    let settled = false;
+    let closed = false;
+    let settle: (() => void) | null = null;
+    let stderr = '';
+    // settles once the child's output is all forwarded, so it comes before the result
+    const finish = (error: SandboxError | null, value?: any) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearInterval(cpuTimer);
+      if (child.exitCode === null) child.kill('SIGKILL');
+      settle = () => error ? reject(error) : resolve(value);
+      if (closed) settle();
+    };
+
+    const timer = setTimeout(() => {
+      finish(new SandboxError('timeout', name, `Tool ${name} exceeded its time limit of ${policy.limits.timeoutMs}ms`));
+    }, policy.limits.timeoutMs);
+
+    const cpuTimer = setInterval(() => {
+      const cpuMs = child.pid ? readCpuMs(child.pid) : null;
+      if (cpuMs !== null && cpuMs > policy.limits.cpuMs) {
+        finish(new SandboxError('cpu', name, `Tool ${name} exceeded its CPU limit of ${policy.limits.cpuMs}ms`));
+      }
+    }, 250);
+
+    // a tool's console output still shows up, just never on our stdout
+    child.stdout?.on('data', (chunk) => process.stderr.write(chunk));
+
+    child.stderr?.on('data', (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+
+    child.on('message', (reply: any) => {
+      if (reply.type === 'api') {
+        answerApiCall(child, reply, api, policy, name);
+      } else if (reply.type === 'result') {
+        finish(null, reply.value);
+      } else if (reply.type === 'error') {
+        finish(new SandboxError(reply.error.kind, name, reply.error.message, reply.error.stack, reply.error.report));
+      }
+    });
+
+    child.on('error', (error) => {
+      finish(new SandboxError('crash', name, `Sandbox for tool ${name} failed: ${error.message}`));
+    });
+
+    child.on('exit', (code, signal) => {
+      const outOfMemory = /heap out of memory|Allocation failed/i.test(stderr);
+      finish(outOfMemory
+        ? new SandboxError('memory', name, `Tool ${name} exceeded its memory limit of ${policy.limits.maxMemoryMb}MB`)
+        : new SandboxError('crash', name, `Sandbox for tool ${name} exited (${signal || code}) without a result${stderr ? `: ${stderr.trim()}` : ''}`));
+    });
+
+    child.on('close', () => {
+      closed = true;
+      settle?.();
+    });
+
+    child.send(message);
+  }).finally(() => fs.rmSync(runDir, { recursive: true, force: true }));
+}
+
+// Runs the tool's `execute(params, api)` in a child process under `policy`.
+export function runInSandbox(name: string, source: string, params: any, api: any, policy: SandboxPolicy): Promise<any> {
+  return runChild({ type: 'run', name, source, params, policy }, api);
+}
+
+// Only evaluates the module, to check that it loads and exports something executable.
+export function loadInSandbox(name: string, source: string, policy: SandboxPolicy): Promise<void> {
+  return runChild({ type: 'load', name, source, policy }, null);
+}
+
+// Runs a test harness against the tool in a child process; resolves with the
+// per-test results. See testing/harness.ts for what the harness can use.
+export function testInSandbox(name: string, source: string, schema: any, harness: string, api: any, policy: SandboxPolicy, testOptions: HarnessOptions): Promise<TestCaseResult[]> {
+  return runChild({ type: 'test', name, source, schema, harness, policy, testOptions }, api);
+}
@@ -0,0 +1,51 @@
+import { ModuleLoadError, ToolModuleLoader } from '../moduleLoader';
+
+describe('ToolModuleLoader', () => {
+  const loader = new ToolModuleLoader();
+
+  it.each([
+    ['a standardized class instance', 'class DoubleTool { async execute(params) { return params.n * 2; } }\nmodule.exports = new DoubleTool();'],
+    ['an exported class', 'module.exports = class { async execute(params) { return params.n * 2; } };'],
+    ['an exported function', 'module.exports = async (params) => params.n * 2;'],
+    ['ESM', 'export async function execute(params) { return params.n * 2; }'],
+    ['TypeScript', 'export default async function (params: { n: number }): Promise<number> { return params.n * 2; }'],
+    ['a bare function', 'async function (params) { return params.n * 2; }'],
+    ['a bare execute method', 'async execute(params, api) { return params.n * 2; }'],
+  ])('loads %s', async (shape, source) => {
+    const loaded = loader.load(shape, '1.0.0', source);
+    await expect(loaded.execute({ n: 21 }, {})).resolves.toBe(42);
+  });
+
+  it('passes the api through to the tool', async () => {
+    const api = { greet: (name: string) => `hi ${name}` };
+    const loaded = loader.load('greet', '1.0.0', 'module.exports = { execute: async (params, api) => api.greet(params.name) };');
+    await expect(loaded.execute({ name: 'ada' }, api)).resolves.toBe('hi ada');
+  });
+
+  it.each([
+    ['compile', 'this is not code {'],
+    ['evaluate', 'throw new Error("boom at load");'],
+    ['export', 'module.exports = { answer: 42 };'],
+  ])('fails in the %s phase', (phase, source) => {
+    let error: any;
+    try {
+      loader.load('broken', '2.0.0', source);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ModuleLoadError);
+    expect(error).toMatchObject({ toolName: 'broken', version: '2.0.0', phase });
+    expect(error.message).toMatch(/^Failed to load tool broken@2\.0\.0/);
+  });
+
+  it('caches each version until the tool is invalidated', () => {
+    const cached = new ToolModuleLoader();
+    const first = cached.load('counter', '1.0.0', 'module.exports = async () => 1;');
+    expect(cached.load('counter', '1.0.0', 'module.exports = async () => 2;')).toBe(first);
+    const second = cached.load('counter', '1.0.1', 'module.exports = async () => 2;');
+    expect(second).not.toBe(first);
+
+    cached.invalidate('counter');
+    expect(cached.load('counter', '1.0.1', 'module.exports = async () => 3;')).not.toBe(second);
+  });
+});
@@ -0,0 +1,74 @@
+import { coerceParams, ToolValidationError, validateInput, validateOutput } from '../schemaValidator';
+
+const searchSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    limit: { type: 'number', default: 10 },
+  },
+  required: ['query'],
+};
+
+describe('coerceParams', () => {
+  it.each([
+    ['a params object wrapped in an array', [{ query: 'x' }], { query: 'x' }],
+    ['a JSON string', '{"query":"x"}', { query: 'x' }],
+    ['a bare value for the single required field', 'x', { query: 'x' }],
+    ['missing params', undefined, {}],
+  ])('fixes %s', (_label, params, expected) => {
+    expect(coerceParams(params, searchSchema)).toEqual(expected);
+  });
+
+  it('wraps a single value where an array is expected', () => {
+    expect(coerceParams('a', { type: 'array' })).toEqual(['a']);
+    expect(coerceParams(['a'], { type: 'array' })).toEqual(['a']);
+  });
+
+  it('leaves the params as given when there is no schema', () => {
+    expect(coerceParams([{ a: 1 }], undefined)).toEqual([{ a: 1 }]);
+    expect(coerceParams('x', undefined)).toBe('x');
+  });
+});
+
+describe('validateInput', () => {
+  it('coerces scalar types and fills defaults', () => {
+    expect(validateInput('search', { query: 'x', limit: '5' }, searchSchema)).toEqual({ value: { query: 'x', limit: 5 }, error: null });
+    expect(validateInput('search', ['x'], searchSchema).value).toEqual({ query: 'x', limit: 10 });
+  });
+
+  it('validates a top-level scalar', () => {
+    expect(validateInput('double', '21', { type: 'number' })).toEqual({ value: 21, error: null });
+    const { error } = validateInput('double', 'many', { type: 'number' });
+    expect(error.issues).toEqual([expect.objectContaining({ path: '', keyword: 'type' })]);
+  });
+
+  it('reports every issue with its path', () => {
+    const { error } = validateInput('search', { limit: 'lots' }, searchSchema);
+    expect(error).toBeInstanceOf(ToolValidationError);
+    expect(error.direction).toBe('input');
+    expect(error.issues.map(issue => [issue.path, issue.keyword]).sort()).toEqual([['', 'required'], ['/limit', 'type']]);
+    expect(error.toReport()).toContain("Tool 'search' rejected its input.");
+    expect(error.toReport()).toContain('Expected schema:');
+  });
+
+  it('does not enforce a schema that cannot be compiled', () => {
+    expect(validateInput('broken', { a: 1 }, { type: 'not-a-type' })).toEqual({ value: { a: 1 }, error: null });
+  });
+});
+
+describe('validateOutput', () => {
+  const schema = { type: 'object', properties: { count: { type: 'number' } }, required: ['count'] };
+
+  it('accepts a matching result without changing it', () => {
+    const result = { count: 3 };
+    expect(validateOutput('count', result, schema)).toBeNull();
+    expect(validateOutput('count', 'anything', undefined)).toBeNull();
+  });
+
+  it('never coerces the result', () => {
+    const error = validateOutput('count', { count: '3' }, schema);
+    expect(error).toBeInstanceOf(ToolValidationError);
+    expect(error.direction).toBe('output');
+    expect(error.issues[0]).toMatchObject({ path: '/count', keyword: 'type' });
+  });
+});
@@ -10,7 +10,7 @@ export class ScriptCleanupManager {
     const allScripts = await toolRegistry.getToolList();
     const currentDate = new Date();
 
-    for (const script of allScripts) {
+    for (const script of allScripts.filter(script => !script.handler)) {
       const metrics = ScriptPerformanceMonitor.getMetrics(script.name);
       if (metrics) {
         const daysSinceLastExecution = (currentDate.getTime() - metrics.lastExecutionTime.getTime()) / (24 * 60 * 60 * 1000);
@@ -22,6 +22,6 @@ export class ScriptCleanupManager {
   }
 
   private static async archiveScript(toolRegistry: ToolRegistry, script: Tool): Promise<void> {
-    await toolRegistry.updateTool(script.name, script.source, { ...script.schema, archived: true }, script.tags);
+    await toolRegistry.updateTool(script.name, script.source, { ...script.schema, archived: true }, script.tags, 'archived');
   }
 }
\ No newline at end of file
@@ -0,0 +1,249 @@
+// script/dependencyManager.ts
+// npm packages used by registry tools. A tool declares them in
+// `metadata.dependencies` as `name@range`; the packages its source requires or
+// imports are found by static analysis. Missing ones are installed into the
+// tool repo's own node_modules, and recorded in its package.json and
+// package-lock.json. A package that is in neither that package.json nor the
+// configured allow list is only installed once the user confirms it, and is
+// refused where nobody can be asked.
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { builtinModules } from 'module';
+import { log } from '../logger';
+
+export interface DependencyConfig {
+  // false reports missing packages instead of installing them
+  autoInstall: boolean;
+  // installed without asking: package names, '@scope/*' or '*'
+  allow: string[];
+  // whether packages' install scripts run
+  allowScripts: boolean;
+  timeoutMs: number;
+}
+
+export const defaultDependencyConfig: DependencyConfig = {
+  autoInstall: true,
+  allow: [],
+  allowScripts: false,
+  timeoutMs: 120000,
+};
+
+// Reads the `dependencies` section of config.json in the working directory (if any).
+export function loadDependencyConfig(configFile: string = path.join(process.cwd(), 'config.json')): DependencyConfig {
+  let fileConfig: Partial<DependencyConfig> = {};
+  try {
+    if (fs.existsSync(configFile)) {
+      fileConfig = JSON.parse(fs.readFileSync(configFile, 'utf8')).dependencies || {};
+    }
+  } catch (error) {
+    console.error(`Error reading dependency config from ${configFile}:`, error);
+  }
+  return { ...defaultDependencyConfig, ...fileConfig };
+}
+
+export class DependencyError extends Error {
+  constructor(public toolName: string, public packages: string[], message: string) {
+    super(message);
+    this.name = 'DependencyError';
+  }
+}
+
+export interface PackageSpec {
+  name: string;
+  range: string;
+}
+
+const packageNamePattern = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+// semver ranges and dist-tags; never URLs, paths or anything npm reads as a flag
+const rangePattern = /^(?!-)[\w.\-+~^<>=*| ]+$/;
+const builtins = new Set(builtinModules);
+
+// `lodash` (the latest version), `lodash@^4.17.0`, `@scope/pkg@1.x`
+export function parsePackageSpec(spec: string): PackageSpec {
+  const at = spec.indexOf('@', 1);
+  const name = at === -1 ? spec.trim() : spec.slice(0, at).trim();
+  const range = at === -1 ? 'latest' : spec.slice(at + 1).trim() || 'latest';
+  if (!packageNamePattern.test(name) || !rangePattern.test(range)) {
+    throw new Error(`Invalid package: ${spec} (expected name@range, e.g. lodash@^4.17.0)`);
+  }
+  return { name, range };
+}
+
+export function formatPackageSpec(spec: PackageSpec): string {
+  return `${spec.name}@${spec.range}`;
+}
+
+// The package a module request loads from; null for relative paths and Node's
+// own modules.
+export function packageNameOf(request: string): string | null {
+  if (!request || request.startsWith('.') || path.isAbsolute(request) || request.startsWith('node:') || builtins.has(request.split('/')[0])) {
+    return null;
+  }
+  const parts = request.split('/');
+  const name = request.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  return packageNamePattern.test(name) ? name : null;
+}
+
+// Packages the source loads with a literal require(), import or import().
+export function detectRequires(source: string): string[] {
+  const ts = require('typescript');
+  let sourceFile: any;
+  try {
+    sourceFile = ts.createSourceFile('tool.ts', source, ts.ScriptTarget.Latest, false, ts.ScriptKind.TS);
+  } catch (error) {
+    return [];
+  }
+  const requests: string[] = [];
+  const visit = (node: any) => {
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      requests.push(node.moduleSpecifier.text);
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) && ts.isStringLiteral(node.moduleReference.expression)) {
+      requests.push(node.moduleReference.expression.text);
+    } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])
+      && (node.expression.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      requests.push(node.arguments[0].text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return [...new Set(requests.map(packageNameOf).filter(Boolean))].sort();
+}
+
+export class DependencyManager {
+  // asks the user about packages that are not approved yet; set by the terminal
+  public confirm: ((message: string) => Promise<boolean>) | null = null;
+  // `<tool>@<version>` whose packages are all present
+  private satisfied = new Set<string>();
+  // npm runs one at a time
+  private installing: Promise<any> = Promise.resolve();
+
+  constructor(private repoPath: string, private config: DependencyConfig = loadDependencyConfig()) {}
+
+  get modulesDir(): string {
+    return path.join(this.repoPath, 'node_modules');
+  }
+
+  private get manifestFile(): string {
+    return path.join(this.repoPath, 'package.json');
+  }
+
+  // Packages installed for the tools, as recorded in the tool repo's package.json.
+  installed(): { [name: string]: string } {
+    try {
+      return JSON.parse(fs.readFileSync(this.manifestFile, 'utf8')).dependencies || {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  // The installed package's directory, looked up the way Node resolves it from
+  // a tool: the tool repo's node_modules first, then those of the app.
+  private findPackage(name: string): string | null {
+    for (let dir = this.repoPath; ; dir = path.dirname(dir)) {
+      const candidate = path.join(dir, 'node_modules', name);
+      if (fs.existsSync(path.join(candidate, 'package.json'))) return candidate;
+      if (path.dirname(dir) === dir) return null;
+    }
+  }
+
+  isAvailable(name: string): boolean {
+    return !!this.findPackage(name);
+  }
+
+  isApproved(name: string): boolean {
+    return name in this.installed() || this.config.allow.some(pattern =>
+      pattern === '*' || pattern === name || (pattern.endsWith('/*') && name.startsWith(pattern.slice(0, -1))));
+  }
+
+  // The declarations a tool's metadata should hold for `source`: the given ones,
+  // plus a declaration for each package the source loads that has none yet.
+  declare(source: string, declared: string[] = []): string[] {
+    const specs: PackageSpec[] = [];
+    for (const spec of declared) {
+      try {
+        specs.push(parsePackageSpec(spec));
+      } catch (error) {
+        log('warn', error.message, 'DependencyManager');
+      }
+    }
+    for (const name of detectRequires(source)) {
+      if (!specs.some(spec => spec.name === name)) {
+        specs.push({ name, range: this.rangeOf(name) });
+      }
+    }
+    return specs.map(formatPackageSpec).sort();
+  }
+
+  // The range recorded in package.json, or one matching the version present.
+  private rangeOf(name: string): string {
+    const recorded = this.installed()[name];
+    if (recorded) return recorded;
+    const dir = this.findPackage(name);
+    try {
+      return dir ? `^${JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf8')).version}` : 'latest';
+    } catch (error) {
+      return 'latest';
+    }
+  }
+
+  // Packages the tool declares or loads that are not installed.
+  missing(tool: { source: string; metadata?: { dependencies?: string[] } }): PackageSpec[] {
+    return this.declare(tool.source, tool.metadata?.dependencies || [])
+      .map(parsePackageSpec)
+      .filter(spec => !this.isAvailable(spec.name));
+  }
+
+  // Installs what the tool is missing; resolves with the installed packages.
+  async ensure(tool: { name: string; version: string; source: string; metadata?: { dependencies?: string[] } }): Promise<PackageSpec[]> {
+    const key = `${tool.name}@${tool.version}`;
+    if (this.satisfied.has(key)) return [];
+    const missing = this.missing(tool);
+    if (missing.length > 0) {
+      if (!this.config.autoInstall) {
+        throw new DependencyError(tool.name, missing.map(spec => spec.name),
+          `Tool ${tool.name} needs packages that are not installed: ${missing.map(formatPackageSpec).join(', ')}. Install them with .tool deps ${tool.name} install`);
+      }
+      await this.install(missing, `tool ${tool.name}`);
+    }
+    this.satisfied.add(key);
+    return missing;
+  }
+
+  // Installs the packages into the tool repo, asking first about any that are
+  // not approved.
+  async install(specs: PackageSpec[], requestedBy: string): Promise<void> {
+    if (specs.length === 0) return;
+    const unapproved = specs.filter(spec => !this.isApproved(spec.name));
+    if (unapproved.length > 0) {
+      const list = unapproved.map(formatPackageSpec).join(', ');
+      const confirmed = this.confirm ? await this.confirm(`${requestedBy} wants to install npm packages that are not approved yet: ${list}. Install them?`) : false;
+      if (!confirmed) {
+        throw new DependencyError(requestedBy, unapproved.map(spec => spec.name),
+          `Refused to install ${list} for ${requestedBy}. Approve them under "dependencies.allow" in config.json${this.confirm ? '' : ', or install them from the terminal with .tool deps'}.`);
+      }
+    }
+
+    const run = this.installing.then(() => this.runNpm(specs, requestedBy));
+    this.installing = run.catch(() => undefined);
+    await run;
+    this.satisfied.clear();
+    log('info', `Installed ${specs.map(formatPackageSpec).join(', ')} for ${requestedBy}`, 'DependencyManager');
+  }
+
+  private runNpm(specs: PackageSpec[], requestedBy: string): Promise<void> {
+    if (!fs.existsSync(this.manifestFile)) {
+      fs.writeFileSync(this.manifestFile, JSON.stringify({ name: 'tool-repo', private: true, dependencies: {} }, null, 2) + '\n');
+    }
+    const args = ['install', '--save', '--no-audit', '--no-fund', ...(this.config.allowScripts ? [] : ['--ignore-scripts']), ...specs.map(formatPackageSpec)];
+    return new Promise((resolve, reject) => {
+      execFile(process.platform === 'win32' ? 'npm.cmd' : 'npm', args, { cwd: this.repoPath, timeout: this.config.timeoutMs }, (error, stdout, stderr) => {
+        if (error) {
+          reject(new DependencyError(requestedBy, specs.map(spec => spec.name), `npm install ${specs.map(formatPackageSpec).join(' ')} failed: ${(stderr || error.message).trim().split('\n').slice(-3).join(' ')}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
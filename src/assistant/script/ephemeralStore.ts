@@ -0,0 +1,132 @@
+// script/ephemeralStore.ts
+// Scripts generated to serve one request (agent tasks, callScript) live here
+// instead of in the tool registry: they are not versioned, tested or improved,
+// and expire `ttlMs` after their last use. A script becomes a registry tool only
+// when it is promoted. Stored as `<dir>/<id>.json`.
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../logger';
+
+export interface EphemeralScript {
+  // `<runId>.<name>` for the tasks of a run, `<name>.<random>` otherwise
+  id: string;
+  name: string;
+  runId?: string;
+  description: string;
+  source: string;
+  schema?: any;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  useCount: number;
+  // outcome of the most recent execution
+  lastRun?: { success: boolean; error?: string; at: string };
+}
+
+export const defaultScriptTtlMs = Number(process.env.SCRIPT_TTL_MS) || 24 * 60 * 60 * 1000;
+
+export class EphemeralScriptStore {
+  constructor(private dir: string, private ttlMs: number = defaultScriptTtlMs) {}
+
+  private file(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private save(script: EphemeralScript): void {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(this.file(script.id), JSON.stringify(script, null, 2));
+    } catch (error) {
+      log('error', `Error saving script ${script.id}: ${error.message}`, 'EphemeralScriptStore');
+    }
+  }
+
+  private expiry(from: number = Date.now()): string {
+    return new Date(from + this.ttlMs).toISOString();
+  }
+
+  // Within a run the name identifies the script, so putting it again (a resumed
+  // run, a fixed script) replaces it.
+  put(name: string, source: string, options: { runId?: string; description?: string; schema?: any } = {}): EphemeralScript {
+    const id = options.runId ? `${options.runId}.${name}` : `${name}.${uuidv4().slice(0, 8)}`;
+    const now = new Date().toISOString();
+    const existing = this.get(id);
+    const script: EphemeralScript = {
+      id,
+      name,
+      ...(options.runId ? { runId: options.runId } : {}),
+      description: options.description || existing?.description || name,
+      source,
+      ...(options.schema || existing?.schema ? { schema: options.schema || existing.schema } : {}),
+      createdAt: existing?.createdAt || now,
+      lastUsedAt: now,
+      expiresAt: this.expiry(),
+      useCount: existing?.useCount || 0,
+    };
+    this.save(script);
+    return script;
+  }
+
+  replaceSource(id: string, source: string): void {
+    const script = this.get(id);
+    if (!script) return;
+    script.source = source;
+    this.save(script);
+  }
+
+  // Counts a use and extends the script's lifetime.
+  recordRun(id: string, success: boolean, error?: string): void {
+    const script = this.get(id);
+    if (!script) return;
+    const now = Date.now();
+    script.useCount++;
+    script.lastUsedAt = new Date(now).toISOString();
+    script.expiresAt = this.expiry(now);
+    script.lastRun = { success, ...(error ? { error } : {}), at: script.lastUsedAt };
+    this.save(script);
+  }
+
+  get(id: string): EphemeralScript | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.file(id), 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') log('error', `Error reading script ${id}: ${error.message}`, 'EphemeralScriptStore');
+      return null;
+    }
+  }
+
+  // Unexpired scripts, most recently used first; only those of `runId` if given.
+  list(runId?: string): EphemeralScript[] {
+    this.sweep();
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.get(path.basename(file, '.json')))
+      .filter(script => script && (!runId || script.runId === runId))
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  remove(id: string): boolean {
+    try {
+      fs.unlinkSync(this.file(id));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Deletes expired scripts; returns how many.
+  sweep(now: number = Date.now()): number {
+    if (!fs.existsSync(this.dir)) return 0;
+    let removed = 0;
+    for (const file of fs.readdirSync(this.dir).filter(name => name.endsWith('.json'))) {
+      const script = this.get(path.basename(file, '.json'));
+      if (!script || Date.parse(script.expiresAt) <= now) {
+        removed += this.remove(path.basename(file, '.json')) ? 1 : 0;
+      }
+    }
+    if (removed > 0) log('debug', `Removed ${removed} expired scripts`, 'EphemeralScriptStore');
+    return removed;
+  }
+}
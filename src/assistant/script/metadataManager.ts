@@ -7,6 +7,7 @@ export interface ScriptMetadata {
   author: string;
   version: string;
   tags: string[];
+  // npm packages as `name@range`; see dependencyManager.ts
   dependencies: string[];
 }
 
@@ -22,7 +23,7 @@ export class MetadataManager {
           lastModifiedDate: new Date()
         }
       };
-      await toolRegistry.updateTool(scriptName, updatedScript.source, updatedScript.schema, updatedScript.tags);
+      await toolRegistry.updateTool(scriptName, updatedScript.source, updatedScript.schema, updatedScript.tags, 'metadata');
     }
   }
 
@@ -42,7 +43,7 @@ export class MetadataManager {
           lastModifiedDate: new Date()
         }
       };
-      await toolRegistry.updateTool(scriptName, updatedScript.source, updatedScript.schema, updatedScript.tags);
+      await toolRegistry.updateTool(scriptName, updatedScript.source, updatedScript.schema, updatedScript.tags, 'metadata');
     }
   }
 
@@ -57,7 +58,7 @@ export class MetadataManager {
           lastModifiedDate: new Date(),
         }
       };
-      await toolRegistry.updateTool(scriptName, updatedScript.source, updatedScript.schema, updatedScript.tags);
+      await toolRegistry.updateTool(scriptName, updatedScript.source, updatedScript.schema, updatedScript.tags, 'metadata');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+// script/moduleLoader.ts
+// Turns stored tool source into a callable module in memory. Accepts the
+// standardized `module.exports = new XTool()` form as well as ESM, TypeScript,
+// and bare `execute(params, api) {}` / function sources.
+import vm from 'vm';
+import path from 'path';
+import { createRequire } from 'module';
+
+export type ModuleLoadPhase = 'compile' | 'evaluate' | 'export';
+
+export class ModuleLoadError extends Error {
+  constructor(public toolName: string, public version: string, public phase: ModuleLoadPhase, message: string) {
+    super(`Failed to load tool ${toolName}@${version} (${phase}): ${message}`);
+    this.name = 'ModuleLoadError';
+  }
+}
+
+export interface LoadedToolModule {
+  name: string;
+  version: string;
+  exports: any;
+  execute: (params: any, api: any) => Promise<any>;
+}
+
+const moduleParams = ['exports', 'require', 'module', '__filename', '__dirname'];
+
+export class ToolModuleLoader {
+  private cache = new Map<string, LoadedToolModule>();
+
+  constructor(private baseDir: string = process.cwd()) {}
+
+  load(name: string, version: string, source: string): LoadedToolModule {
+    const key = `${name}@${version}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const loaded = this.compileAndEvaluate(name, version, source);
+    this.invalidate(name);
+    this.cache.set(key, loaded);
+    return loaded;
+  }
+
+  // Compiles and evaluates without touching the cache, to check a candidate source.
+  compile(name: string, version: string, source: string): LoadedToolModule {
+    return this.compileAndEvaluate(name, version, source);
+  }
+
+  // Drops every cached version of the tool.
+  invalidate(name: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.slice(0, key.lastIndexOf('@')) === name) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private compileAndEvaluate(name: string, version: string, source: string): LoadedToolModule {
+    const filename = path.join(this.baseDir, `${name}.js`);
+    const candidates = [source, `module.exports = (${source});`, `module.exports = ({ ${source} });`];
+
+    let lastError: ModuleLoadError | null = null;
+    try {
+      for (const code of this.compileCandidates(name, version, candidates, filename)) {
+        const module: any = { exports: {} };
+        try {
+          code(module.exports, createRequire(filename), module, filename, path.dirname(filename));
+        } catch (error) {
+          lastError = new ModuleLoadError(name, version, 'evaluate', error.message);
+          continue;
+        }
+        const execute = this.findExecute(module.exports);
+        if (execute) {
+          return { name, version, exports: module.exports, execute };
+        }
+        lastError = new ModuleLoadError(name, version, 'export', 'module does not export an execute(params, api) method or a function');
+      }
+    } catch (error) {
+      // a shape that compiled but failed to run says more than the parse errors of the others
+      throw lastError || error;
+    }
+    throw lastError;
+  }
+
+  // Plain JavaScript is compiled directly; only when no shape parses is the
+  // source run through the TypeScript compiler (which also handles ESM).
+  private *compileCandidates(name: string, version: string, candidates: string[], filename: string): Iterable<Function> {
+    let firstError = '';
+    const unparsed: string[] = [];
+    for (const candidate of candidates) {
+      let compiled: Function;
+      try {
+        compiled = vm.compileFunction(candidate, moduleParams, { filename });
+      } catch (error) {
+        firstError = firstError || error.message;
+        unparsed.push(candidate);
+        continue;
+      }
+      yield compiled;
+    }
+
+    const ts = require('typescript');
+    for (const candidate of unparsed) {
+      const output = ts.transpileModule(candidate, {
+        fileName: filename.replace(/\.js$/, '.ts'),
+        reportDiagnostics: true,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+      });
+      if (output.diagnostics && output.diagnostics.length > 0) {
+        firstError = firstError || ts.flattenDiagnosticMessageText(output.diagnostics[0].messageText, '\n');
+        continue;
+      }
+      try {
+        yield vm.compileFunction(output.outputText, moduleParams, { filename });
+      } catch (error) {
+        firstError = firstError || error.message;
+      }
+    }
+    throw new ModuleLoadError(name, version, 'compile', firstError);
+  }
+
+  private findExecute(exported: any): ((params: any, api: any) => Promise<any>) | null {
+    for (const candidate of [exported?.default, exported]) {
+      if (typeof candidate === 'function' && typeof candidate.prototype?.execute === 'function') {
+        return async (params, api) => new candidate().execute(params, api);
+      }
+      if (typeof candidate === 'function') {
+        return async (params, api) => candidate(params, api);
+      }
+      if (candidate && typeof candidate.execute === 'function') {
+        return async (params, api) => candidate.execute(params, api);
+      }
+    }
+    const method = exported && Object.values(exported).find(value => typeof value === 'function');
+    return method ? async (params, api) => (method as Function)(params, api) : null;
+  }
+}
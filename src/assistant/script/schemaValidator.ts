@@ -0,0 +1,134 @@
+// script/schemaValidator.ts
+// Validates tool params against `input_schema` and results against
+// `output_schema`. Params are coerced first, so the usual ways a generated
+// script gets a call slightly wrong (wrapping params in an array, passing a
+// JSON string, passing a bare value for a single-field object, "5" for 5)
+// still reach the tool in the declared shape.
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { log } from '../logger';
+
+export type ValidationDirection = 'input' | 'output';
+
+export interface SchemaValidationIssue {
+  path: string;
+  message: string;
+  keyword: string;
+  params: any;
+}
+
+export class ToolValidationError extends Error {
+  constructor(
+    public toolName: string,
+    public direction: ValidationDirection,
+    public issues: SchemaValidationIssue[],
+    public value: any,
+    public schema: any
+  ) {
+    super(`Invalid ${direction} for tool ${toolName}: ${issues.map(issue => `${issue.path || '(root)'} ${issue.message}`).join('; ')}`);
+    this.name = 'ToolValidationError';
+  }
+
+  // Everything the fix-script prompt needs to correct the call.
+  toReport(): string {
+    return [
+      `Tool '${this.toolName}' rejected its ${this.direction}.`,
+      ...this.issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`),
+      `Received: ${JSON.stringify(this.value)}`,
+      `Expected schema: ${JSON.stringify(this.schema)}`,
+    ].join('\n');
+  }
+}
+
+// Input validation coerces scalar types and fills defaults in place; output
+// validation never changes what the tool returned.
+const inputAjv = new Ajv({ allErrors: true, coerceTypes: 'array', useDefaults: true, strict: false });
+const outputAjv = new Ajv({ allErrors: true, strict: false });
+const compiled = new WeakMap<Ajv, Map<string, ValidateFunction | null>>();
+
+function getValidator(ajv: Ajv, schema: any): ValidateFunction | null {
+  if (!compiled.has(ajv)) compiled.set(ajv, new Map());
+  const cache = compiled.get(ajv);
+  const key = JSON.stringify(schema);
+  if (!cache.has(key)) {
+    try {
+      cache.set(key, ajv.compile(schema));
+    } catch (error) {
+      // A schema ajv cannot compile is reported once and not enforced.
+      log('warn', `Skipping invalid JSON schema: ${error.message}`, 'SchemaValidator');
+      cache.set(key, null);
+    }
+  }
+  return cache.get(key);
+}
+
+function toIssues(errors: ErrorObject[] | null | undefined): SchemaValidationIssue[] {
+  return (errors || []).map(error => ({
+    path: error.instancePath,
+    message: error.message || error.keyword,
+    keyword: error.keyword,
+    params: error.params,
+  }));
+}
+
+function schemaType(schema: any): string | undefined {
+  if (!schema) return undefined;
+  if (schema.type) return Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  if (schema.properties) return 'object';
+  return undefined;
+}
+
+// Fixes the shape of the params before validation. A single-element array is
+// unwrapped only when the schema says the params are something else; without
+// a schema the params are passed on as given.
+export function coerceParams(params: any, schema: any): any {
+  const type = schemaType(schema);
+
+  if (type && type !== 'array' && Array.isArray(params) && params.length === 1) {
+    params = params[0];
+  }
+  if (!type) return params;
+
+  if (type === 'object') {
+    if (params === undefined || params === null) return {};
+    if (typeof params === 'string') {
+      try {
+        const parsed = JSON.parse(params);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+      } catch (error) {
+        // not JSON; may still be a bare value for a single-field object
+      }
+    }
+    if (typeof params !== 'object') {
+      const fields = schema.required && schema.required.length === 1
+        ? schema.required
+        : Object.keys(schema.properties || {});
+      if (fields.length === 1) return { [fields[0]]: params };
+    }
+  }
+
+  if (type === 'array' && !Array.isArray(params)) {
+    return params === undefined || params === null ? [] : [params];
+  }
+
+  return params;
+}
+
+export function validateInput(toolName: string, params: any, schema: any): { value: any; error: ToolValidationError | null } {
+  const value = coerceParams(params, schema);
+  if (!schema) return { value, error: null };
+
+  // ajv coerces in place, so a top-level scalar is validated inside a wrapper
+  const scalar = typeof value !== 'object' || value === null;
+  const validate = getValidator(inputAjv, scalar ? { type: 'object', properties: { value: schema } } : schema);
+  const data = scalar ? { value } : value;
+  if (!validate || validate(data)) return { value: scalar ? data.value : data, error: null };
+
+  const issues = toIssues(validate.errors).map(issue => ({ ...issue, path: scalar ? issue.path.replace(/^\/value/, '') : issue.path }));
+  return { value, error: new ToolValidationError(toolName, 'input', issues, value, schema) };
+}
+
+export function validateOutput(toolName: string, result: any, schema: any): ToolValidationError | null {
+  const validate = schema ? getValidator(outputAjv, schema) : null;
+  if (!validate || validate(result)) return null;
+  return new ToolValidationError(toolName, 'output', toIssues(validate.errors), result, schema);
+}
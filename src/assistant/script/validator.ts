@@ -1,4 +1,5 @@
-import * as vm from 'vm2';
+import { loadInSandbox } from '../sandbox/sandbox';
+import { defaultSandboxPolicy, mergePolicy } from '../sandbox/policy';
 
 export class ScriptValidator {
   static async validate(script: string): Promise<boolean> {
@@ -17,14 +18,19 @@ export class ScriptValidator {
     return { valid: true };
   }
 
+  // Loads the script with no capabilities at all; it must evaluate and export
+  // something executable without touching the filesystem, network or env.
   private static async runInSandbox(script: string): Promise<{valid: boolean, output?: any}> {
-    const sandbox = new vm.VM({
-      timeout: 5000,
-      sandbox: {}
+    const policy = mergePolicy(defaultSandboxPolicy, {
+      fs: { read: [], write: [] },
+      net: [],
+      env: [],
+      api: [],
+      limits: { timeoutMs: 5000 },
     });
 
     try {
-      sandbox.run(script);
+      await loadInSandbox('validation', script, policy);
       return { valid: true };
     } catch (error) {
       console.error('Script execution in sandbox failed:', error);
@@ -0,0 +1,61 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { startHttpServer } from '../http';
+import { RpcMethods } from '../protocol';
+
+const token = 'test-token';
+const methods: RpcMethods = {
+  'tool.call': async (params) => ({ called: params.name }),
+};
+const sessions: any = { subscribe: () => () => undefined };
+
+let server: http.Server;
+
+beforeAll(async () => {
+  server = await startHttpServer(methods, sessions, { port: 0, token });
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+function request(headers: http.OutgoingHttpHeaders, body = '{"jsonrpc":"2.0","id":1,"method":"tool.call","params":{"name":"bash"}}'): Promise<{ status: number; body: any }> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path: '/rpc', method: 'POST', headers }, (response) => {
+      let data = '';
+      response.on('data', chunk => data += chunk);
+      response.on('end', () => resolve({ status: response.statusCode, body: data ? JSON.parse(data) : null }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+const json = { 'Content-Type': 'application/json' };
+const auth = { Authorization: `Bearer ${token}` };
+
+describe('startHttpServer', () => {
+  it('refuses to start without a token', async () => {
+    await expect(startHttpServer(methods, sessions, { port: 0, token: '' })).rejects.toThrow(/token/);
+  });
+
+  it('answers an authorized JSON-RPC request', async () => {
+    const response = await request({ ...json, ...auth });
+    expect(response).toEqual({ status: 200, body: { jsonrpc: '2.0', id: 1, result: { called: 'bash' } } });
+  });
+
+  it('rejects requests without the token', async () => {
+    expect((await request(json)).status).toBe(401);
+    expect((await request({ ...json, Authorization: 'Bearer wrong-token' })).status).toBe(401);
+  });
+
+  it('rejects requests from a browser page', async () => {
+    expect((await request({ ...json, ...auth, Origin: 'http://evil.example' })).status).toBe(403);
+    expect((await request({ ...json, ...auth, Origin: 'null' })).status).toBe(403);
+  });
+
+  it('rejects bodies that are not application/json', async () => {
+    expect((await request({ ...auth, 'Content-Type': 'text/plain' })).status).toBe(415);
+    expect((await request(auth)).status).toBe(415);
+    expect((await request({ ...auth, 'Content-Type': 'application/json; charset=utf-8' })).status).toBe(200);
+  });
+});
@@ -0,0 +1,61 @@
+import { handleRpc, requireParam, RpcError, RpcErrorCode, RpcMethods, toJson } from '../protocol';
+
+const methods: RpcMethods = {
+  'tool.call': async (params) => ({ called: requireParam(params, 'name') }),
+  'task.fail': async () => { throw new RpcError(RpcErrorCode.invalidParams, 'bad task', { taskId: 7 }); },
+  'task.crash': async () => { throw new Error('disk full'); },
+};
+
+function call(message: any) {
+  return handleRpc(methods, typeof message === 'string' ? message : JSON.stringify(message));
+}
+
+describe('handleRpc', () => {
+  it('answers a request with the method result', async () => {
+    await expect(call({ jsonrpc: '2.0', id: 1, method: 'tool.call', params: { name: 'bash' } }))
+      .resolves.toEqual({ jsonrpc: '2.0', id: 1, result: { called: 'bash' } });
+  });
+
+  it('sends no response to a notification', async () => {
+    await expect(call({ jsonrpc: '2.0', method: 'tool.call', params: { name: 'bash' } })).resolves.toBeNull();
+    await expect(call({ jsonrpc: '2.0', method: 'task.crash' })).resolves.toBeNull();
+  });
+
+  it.each([
+    ['malformed JSON', '{"jsonrpc":', RpcErrorCode.parseError],
+    ['a message that is not JSON-RPC 2.0', { id: 2, method: 'tool.call' }, RpcErrorCode.invalidRequest],
+    ['an unknown method', { jsonrpc: '2.0', id: 2, method: 'tool.delete' }, RpcErrorCode.methodNotFound],
+    ['an inherited property as method', { jsonrpc: '2.0', id: 2, method: 'toString' }, RpcErrorCode.methodNotFound],
+    ['a missing parameter', { jsonrpc: '2.0', id: 2, method: 'tool.call' }, RpcErrorCode.invalidParams],
+  ])('reports %s', async (_label, message, code) => {
+    const response = await call(message);
+    expect(response.error.code).toBe(code);
+  });
+
+  it('passes on the code and data of an RpcError', async () => {
+    await expect(call({ jsonrpc: '2.0', id: 'a', method: 'task.fail' })).resolves.toEqual({
+      jsonrpc: '2.0', id: 'a', error: { code: RpcErrorCode.invalidParams, message: 'bad task', data: { taskId: 7 } },
+    });
+  });
+
+  it('reports any other failure as an internal error', async () => {
+    await expect(call({ jsonrpc: '2.0', id: 3, method: 'task.crash' })).resolves.toEqual({
+      jsonrpc: '2.0', id: 3, error: { code: RpcErrorCode.internalError, message: 'disk full' },
+    });
+  });
+});
+
+describe('toJson', () => {
+  it('sends errors as their name and message', () => {
+    expect(toJson(new TypeError('nope'))).toEqual({ name: 'TypeError', message: 'nope' });
+    expect(toJson({ failed: new Error('inner') })).toEqual({ failed: { name: 'Error', message: 'inner' } });
+  });
+
+  it('falls back to the string form of what JSON cannot carry', () => {
+    const circular: any = { name: 'loop' };
+    circular.self = circular;
+    expect(toJson(circular)).toBe('[object Object]');
+    expect(toJson(undefined)).toBeNull();
+    expect(toJson({ when: undefined, n: 1 })).toEqual({ n: 1 });
+  });
+});
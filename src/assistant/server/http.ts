@@ -0,0 +1,133 @@
+// server/http.ts
+// POST /rpc takes one JSON-RPC request and answers it when the call completes.
+// GET /events streams the sessions' task events as server-sent events, all of
+// them or only those of `?session=<id>`. Every request must carry
+// `Authorization: Bearer <token>` (or `?token=`, for EventSource clients that
+// cannot set headers). Browsers are turned away: a request with an Origin
+// header is refused, and /rpc only takes application/json, which a page
+// cannot send cross-origin without a preflight we never answer.
+import http from 'http';
+import crypto from 'crypto';
+import { log } from '../logger';
+import { handleRpc, RpcErrorCode, RpcMethods } from './protocol';
+import { ServerSessionManager } from './sessions';
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  token: string;
+}
+
+export const defaultServerPort = Number(process.env.AGENT_SERVER_PORT) || 7411;
+
+const maxBodyBytes = 10 * 1024 * 1024;
+
+// For when AGENT_SERVER_TOKEN is not set; printed at startup.
+export function generateServerToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function authorized(request: http.IncomingMessage, url: URL, token: string): boolean {
+  const header = request.headers.authorization || '';
+  const given = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : url.searchParams.get('token') || '';
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function isJson(request: http.IncomingMessage): boolean {
+  return (request.headers['content-type'] || '').split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: any) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        reject(new Error(`Request body exceeds ${maxBodyBytes} bytes`));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function streamEvents(request: http.IncomingMessage, response: http.ServerResponse, sessions: ServerSessionManager, sessionId: string | null) {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  response.write(': connected\n\n');
+  const unsubscribe = sessions.subscribe(event => {
+    if (sessionId && event.session !== sessionId) return;
+    response.write(`event: ${event.event}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  // keeps proxies and idle timeouts from closing a quiet stream
+  const keepAlive = setInterval(() => response.write(': keep-alive\n\n'), 15000);
+  request.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+}
+
+export function startHttpServer(methods: RpcMethods, sessions: ServerSessionManager, options: HttpServerOptions): Promise<http.Server> {
+  if (!options.token) {
+    return Promise.reject(new Error('The HTTP server needs a token'));
+  }
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (request.headers.origin !== undefined) {
+      sendJson(response, 403, { error: 'Browser requests are not accepted' });
+      return;
+    }
+    if (!authorized(request, url, options.token)) {
+      sendJson(response, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (request.method === 'GET' && url.pathname === '/events') {
+      streamEvents(request, response, sessions, url.searchParams.get('session'));
+      return;
+    }
+    if (request.method !== 'POST' || url.pathname !== '/rpc') {
+      sendJson(response, 404, { error: 'Use POST /rpc or GET /events' });
+      return;
+    }
+    if (!isJson(request)) {
+      sendJson(response, 415, { error: 'POST /rpc takes Content-Type: application/json' });
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(request);
+    } catch (error) {
+      sendJson(response, 413, { jsonrpc: '2.0', id: null, error: { code: RpcErrorCode.invalidRequest, message: error.message } });
+      return;
+    }
+    const reply = await handleRpc(methods, body);
+    if (reply) {
+      sendJson(response, 200, reply);
+    } else {
+      response.writeHead(204);
+      response.end();
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host || '127.0.0.1', () => {
+      server.off('error', reject);
+      const address = server.address();
+      log('info', `Listening on http://${options.host || '127.0.0.1'}:${typeof address === 'object' && address ? address.port : options.port}`, 'Server');
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,119 @@
+// server/methods.ts
+// The methods the server exposes. Calls that take a `session` run in that
+// session, or in the first one when it is omitted.
+import ToolRegistry from '../toolRegistry';
+import { requireParam, RpcError, RpcErrorCode, RpcMethods } from './protocol';
+import { ServerSession, ServerSessionManager } from './sessions';
+
+function describeSession(session: ServerSession) {
+  return { id: session.id, createdAt: session.createdAt, lastUsedAt: session.lastUsedAt };
+}
+
+export function createServerMethods(toolRegistry: ToolRegistry, sessions: ServerSessionManager): RpcMethods {
+  const sessionFor = (params: any): ServerSession => {
+    const session = params.session !== undefined ? sessions.get(String(params.session)) : sessions.list()[0];
+    if (!session) {
+      throw new RpcError(RpcErrorCode.invalidParams, params.session !== undefined ? `Unknown session: ${params.session}` : 'No session is open');
+    }
+    return session;
+  };
+
+  const toolNamed = (name: string) => {
+    const tool = toolRegistry.getTools()[name];
+    if (!tool) throw new RpcError(RpcErrorCode.invalidParams, `Tool not found: ${name}`);
+    return tool;
+  };
+
+  return {
+    'agent.call': async (params) => {
+      const input = requireParam(params, 'input');
+      const session = sessionFor(params);
+      const response = await sessions.run(session, () => session.assistant.callAgent(input, params.model, params.resultVar));
+      return { session: session.id, ...response };
+    },
+
+    'tool.call': async (params) => {
+      const name = requireParam(params, 'name');
+      const session = sessionFor(params);
+      return sessions.run(session, () => toolRegistry.callTool(name, params.params || {}));
+    },
+
+    'tools.list': async () => (await toolRegistry.getToolList()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      version: tool.version,
+      tags: tool.tags,
+    })),
+
+    'tools.get': async (params) => {
+      const tool = toolNamed(requireParam(params, 'name'));
+      return { name: tool.name, description: tool.description, version: tool.version, tags: tool.tags, schema: tool.schema, source: tool.source };
+    },
+
+    'tools.add': async (params) => {
+      const name = requireParam(params, 'name');
+      const added = await toolRegistry.addTool(name, requireParam(params, 'source'), params.schema || {}, params.tags || [], params.reason || 'added over the server API');
+      if (!added) throw new RpcError(RpcErrorCode.invalidParams, `Tool '${name}' already exists`);
+      return { name, added };
+    },
+
+    'tools.update': async (params) => {
+      const tool = toolNamed(requireParam(params, 'name'));
+      const updated = await toolRegistry.updateTool(tool.name, requireParam(params, 'source'), params.schema || tool.schema, params.tags || tool.tags, params.reason || 'updated over the server API');
+      return { name: tool.name, updated };
+    },
+
+    'tools.remove': async (params) => {
+      const name = requireParam(params, 'name');
+      toolNamed(name);
+      return { name, removed: await toolRegistry.removeTool(name, params.reason || 'removed over the server API') };
+    },
+
+    'tools.history': async (params) => toolRegistry.getToolHistory(toolNamed(requireParam(params, 'name')).name),
+
+    'tools.rollback': async (params) => {
+      const tool = toolNamed(requireParam(params, 'name'));
+      return { name: tool.name, rolledBack: await toolRegistry.rollbackTool(tool.name, requireParam(params, 'version')) };
+    },
+
+    'memory.search': async (params) => {
+      const query = requireParam(params, 'query');
+      const threshold = typeof params.threshold === 'number' ? params.threshold : 0;
+      return sessionFor(params).assistant.memoryStore.findSimilarMemories(query, threshold);
+    },
+
+    'memory.list': async (params) => sessionFor(params).assistant.memoryStore.listMemories(),
+
+    'sessions.list': async () => sessions.list().map(describeSession),
+
+    'sessions.create': async () => describeSession(sessions.create()),
+
+    'sessions.close': async (params) => {
+      const id = requireParam(params, 'id');
+      if (!sessions.close(id)) throw new RpcError(RpcErrorCode.invalidParams, `Unknown session: ${id}`);
+      return { id, closed: true };
+    },
+
+    'runs.list': async (params) => sessionFor(params).assistant.listRuns().map(run => ({
+      id: run.id,
+      input: run.input,
+      status: run.status,
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+      tasks: Object.fromEntries(Object.entries(run.tasks).map(([id, task]) => [id, task.status])),
+    })),
+
+    'runs.get': async (params) => {
+      const id = requireParam(params, 'id');
+      const run = sessionFor(params).assistant.runJournal.get(id);
+      if (!run) throw new RpcError(RpcErrorCode.invalidParams, `Run not found: ${id}`);
+      return run;
+    },
+
+    'runs.resume': async (params) => {
+      const id = requireParam(params, 'id');
+      const session = sessionFor(params);
+      return sessions.run(session, () => session.assistant.resumeRun(id, params.retry));
+    },
+  };
+}
@@ -0,0 +1,87 @@
+// server/protocol.ts
+// JSON-RPC 2.0, spoken over both server transports: one request per HTTP POST
+// to /rpc, or one request per line on stdio.
+import { log } from '../logger';
+
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: any;
+}
+
+export interface RpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+export const RpcErrorCode = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+};
+
+export class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export type RpcMethod = (params: any) => Promise<any>;
+export type RpcMethods = { [name: string]: RpcMethod };
+
+// Tool results and task data can be anything; what does not survive
+// JSON.stringify is sent as its string form, errors as their message.
+export function toJson(value: any): any {
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  try {
+    const json = JSON.stringify(value, (key, item) => item instanceof Error ? { name: item.name, message: item.message } : item);
+    return json === undefined ? null : JSON.parse(json);
+  } catch (error) {
+    return String(value);
+  }
+}
+
+export function requireParam(params: any, name: string, type: string = 'string'): any {
+  const value = params?.[name];
+  if (typeof value !== type) {
+    throw new RpcError(RpcErrorCode.invalidParams, `Missing ${type} parameter '${name}'`);
+  }
+  return value;
+}
+
+// Parses and runs one message. Notifications (no id) get no response.
+export async function handleRpc(methods: RpcMethods, message: string): Promise<RpcResponse | null> {
+  let request: RpcRequest;
+  try {
+    request = JSON.parse(message);
+  } catch (error) {
+    return { jsonrpc: '2.0', id: null, error: { code: RpcErrorCode.parseError, message: `Invalid JSON: ${error.message}` } };
+  }
+  if (!request || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    return { jsonrpc: '2.0', id: request?.id ?? null, error: { code: RpcErrorCode.invalidRequest, message: 'Expected a JSON-RPC 2.0 request' } };
+  }
+
+  const id = request.id ?? null;
+  const respond = (response: Omit<RpcResponse, 'jsonrpc' | 'id'>): RpcResponse | null =>
+    request.id === undefined ? null : { jsonrpc: '2.0', id, ...response };
+
+  const method = Object.prototype.hasOwnProperty.call(methods, request.method) ? methods[request.method] : null;
+  if (!method) {
+    return respond({ error: { code: RpcErrorCode.methodNotFound, message: `Unknown method: ${request.method}` } });
+  }
+  try {
+    return respond({ result: toJson(await method(request.params || {})) });
+  } catch (error) {
+    if (error instanceof RpcError) {
+      return respond({ error: { code: error.code, message: error.message, ...(error.data !== undefined ? { data: toJson(error.data) } : {}) } });
+    }
+    log('error', `${request.method} failed: ${error?.message || error}`, 'Server');
+    return respond({ error: { code: RpcErrorCode.internalError, message: error?.message || String(error) } });
+  }
+}
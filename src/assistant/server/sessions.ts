@@ -0,0 +1,106 @@
+// server/sessions.ts
+// Each server session has its own Assistant, and so its own conversation
+// history; sessions share the tool registry and memory. Everything a session's
+// Assistant emits (taskId, <taskId>_task, <taskId>_results, ...) is published
+// to the subscribers as a ServerEvent.
+import { ChromaClient } from 'chromadb';
+import { v4 as uuidv4 } from 'uuid';
+import { Assistant } from '../assistant';
+import ToolRegistry from '../toolRegistry';
+import { runWithUsageScope } from '../llm/usage';
+import { toJson } from './protocol';
+
+export interface ServerEvent {
+  session: string;
+  event: string;
+  // the task the event belongs to, for 'taskId' and '<taskId>_*' events
+  taskId?: string;
+  data: any;
+  at: string;
+}
+
+export interface ServerSession {
+  id: string;
+  assistant: Assistant;
+  createdAt: string;
+  lastUsedAt: string;
+  // calls in one session run one at a time, in the order received
+  queue: Promise<any>;
+}
+
+export class ServerSessionManager {
+  private sessions = new Map<string, ServerSession>();
+  private subscribers = new Set<(event: ServerEvent) => void>();
+  private taskIds = new Map<string, Set<string>>();
+
+  constructor(private toolRegistry: ToolRegistry, private chromaClient: ChromaClient) {}
+
+  create(): ServerSession {
+    const id = uuidv4().slice(0, 8);
+    const assistant = new Assistant(this.toolRegistry, this.chromaClient);
+    // nobody is at the terminal to review a plan
+    assistant.planMode = false;
+    this.forwardEvents(id, assistant);
+    const now = new Date().toISOString();
+    const session: ServerSession = { id, assistant, createdAt: now, lastUsedAt: now, queue: Promise.resolve() };
+    this.sessions.set(id, session);
+    this.taskIds.set(id, new Set());
+    return session;
+  }
+
+  get(id: string): ServerSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  list(): ServerSession[] {
+    return [...this.sessions.values()];
+  }
+
+  close(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    session.assistant.removeAllListeners();
+    this.sessions.delete(id);
+    this.taskIds.delete(id);
+    return true;
+  }
+
+  // Runs `fn` after the session's earlier calls, charged to the session.
+  run<T>(session: ServerSession, fn: () => Promise<T>): Promise<T> {
+    const result = session.queue.then(() => {
+      session.lastUsedAt = new Date().toISOString();
+      return runWithUsageScope({ sessionId: session.id, requestId: uuidv4() }, fn);
+    });
+    session.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  subscribe(listener: (event: ServerEvent) => void): () => void {
+    this.subscribers.add(listener);
+    return () => this.subscribers.delete(listener);
+  }
+
+  // eventemitter3 has no catch-all listener, so the Assistant's emit is wrapped.
+  private forwardEvents(sessionId: string, assistant: Assistant) {
+    const emit = assistant.emit.bind(assistant);
+    assistant.emit = ((event: string, ...args: any[]) => {
+      this.publish(sessionId, String(event), args[0]);
+      return emit(event, ...args);
+    }) as any;
+  }
+
+  private publish(sessionId: string, event: string, data: any) {
+    const known = this.taskIds.get(sessionId);
+    let taskId: string | undefined;
+    if (event === 'taskId') {
+      taskId = String(data);
+      known?.add(taskId);
+    } else {
+      const separator = event.lastIndexOf('_');
+      if (separator > 0 && known?.has(event.slice(0, separator))) taskId = event.slice(0, separator);
+    }
+    if (this.subscribers.size === 0) return;
+    const serverEvent: ServerEvent = { session: sessionId, event, ...(taskId ? { taskId } : {}), data: toJson(data), at: new Date().toISOString() };
+    for (const listener of this.subscribers) listener(serverEvent);
+  }
+}
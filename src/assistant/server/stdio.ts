@@ -0,0 +1,33 @@
+// server/stdio.ts
+// JSON-RPC over stdin/stdout, one message per line, for a parent process that
+// spawns the assistant. Task events arrive as `event` notifications. Requests
+// are handled as they arrive, so responses may come back out of order.
+import readline from 'readline';
+import { Readable, Writable } from 'stream';
+import { handleRpc, RpcMethods } from './protocol';
+import { ServerSessionManager } from './sessions';
+
+// Resolves once the input has closed and every request has been answered.
+export function serveStdio(methods: RpcMethods, sessions: ServerSessionManager, input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+  const send = (message: any) => output.write(`${JSON.stringify(message)}\n`);
+  const unsubscribe = sessions.subscribe(event => send({ jsonrpc: '2.0', method: 'event', params: event }));
+  const pending = new Set<Promise<void>>();
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  lines.on('line', line => {
+    if (!line.trim()) return;
+    const handled = handleRpc(methods, line).then(reply => {
+      if (reply) send(reply);
+    });
+    pending.add(handled);
+    handled.finally(() => pending.delete(handled));
+  });
+
+  return new Promise(resolve => {
+    lines.on('close', async () => {
+      await Promise.all(pending);
+      unsubscribe();
+      resolve();
+    });
+  });
+}
@@ -5,6 +5,11 @@ import ToolRegistry from './toolRegistry';
 import { log, setLogLevel, toggleService } from './logger';
 import chalk from "chalk";
 import boxen from "boxen";
+import fs from 'fs';
+import path from 'path';
+import { reviewChange } from './confirmation';
+import { PendingChange } from './approval';
+import { describeSuite } from './testing/results';
 
 export const createSystemTools = (ui: UI, toolRegistry: ToolRegistry, sessionManager: any) => ({
   showHelp: {
@@ -24,7 +29,14 @@ Available commands:
 - Enable/Disable logging: Turn logging on or off for a service
 - Switch theme: Change the UI theme
 - Clear screen: Clear the terminal display
-- Manage tools: List, add, update, or get history of tools
+- Manage tools: .tool list | add | update | history | rollback | diff | blame | test | golden | invocations | promote | deps
+- Review AI-made tool changes: .review [list | approve <id> | reject <id> | <id>]
+- Continue agent runs: .runs list | resume <id> | retry <id> <taskId>
+- Ephemeral scripts: .scripts list [runId] | show <id> | promote <id> [toolName] | discard <id>
+- MCP servers: .mcp list | enable <server> | disable <server> | reconnect <server>
+- Tool dev mode: .dev [on | off] reloads and tests tools saved under tools/
+- Plugins: .plugins lists the _tools modules and the tools they registered
+- .usage [session|tool|json]: Show LLM token, latency and cost usage
       `;
       ui.updateOutput(boxen(helpText, { padding: 1 }));
     }
@@ -157,6 +169,22 @@ Available commands:
       }
     }
   },
+  showUsage: {
+    name: 'showUsage',
+    description: 'Show LLM token, latency and cost usage',
+    execute: async (session: any, args: string[] = []) => {
+      const filter = args.includes('session') ? { sessionId: session.id } : {};
+      if (args.includes('json')) {
+        const report = await toolRegistry.generateUsageReport('json', filter);
+        const reportPath = path.join(process.cwd(), 'usage-report.json');
+        fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+        ui.updateOutput(`Usage report written to ${reportPath}`, 'success');
+        return;
+      }
+      const report = await toolRegistry.generateUsageReport('text', filter) as string;
+      ui.updateOutput(boxen(report, { padding: 1 }), 'info');
+    }
+  },
   getToolHistory: {
     name: 'getToolHistory',
     description: 'Get the version history of a tool',
@@ -165,11 +193,414 @@ Available commands:
         const history = await toolRegistry.getToolHistory(name);
         ui.updateOutput(`Version history for tool '${name}':`);
         history.forEach((version: any) => {
-          ui.updateOutput(` v${version.version} - ${version.date}`);
+          ui.updateOutput(` v${version.version} - ${version.date} (${version.reason})${version.current ? chalk.green(' (current)') : ''}`);
         });
       } catch (error) {
         ui.updateOutput(`Error getting tool history: ${error.message}`, 'error');
       }
     }
+  },
+  rollbackTool: {
+    name: 'rollbackTool',
+    description: 'Restore a tool to one of its earlier versions',
+    execute: async (name: string, version: string) => {
+      const rolledBack = await toolRegistry.rollbackTool(name, version);
+      if (rolledBack) {
+        ui.updateOutput(chalk.green(`Tool '${name}' rolled back to v${version}.`), 'success');
+      } else {
+        ui.updateOutput(chalk.yellow(`Could not roll back tool '${name}' to v${version}.`), 'warning');
+      }
+    }
+  },
+  diffTool: {
+    name: 'diffTool',
+    description: 'Show the differences between two versions of a tool',
+    execute: async (name: string, fromVersion: string, toVersion: string) => {
+      try {
+        const diff = await toolRegistry.diffToolVersions(name, fromVersion, toVersion);
+        if (!diff) {
+          ui.updateOutput(`No differences between v${fromVersion} and v${toVersion} of '${name}'.`, 'info');
+          return;
+        }
+        const colored = diff.split('\n').map(line => {
+          if (line.startsWith('@@') || line.startsWith('diff --git')) return chalk.cyan(line);
+          if (line.startsWith('+')) return chalk.green(line);
+          if (line.startsWith('-')) return chalk.red(line);
+          return line;
+        }).join('\n');
+        ui.updateOutput(colored);
+      } catch (error) {
+        ui.updateOutput(`Error diffing tool: ${error.message}`, 'error');
+      }
+    }
+  },
+  blameTool: {
+    name: 'blameTool',
+    description: 'Show which version of a tool last changed each line, and why',
+    execute: async (name: string) => {
+      try {
+        const lines = await toolRegistry.blameTool(name);
+        const width = String(lines.length).length;
+        lines.forEach(line => {
+          const origin = chalk.gray(`${line.commit} v${line.version.padEnd(8)} ${line.reason.slice(0, 20).padEnd(20)}`);
+          ui.updateOutput(`${origin} ${String(line.line).padStart(width)}| ${line.content}`);
+        });
+      } catch (error) {
+        ui.updateOutput(`Error getting tool blame: ${error.message}`, 'error');
+      }
+    }
+  },
+  testTool: {
+    name: 'testTool',
+    description: 'Run the test harness of a tool and show per-test results',
+    execute: async (name: string) => {
+      try {
+        const suite = await toolRegistry.testToolByName(name);
+        ui.updateOutput(`Tests for '${name}' v${suite.version}:`);
+        if (suite.error) {
+          ui.updateOutput(chalk.red(`  ${suite.error}`), 'error');
+        }
+        suite.tests.forEach(test => {
+          const mark = test.status === 'passed' ? chalk.green('✓') : test.status === 'failed' ? chalk.red('✗') : chalk.yellow('-');
+          ui.updateOutput(`  ${mark} ${test.name} (${test.durationMs}ms)${test.error ? chalk.gray(` - ${test.error}`) : ''}`);
+        });
+        const previous = toolRegistry.getTestHistory(name, 6).slice(0, -1);
+        const trend = previous.map(run => `${run.passed}/${run.tests.length}`).join(' ');
+        ui.updateOutput(`${suite.passed} passed, ${suite.failed} failed, ${suite.skipped} skipped in ${suite.durationMs}ms${trend ? chalk.gray(` (previous runs: ${trend})`) : ''}`);
+      } catch (error) {
+        ui.updateOutput(`Error testing tool: ${error.message}`, 'error');
+      }
+    }
+  },
+  goldenTests: {
+    name: 'goldenTests',
+    description: 'Approve tests of a tool as its golden regression suite, or list them',
+    execute: async (name: string, testNames: string[] = []) => {
+      try {
+        if (testNames[0] === 'list') {
+          const golden = toolRegistry.getGoldenTests(name);
+          ui.updateOutput(golden
+            ? `Golden tests of '${name}' (approved on v${golden.approvedVersion}, ${golden.approvedAt}): ${[...golden.tests, ...(golden.cases || []).map(testCase => testCase.name)].join(', ')}`
+            : `Tool '${name}' has no golden tests.`, 'info');
+          return;
+        }
+        const golden = await toolRegistry.approveGoldenTests(name, testNames);
+        ui.updateOutput(chalk.green(`Golden tests of '${name}': ${golden.tests.join(', ')}`), 'success');
+      } catch (error) {
+        ui.updateOutput(`Error approving golden tests: ${error.message}`, 'error');
+      }
+    }
+  },
+  listInvocations: {
+    name: 'listInvocations',
+    description: 'List recorded real invocations of a tool',
+    execute: async (name: string) => {
+      const invocations = toolRegistry.listInvocations(name);
+      if (invocations.length === 0) {
+        ui.updateOutput(`No recorded invocations of '${name}'.`, 'info');
+        return;
+      }
+      const truncate = (value: any) => {
+        const text = JSON.stringify(value) ?? 'undefined';
+        return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+      };
+      invocations.slice(-20).forEach(invocation => {
+        ui.updateOutput(`${invocation.id}  v${invocation.version}  ${invocation.durationMs}ms  ${truncate(invocation.params)} -> ${truncate(invocation.result)}`);
+      });
+    }
+  },
+  promoteInvocation: {
+    name: 'promoteInvocation',
+    description: 'Promote a recorded invocation to a golden regression test',
+    execute: async (name: string, invocationId: string) => {
+      try {
+        const golden = await toolRegistry.promoteInvocation(name, invocationId);
+        ui.updateOutput(chalk.green(`Invocation ${invocationId} is now a golden test of '${name}' (${golden.cases.length} recorded cases).`), 'success');
+      } catch (error) {
+        ui.updateOutput(`Error promoting invocation: ${error.message}`, 'error');
+      }
+    }
+  },
+  toolDependencies: {
+    name: 'toolDependencies',
+    description: 'Show, declare or install the npm packages of a tool',
+    execute: async (name: string, args: string[] = []) => {
+      const [subcommand, ...specs] = args;
+      const tool = toolRegistry.getTools()[name];
+      if (!tool) {
+        ui.updateOutput(`Tool not found: ${name}`, 'error');
+        return;
+      }
+      try {
+        if (subcommand === 'add' && specs.length > 0) {
+          if (!(await toolRegistry.declareDependencies(name, specs))) {
+            ui.updateOutput(`Could not update the dependencies of '${name}'.`, 'error');
+            return;
+          }
+        } else if (subcommand === 'install') {
+          await toolRegistry.ensureDependencies(tool);
+        } else if (subcommand) {
+          ui.updateOutput('Usage: .tool deps <name> [add <pkg@range> ... | install]', 'info');
+          return;
+        }
+        const current = toolRegistry.getTools()[name];
+        // declared packages, and those the source loads without declaring them
+        const declared = toolRegistry.dependencies.declare(current.source, current.metadata?.dependencies);
+        const missing = toolRegistry.dependencies.missing(current).map(spec => spec.name);
+        ui.updateOutput(`Dependencies of '${name}' v${current.version}:${declared.length === 0 ? ' none' : ''}`);
+        declared.forEach(spec => {
+          const packageName = spec.slice(0, spec.indexOf('@', 1));
+          ui.updateOutput(`  ${missing.includes(packageName) ? chalk.red('✗') : chalk.green('✓')} ${spec}${missing.includes(packageName) ? chalk.gray(' (not installed)') : ''}`);
+        });
+      } catch (error) {
+        ui.updateOutput(`Error with dependencies of '${name}': ${error.message}`, 'error');
+      }
+    }
+  },
+  manageRuns: {
+    name: 'manageRuns',
+    description: 'List journaled agent runs and resume or retry them',
+    execute: async (args: string[] = []) => {
+      const [subcommand, id, taskId] = args;
+      // runs belong to the assistant, which is only there when main.ts created one
+      const assistant = sessionManager.assistant;
+      if (!assistant) {
+        ui.updateOutput('No assistant is attached to this session manager.', 'error');
+        return;
+      }
+
+      if (!subcommand || subcommand === 'list') {
+        const runs = assistant.listRuns();
+        if (runs.length === 0) {
+          ui.updateOutput('No agent runs recorded.', 'info');
+        }
+        runs.forEach((run: any) => {
+          const states: any[] = Object.values(run.tasks);
+          const done = states.filter(state => state.status === 'succeeded').length;
+          const unfinished = Object.keys(run.tasks).filter(task => run.tasks[task].status !== 'succeeded');
+          const status = run.status === 'completed' ? chalk.green(run.status) : run.status === 'running' ? chalk.cyan(run.status) : chalk.yellow(run.status);
+          ui.updateOutput(`${run.id}  ${status}  ${done}/${states.length} tasks  ${run.createdAt}  ${run.input.slice(0, 60)}${unfinished.length > 0 ? `  (unfinished: ${unfinished.join(', ')})` : ''}`);
+        });
+        return;
+      }
+      if ((subcommand !== 'resume' && subcommand !== 'retry') || !id || (subcommand === 'retry' && !taskId)) {
+        ui.updateOutput('Usage: .runs list | resume <id> | retry <id> <taskId>', 'info');
+        return;
+      }
+
+      const result = await assistant.resumeRun(id, subcommand === 'retry' ? taskId : undefined);
+      if (result.error) {
+        ui.updateOutput(`Run ${id}: ${result.error.message}`, 'error');
+      }
+      (Array.isArray(result.data) ? result.data : []).forEach((task: any) => {
+        ui.updateOutput(task.error
+          ? chalk.yellow(`${task.id}: ${task.status} - ${task.error}`)
+          : `${task.id}: ${typeof task.result === 'string' ? task.result : JSON.stringify(task.result)}`);
+      });
+      if (!result.error) {
+        ui.updateOutput(result.success ? chalk.green(`Run ${id} completed.`) : chalk.yellow(`Run ${id} still has unfinished tasks.`), result.success ? 'success' : 'warning');
+      }
+    }
+  },
+  manageScripts: {
+    name: 'manageScripts',
+    description: 'List, inspect, promote or discard ephemeral scripts',
+    execute: async (args: string[] = []) => {
+      const [subcommand, id, name] = args;
+      if (!subcommand || subcommand === 'list') {
+        const scripts = toolRegistry.listScripts(id);
+        if (scripts.length === 0) {
+          ui.updateOutput('No ephemeral scripts.', 'info');
+        }
+        scripts.forEach(script => {
+          const lastRun = script.lastRun ? (script.lastRun.success ? chalk.green('ok') : chalk.red('failed')) : chalk.gray('not run');
+          ui.updateOutput(`${script.id}  ${lastRun}  used ${script.useCount}x  expires ${script.expiresAt}  ${script.description}`);
+        });
+        return;
+      }
+
+      const script = id ? toolRegistry.scripts.get(id) : null;
+      if (!script) {
+        ui.updateOutput(id ? `Script not found: ${id}` : 'Usage: .scripts list [runId] | show <id> | promote <id> [toolName] | discard <id>', id ? 'error' : 'info');
+        return;
+      }
+      switch (subcommand) {
+        case 'show':
+          ui.updateOutput(`${script.id} - ${script.description}${script.lastRun?.error ? `\nLast error: ${script.lastRun.error}` : ''}\n\n${script.source}`);
+          break;
+        case 'promote':
+          try {
+            if (await toolRegistry.promoteScript(script.id, name)) {
+              ui.updateOutput(chalk.green(`Script ${script.id} added to the registry as '${name || script.name}'.`), 'success');
+            } else {
+              ui.updateOutput(chalk.yellow(`Could not add script ${script.id} as '${name || script.name}' (does a tool with that name exist?).`), 'warning');
+            }
+          } catch (error) {
+            ui.updateOutput(`Error promoting script ${script.id}: ${error.message}`, 'error');
+          }
+          break;
+        case 'discard':
+          toolRegistry.scripts.remove(script.id);
+          ui.updateOutput(`Discarded script ${script.id}.`, 'info');
+          break;
+        default:
+          ui.updateOutput('Usage: .scripts list [runId] | show <id> | promote <id> [toolName] | discard <id>', 'info');
+      }
+    }
+  },
+  manageMcp: {
+    name: 'manageMcp',
+    description: 'List MCP servers and enable, disable or reconnect them',
+    execute: async (args: string[] = []) => {
+      const [subcommand, server] = args;
+      const mcp = sessionManager.mcp;
+      if (!mcp) {
+        ui.updateOutput('MCP servers are not set up in this session manager.', 'error');
+        return;
+      }
+
+      if (!subcommand || subcommand === 'list') {
+        const servers = mcp.status();
+        if (servers.length === 0) {
+          ui.updateOutput('No MCP servers configured. Add them under "mcp.servers" in config.json.', 'info');
+        }
+        servers.forEach(state => {
+          const status = state.status === 'connected' ? chalk.green(state.status) : state.status === 'error' ? chalk.red(state.status) : chalk.gray(state.status);
+          ui.updateOutput(`${state.name}  ${status}  ${state.tools.length} tools${state.error ? `  ${chalk.yellow(state.error)}` : ''}`);
+          if (state.tools.length > 0) {
+            ui.updateOutput(`  ${state.tools.join(', ')}`);
+          }
+        });
+        return;
+      }
+      if (!['enable', 'disable', 'reconnect'].includes(subcommand) || !server) {
+        ui.updateOutput('Usage: .mcp list | enable <server> | disable <server> | reconnect <server>', 'info');
+        return;
+      }
+
+      try {
+        if (subcommand === 'disable') {
+          await mcp.disable(server);
+        } else if (subcommand === 'enable') {
+          await mcp.enable(server);
+        } else {
+          await mcp.connect(server);
+        }
+        const state = mcp.status().find(entry => entry.name === server);
+        ui.updateOutput(`${server}: ${state.status}${state.error ? ` - ${state.error}` : ''}`, state.status === 'error' ? 'error' : 'success');
+      } catch (error) {
+        ui.updateOutput(error.message, 'error');
+      }
+    }
+  },
+  manageDevMode: {
+    name: 'manageDevMode',
+    description: 'Turn the tool hot-reload dev loop on or off',
+    execute: async (args: string[] = []) => {
+      const [subcommand] = args;
+      const watcher = sessionManager.toolWatcher;
+      if (subcommand === 'on') {
+        await sessionManager.initializeToolWatcher();
+      } else if (subcommand === 'off') {
+        await sessionManager.stopToolWatcher();
+      } else if (subcommand) {
+        ui.updateOutput('Usage: .dev [on | off]', 'info');
+        return;
+      }
+      ui.updateOutput(watcher.watching
+        ? `Dev mode is on: saving a tool in ${watcher.toolsDir} reloads and tests it.`
+        : 'Dev mode is off. `.dev on` or `--dev` turns it on.', 'info');
+    }
+  },
+  listPlugins: {
+    name: 'listPlugins',
+    description: 'List the plugin modules and the tools they registered',
+    execute: async () => {
+      const plugins = sessionManager.plugins;
+      if (!plugins) {
+        ui.updateOutput('Plugins are not set up in this session manager.', 'error');
+        return;
+      }
+      if (plugins.reports.length === 0) {
+        ui.updateOutput('No plugin modules found.', 'info');
+        return;
+      }
+      plugins.reports.forEach(report => {
+        const status = report.status === 'loaded' ? chalk.green(report.status) : report.status === 'failed' ? chalk.red(report.status) : chalk.gray(report.status);
+        ui.updateOutput(`${path.relative(process.cwd(), report.file)}  ${status}${report.shapes.length > 0 ? `  (${report.shapes.join(', ')})` : ''}${report.error ? `  ${chalk.yellow(report.error.split('\n')[0])}` : ''}`);
+        if (report.tools.length > 0) {
+          ui.updateOutput(`  ${report.tools.join(', ')}`);
+        }
+        if (report.skipped.length > 0) {
+          ui.updateOutput(chalk.gray(`  skipped: ${report.skipped.join(', ')}`));
+        }
+      });
+    }
+  },
+  reviewChanges: {
+    name: 'reviewChanges',
+    description: 'Approve or reject pending AI-made tool changes',
+    execute: async (args: string[] = []) => {
+      const [subcommand, id] = args;
+      const describe = (change: PendingChange) =>
+        `${change.id}  ${change.action} ${change.tool} (from v${change.baseVersion}) - ${change.reason} - proposed ${change.proposedAt}`;
+      const decide = async (change: PendingChange, approve: boolean) => {
+        try {
+          if (!approve) {
+            toolRegistry.rejectToolChange(change.id);
+            ui.updateOutput(chalk.yellow(`Rejected ${change.action} of '${change.tool}'.`), 'warning');
+          } else if (await toolRegistry.approveToolChange(change.id)) {
+            ui.updateOutput(chalk.green(`Applied ${change.action} of '${change.tool}'.`), 'success');
+          } else {
+            ui.updateOutput(chalk.yellow(`Could not apply ${change.action} of '${change.tool}'.`), 'warning');
+          }
+        } catch (error) {
+          ui.updateOutput(`Error reviewing change ${change.id}: ${error.message}`, 'error');
+        }
+      };
+
+      const pending = toolRegistry.listPendingChanges();
+      if (subcommand === 'list') {
+        if (pending.length === 0) {
+          ui.updateOutput('No pending tool changes.', 'info');
+        }
+        pending.forEach(change => ui.updateOutput(describe(change)));
+        return;
+      }
+      if (subcommand === 'approve' || subcommand === 'reject') {
+        const change = pending.find(c => c.id === id);
+        if (!change) {
+          ui.updateOutput(`Pending change not found: ${id}`, 'error');
+          return;
+        }
+        await decide(change, subcommand === 'approve');
+        return;
+      }
+
+      // Interactive: step through every pending change (or just the given one).
+      const queue = subcommand ? pending.filter(c => c.id === subcommand) : pending;
+      if (queue.length === 0) {
+        ui.updateOutput(subcommand ? `Pending change not found: ${subcommand}` : 'No pending tool changes.', 'info');
+        return;
+      }
+      ui.readlineInterface.pause();
+      try {
+        for (const [index, change] of queue.entries()) {
+          const details = [
+            describe(change),
+            `Last test result: ${change.testResult ? `${change.testResult.success ? 'passed' : 'failed'} - ${change.testResult.message}` : 'none'}`,
+            `Golden tests on the proposed source: ${change.regression ? describeSuite(change.regression) : 'none'}`,
+            '',
+            change.diff || '(no diff)',
+          ].join('\n');
+          const decision = await reviewChange(`Change ${index + 1}/${queue.length}: ${change.tool}`, details);
+          if (decision !== 'skip') {
+            await decide(change, decision === 'approve');
+          }
+        }
+      } finally {
+        ui.readlineInterface.resume();
+      }
+    }
   }
 });
\ No newline at end of file
@@ -1,4 +1,5 @@
 // terminalSession.ts
+import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { ChromaClient, Collection } from 'chromadb';
 import { UI } from './ui';
@@ -6,7 +7,8 @@ import ToolRegistry from './toolRegistry';
 import { createPrompts, makePromptFunction, PromptBuilder } from './prompts';
 import Conversation from './conversation';
 import { WorkflowResult } from './workflow';
-import conversation from './conversation';
+import { runWithUsageScope } from './llm/usage';
+import { Budget, BudgetExceededError, BudgetLimits, runWithBudget } from './budget';
 
 interface Memory {
   input: string;
@@ -16,10 +18,11 @@ interface Memory {
 
 export class TerminalSession {
   id: string;
-  private conversation: Conversation;
+  public conversation: Conversation;
   history: string[] = [];
   debug: boolean = false;
   savedOutput: string = '';
+  budgetLimits: Partial<BudgetLimits> = {};
   private memoryCollection: Collection;
   private prompts: any;
 
@@ -31,7 +34,7 @@ export class TerminalSession {
     private systemTools: any,
   ) {
     this.id = uuidv4();
-    this.conversation = new Conversation('claude');
+    this.conversation = new Conversation();
     this.prompts = createPrompts(this.conversation);
     this.initializeMemoryCollection();
   }
@@ -48,8 +51,14 @@ export class TerminalSession {
 
   async execute(command: string): Promise<WorkflowResult> {
     try {
+      if (command.startsWith('.')) {
+        await this.executeSpecialCommand(command);
+        return { success: true };
+      }
       this.history.push(command);
-      const result = await this.processCommand(command);
+      const budget = new Budget(this.budgetLimits);
+      const result = await runWithUsageScope({ sessionId: this.id, requestId: uuidv4() }, () =>
+        runWithBudget(budget, () => this.processCommand(command, budget)));
       return { success: true, data: result };
     } catch (error) {
       console.error('Error in TerminalSession execute:', error);
@@ -57,11 +66,109 @@ export class TerminalSession {
     }
   }
 
-  async processCommand(input: string): Promise<WorkflowResult> {
+  async executeSpecialCommand(command: string): Promise<void> {
+    const [name, ...args] = command.trim().split(/\s+/);
+    switch (name) {
+      case '.help':
+        this.systemTools.showHelp.execute();
+        break;
+      case '.debug':
+        this.systemTools.toggleDebug.execute(this);
+        break;
+      case '.history':
+        this.systemTools.showHistory.execute(this);
+        break;
+      case '.state':
+        this.systemTools.showState.execute(this);
+        break;
+      case '.exit':
+        this.systemTools.exitSession.execute();
+        break;
+      case '.usage':
+        await this.systemTools.showUsage.execute(this, args);
+        break;
+      case '.tool':
+        await this.executeToolCommand(args);
+        break;
+      case '.review':
+        await this.systemTools.reviewChanges.execute(args);
+        break;
+      case '.runs':
+        await this.systemTools.manageRuns.execute(args);
+        break;
+      case '.scripts':
+        await this.systemTools.manageScripts.execute(args);
+        break;
+      case '.mcp':
+        await this.systemTools.manageMcp.execute(args);
+        break;
+      case '.dev':
+        await this.systemTools.manageDevMode.execute(args);
+        break;
+      case '.plugins':
+        await this.systemTools.listPlugins.execute();
+        break;
+      default:
+        this.ui.updateOutput(`Unknown command: ${name}`, 'error');
+    }
+  }
+
+  private async executeToolCommand([subcommand, ...args]: string[]): Promise<void> {
+    switch (subcommand) {
+      case 'list':
+        await this.systemTools.listTools.execute();
+        break;
+      case 'add': {
+        const [name, file, tags] = args;
+        const source = fs.readFileSync(file, 'utf8');
+        await this.systemTools.addTool.execute(name, source, { name, description: name }, tags ? tags.split(',') : []);
+        break;
+      }
+      case 'update': {
+        const [name, file] = args;
+        await this.systemTools.updateTool.execute(name, fs.readFileSync(file, 'utf8'));
+        break;
+      }
+      case 'history':
+        await this.systemTools.getToolHistory.execute(args[0]);
+        break;
+      case 'rollback':
+        await this.systemTools.rollbackTool.execute(args[0], args[1]);
+        break;
+      case 'diff':
+        await this.systemTools.diffTool.execute(args[0], args[1], args[2]);
+        break;
+      case 'blame':
+        await this.systemTools.blameTool.execute(args[0]);
+        break;
+      case 'test':
+        await this.systemTools.testTool.execute(args[0]);
+        break;
+      case 'golden':
+        await this.systemTools.goldenTests.execute(args[0], args.slice(1));
+        break;
+      case 'invocations':
+        await this.systemTools.listInvocations.execute(args[0]);
+        break;
+      case 'promote':
+        await this.systemTools.promoteInvocation.execute(args[0], args[1]);
+        break;
+      case 'deps':
+        await this.systemTools.toolDependencies.execute(args[0], args.slice(1));
+        break;
+      default:
+        this.ui.updateOutput('Usage: .tool list | add <name> <file> [tags] | update <name> <file> | history <name> | rollback <name> <version> | diff <name> <v1> <v2> | blame <name> | test <name> | golden <name> [list | test ...] | invocations <name> | promote <name> <id> | deps <name> [add <pkg@range> ... | install]', 'info');
+    }
+  }
+
+  // Re-enters itself after creating new tools; `depth` counts those passes
+  // against the request budget.
+  async processCommand(input: string, budget: Budget = new Budget(this.budgetLimits), depth: number = 0): Promise<WorkflowResult> {
     try {
+      budget.enter('processCommand', depth);
       this.history.push(input);
 
-      const analyzeRequestPrompt = makePromptFunction(conversation, `Determine the best tools to use for the following task. If you need to install npm packages, return them in the "packages" field.
+      const analyzeRequestPrompt = makePromptFunction(this.conversation, `Determine the best tools to use for the following task. If you need to install npm packages, return them in the "packages" field.
 Available Tools:
 ${this.toolRegistry.getCompactRepresentation()}
 
@@ -76,6 +183,9 @@ ${await this.retrieveSimilarMemories(input)}
 - Allow your memory of past tasks to influence your decision.`, 
 '{"existingTools": ["Tool1", "Tool2"], newTools: ["tool1:<tool description including functional behavior,input params and return value", "tool2:...", ...], packages: ["package1", "package2"], "useSingleTool": false, "toolName": "Tool1", "params": {}}');
       const analysisPrompt = await analyzeRequestPrompt(input);
+      if (analysisPrompt.packages?.length > 0) {
+        await this.toolRegistry.installPackages(analysisPrompt.packages, `request "${input.slice(0, 60)}"`);
+      }
 
       if (analysisPrompt.useSingleTool) {
         const result = await this.toolRegistry.callTool(analysisPrompt.toolName, analysisPrompt.params);
@@ -86,7 +196,7 @@ ${await this.retrieveSimilarMemories(input)}
         if (analysisPrompt.newTools.length > 0) {
           for (const newTool of analysisPrompt.newTools) {
             const [ toolName, description ] = newTool.split(':');
-            const createNewToolWithLLM = makePromptFunction(conversation, `You are an AI assistant tasked with writing new tools in Javascript.
+            const createNewToolWithLLM = makePromptFunction(this.conversation, `You are an AI assistant tasked with writing new tools in Javascript.
 
 - You are given a tool name and description, along with the originating task name.
 - You must create a new tool module using the provided template.
@@ -110,12 +220,14 @@ module.exports = new ${this.slugify(newTool)}Tool();
 
 Please provide the complete standardized tool module code, including the class definition and export.`, 
 '{ "tool": "<toolName>", "description": "<description>", "methodSignature": "<method signature>", "script": "<JavaScript script formatted in template>", "packages": ["package1", "package2"] }');
-            await createNewToolWithLLM(`Tool Name: ${toolName}, Description: ${description}`);
+            const created = await createNewToolWithLLM(`Tool Name: ${toolName}, Description: ${description}`);
+            const name = created.tool || await this.slugify(toolName);
+            await this.toolRegistry.addTool(name, created.script, { name, description: created.description || description, methodSignature: created.methodSignature }, ['ai-generated'], 'ai-generated', { dependencies: created.packages || [] });
           }
-          return this.processCommand(input);
+          return this.processCommand(input, budget, depth + 1);
         }
 
-        const scriptGenerationPrompt = makePromptFunction(conversation, `Transform the given task into a sequence of subtasks, each with a JavaScript script that uses the provided tools to achieve the subtask objective.
+        const scriptGenerationPrompt = makePromptFunction(this.conversation, `Transform the given task into a sequence of subtasks, each with a JavaScript script that uses the provided tools to achieve the subtask objective.
 
 Available Tools:
 {compactRepresentation}
@@ -177,11 +289,15 @@ Include only resultVar instructions in responses, not the actual data.
 
         // Step 6: Store memory and optimize
         await this.storeMemory(input, JSON.stringify(result));
-        await this.toolRegistry.improveTools();
+        this.toolRegistry.improveToolsInBackground();
   
         return { success: true, data: result };
       }
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        this.ui.updateOutput(error.message, 'error');
+        return { success: false, data: error.toResult(), error };
+      }
       console.error('Error in TerminalSession processCommand:', error);
       return { success: false, error: error as Error };
     }
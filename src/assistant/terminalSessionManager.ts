@@ -5,7 +5,12 @@ import { ChromaClient } from 'chromadb';
 import { TerminalSession } from './terminalSession';
 import { UI } from './ui';
 import ToolRegistry from './toolRegistry';
+import { Assistant } from './assistant';
+import { McpClientManager } from './mcp/manager';
+import { PluginLoader } from './plugins/loader';
 import { createSystemTools } from './systemTools';
+import { describeReload, reloadFailed } from './toolWatcher';
+import { confirmExecution } from './confirmation';
 import os from 'os';
 
 // also the tool registry 
@@ -15,12 +20,23 @@ export class TerminalSessionManager extends ToolRegistry {
   public ui: UI;
   private toolRegistry: ToolRegistry;
   private systemTools: any;
+  // set by main.ts; `.runs` resumes runs through it
+  public assistant: Assistant | null = null;
+  // set by main.ts; `.mcp` manages the servers through it
+  public mcp: McpClientManager | null = null;
+  // set by main.ts; `.plugins` reports what it loaded
+  public plugins: PluginLoader | null = null;
 
   constructor(public chromaClient: ChromaClient) {
     super();
     this.ui = new UI();
     this.toolRegistry = new ToolRegistry();
     this.systemTools = createSystemTools(this.ui, this.toolRegistry, this);
+    // packages nobody approved yet are installed only when the user says so
+    const confirmInstall = (message: string) => confirmExecution(this, message);
+    this.dependencies.confirm = confirmInstall;
+    this.toolRegistry.dependencies.confirm = confirmInstall;
+    this.toolWatcher.on('reload', reload => this.ui.updateOutput(describeReload(reload), reloadFailed(reload) ? 'error' : 'success'));
     this.initializeSessionManagement();
   }
 
@@ -73,6 +89,8 @@ export class TerminalSessionManager extends ToolRegistry {
       this.createNewSession();
     }
     const activeSession = this.sessions[this.activeSessionIndex];
+    const onDelta = (text: string) => this.ui.updateOutput(text, 'aiResponse', true);
+    activeSession.conversation.on('delta', onDelta);
     try {
       const result = await activeSession.execute(command);
       if (result.success) {
@@ -83,6 +101,8 @@ export class TerminalSessionManager extends ToolRegistry {
     } catch (error) {
       console.error('Error executing command:', error);
       this.ui.updateOutput(`Unexpected error: ${(error as Error).message}`, 'error');
+    } finally {
+      activeSession.conversation.off('delta', onDelta);
     }
   }
 
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ToolTestRunner } from '../runner';
+
+jest.setTimeout(60000);
+
+const tool = {
+  name: 'reader',
+  version: '1.0.0',
+  tags: ['builtin'],
+  source: `export async function execute(params, api) {
+    if (params.tool) return api.callTool(params.tool, {});
+    return require('fs').readFileSync(params.file, 'utf8');
+  }`,
+};
+
+// Each test passes only if the harness gets exactly the access it should.
+const harness = `({
+  async readsItsFixtures(context) {
+    const file = context.fixtures.writeFile('input.txt', 'fixture');
+    context.assertEqual(await context.invoke({ file }), 'fixture');
+  },
+  async cannotReadTheProject(context) {
+    const error = await context.invoke({ file: ${JSON.stringify(path.join(process.cwd(), 'package.json'))} }).catch(error => error);
+    context.assert(/not allowed/.test(error.message), 'read the project: ' + error.message);
+  },
+  async getsNoSecrets(context) {
+    context.assertEqual(process.env.RUNNER_TEST_SECRET, undefined);
+  },
+  async hasNoNetwork(context) {
+    const error = await fetch('http://example.com/').catch(error => error);
+    context.assert(error instanceof Error, 'reached the network');
+  },
+  async callsStubbedTools(context) {
+    context.fixtures.stubTool('bash', 'stubbed');
+    context.assertEqual(await context.invoke({ tool: 'bash' }), 'stubbed');
+  },
+  async cannotCallRealTools(context) {
+    const error = await context.invoke({ tool: 'bash' }).catch(error => error);
+    context.assert(/not allowed/.test(error.message), 'called a real tool');
+  },
+})`;
+
+describe('ToolTestRunner', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runner-test-'));
+    process.env.RUNNER_TEST_SECRET = 'secret';
+  });
+
+  afterEach(() => {
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+    delete process.env.RUNNER_TEST_SECRET;
+  });
+
+  it('runs a trusted tool\'s harness with only its fixtures and stubs', async () => {
+    const realTools = { callTool: jest.fn(async () => 'real') };
+    const suite = await new ToolTestRunner(resultsDir).run(tool, harness, realTools);
+    expect(suite.error).toBeUndefined();
+    expect(suite.tests.filter(test => test.status !== 'passed')).toEqual([]);
+    expect(suite.tests).toHaveLength(6);
+    expect(realTools.callTool).not.toHaveBeenCalled();
+  });
+
+  it('records the run', async () => {
+    await new ToolTestRunner(resultsDir).run(tool, harness, {}, { only: ['getsNoSecrets'] });
+    const runs = fs.readFileSync(path.join(resultsDir, 'reader.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ tool: 'reader', version: '1.0.0', passed: 1 });
+  });
+});
@@ -0,0 +1,208 @@
+// testing/harness.ts
+// Runs a tool's test harness. Executed inside the sandbox child, next to the
+// tool under test, so tests and tool share the same capability limits and any
+// stubs they install stay in that process.
+//
+// A harness is an object of test functions plus optional beforeAll, afterAll,
+// beforeEach and afterEach hooks. Every function receives a context:
+//   context.invoke(params)            runs the tool under test
+//   context.log(message)
+//   context.assert(condition, message)
+//   context.assertEqual(actual, expected, message)   deep equality
+//   context.fixtures.tmpDir           empty directory, removed after the test
+//   context.fixtures.writeFile(relativePath, content) / readFile(relativePath)
+//   context.fixtures.stubFetch(urlPattern, response)  fetch() returns `response`
+//   context.fixtures.stubTool(name, result)           api.callTool(name) returns `result` (or result(params))
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isDeepStrictEqual, inspect } from 'util';
+import { InvocationCase, TestCaseResult } from './results';
+
+const hooks = ['beforeAll', 'afterAll', 'beforeEach', 'afterEach'];
+
+type Stub = { pattern: string | RegExp; response: any };
+
+export interface HarnessOptions {
+  testTimeoutMs: number;
+  // run only these tests of the harness (e.g. the golden ones)
+  only?: string[];
+  // recorded invocations to replay, each as a test of its own
+  cases?: InvocationCase[];
+}
+
+// Harness source as generated: an object literal, `const testHarness = {...}`,
+// or a module assigning `module.exports`, optionally inside a code fence.
+export function parseHarness(source: string): any {
+  const code = source.replace(/^\s*```[a-z]*\s*\n/i, '').replace(/\n\s*```\s*$/, '');
+  const module: any = { exports: {} };
+  let harness: any;
+  try {
+    harness = new Function(`return (${code});`)();
+  } catch (error) {
+    try {
+      harness = new Function('module', 'exports', 'require', `${code}\nreturn typeof testHarness !== 'undefined' ? testHarness : module.exports;`)(module, module.exports, require);
+    } catch (moduleError) {
+      throw new Error(`Invalid test harness: ${moduleError.message}`);
+    }
+  }
+  harness = harness?.default || harness;
+  if (!harness || typeof harness !== 'object' || !Object.keys(harness).some(key => !hooks.includes(key) && typeof harness[key] === 'function')) {
+    throw new Error('Test harness does not define any test functions');
+  }
+  return harness;
+}
+
+function toResponse(value: any, url: string, init: any): Promise<Response> {
+  return Promise.resolve(typeof value === 'function' ? value(url, init) : value).then(result => {
+    if (result instanceof Response) return result;
+    if (typeof result === 'string') return new Response(result);
+    return new Response(JSON.stringify(result), { headers: { 'content-type': 'application/json' } });
+  });
+}
+
+function matches(pattern: string | RegExp, value: string): boolean {
+  return typeof pattern === 'string' ? value.includes(pattern) : pattern.test(value);
+}
+
+class Fixtures {
+  fetchStubs: Stub[] = [];
+  toolStubs = new Map<string, any>();
+  tmpDir = '';
+
+  setUp(): void {
+    this.tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-test-'));
+  }
+
+  tearDown(): void {
+    this.fetchStubs = [];
+    this.toolStubs.clear();
+    if (this.tmpDir) fs.rmSync(this.tmpDir, { recursive: true, force: true });
+    this.tmpDir = '';
+  }
+
+  forContext(): any {
+    return {
+      tmpDir: this.tmpDir,
+      writeFile: (relativePath: string, content: string) => {
+        const filePath = path.join(this.tmpDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+        return filePath;
+      },
+      readFile: (relativePath: string) => fs.readFileSync(path.join(this.tmpDir, relativePath), 'utf8'),
+      stubFetch: (pattern: string | RegExp, response: any) => {
+        this.fetchStubs.push({ pattern, response });
+      },
+      stubTool: (name: string, result: any) => {
+        this.toolStubs.set(name, result);
+      },
+    };
+  }
+}
+
+// fetch() reports every connection problem as 'fetch failed'; the cause says which
+function describeError(error: any): string {
+  const message = error?.message || String(error);
+  return error?.cause?.message ? `${message}: ${error.cause.message}` : message;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export async function runHarness(
+  harness: any,
+  execute: (params: any, api: any) => Promise<any>,
+  api: any,
+  options: HarnessOptions
+): Promise<TestCaseResult[]> {
+  const fixtures = new Fixtures();
+
+  // stubs are looked up on every call, so they only apply during the test that set them
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = ((input: any, init?: any) => {
+    const url = typeof input === 'string' ? input : input?.url || String(input);
+    const stub = fixtures.fetchStubs.find(candidate => matches(candidate.pattern, url));
+    return stub ? toResponse(stub.response, url, init) : realFetch(input, init);
+  }) as typeof fetch;
+  const testApi = new Proxy(api, {
+    get: (target, key) => {
+      if (key === 'callTool') {
+        return async (name: string, params: any) => {
+          if (!fixtures.toolStubs.has(name)) return target.callTool(name, params);
+          const stub = fixtures.toolStubs.get(name);
+          return typeof stub === 'function' ? stub(params) : stub;
+        };
+      }
+      return target[key];
+    },
+  });
+
+  const makeContext = (logs: string[]) => ({
+    invoke: (params: any = {}) => execute(params, testApi),
+    log: (message: any) => logs.push(typeof message === 'string' ? message : inspect(message)),
+    assert: (condition: any, message: string = 'Assertion failed') => {
+      if (!condition) throw new Error(message);
+    },
+    assertEqual: (actual: any, expected: any, message?: string) => {
+      if (!isDeepStrictEqual(actual, expected)) {
+        throw new Error(`${message ? `${message}: ` : ''}expected ${inspect(expected)}, got ${inspect(actual)}`);
+      }
+    },
+    fixtures: fixtures.forContext(),
+  });
+  const runHook = async (hook: string, logs: string[]) => {
+    if (typeof harness[hook] === 'function') {
+      await withTimeout(Promise.resolve(harness[hook](makeContext(logs))), options.testTimeoutMs, hook);
+    }
+  };
+
+  harness = { ...harness };
+  for (const testCase of options.cases || []) {
+    harness[testCase.name] = async (context: any) =>
+      context.assertEqual(await context.invoke(testCase.params), testCase.expected, `invocation ${testCase.invocationId}`);
+  }
+  const caseNames = (options.cases || []).map(testCase => testCase.name);
+  const testNames = Object.keys(harness)
+    .filter(key => !hooks.includes(key) && typeof harness[key] === 'function')
+    .filter(key => !options.only || options.only.includes(key) || caseNames.includes(key));
+  const results: TestCaseResult[] = [];
+  const suiteLogs: string[] = [];
+  try {
+    try {
+      await runHook('beforeAll', suiteLogs);
+    } catch (error) {
+      return testNames.map(name => ({ name, status: 'skipped', durationMs: 0, error: `beforeAll failed: ${error.message}`, logs: suiteLogs }));
+    }
+
+    for (const name of testNames) {
+      const logs: string[] = [];
+      const start = Date.now();
+      fixtures.setUp();
+      try {
+        await runHook('beforeEach', logs);
+        await withTimeout(Promise.resolve(harness[name](makeContext(logs))), options.testTimeoutMs, name);
+        await runHook('afterEach', logs);
+        results.push({ name, status: 'passed', durationMs: Date.now() - start, logs });
+      } catch (error) {
+        results.push({ name, status: 'failed', durationMs: Date.now() - start, error: describeError(error), logs });
+      } finally {
+        fixtures.tearDown();
+      }
+    }
+
+    try {
+      await runHook('afterAll', suiteLogs);
+    } catch (error) {
+      suiteLogs.push(`afterAll failed: ${error.message}`);
+    }
+    return results;
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
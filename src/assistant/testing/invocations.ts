@@ -0,0 +1,140 @@
+// testing/invocations.ts
+// Samples successful tool calls made while serving real requests. Each kept
+// call (params, result, timing, environment) can be promoted to a golden test
+// case and is shown to the model as an example when it rewrites or tests the
+// tool. Stored per tool in `<dir>/<tool>.jsonl`.
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../logger';
+
+export interface InvocationEnvironment {
+  node: string;
+  platform: string;
+  arch: string;
+  // hash of the above plus the working directory, to tell apart results that
+  // depend on where the tool ran
+  fingerprint: string;
+}
+
+export interface RecordedInvocation {
+  id: string;
+  tool: string;
+  version: string;
+  requestId?: string;
+  params: any;
+  result: any;
+  durationMs: number;
+  recordedAt: string;
+  environment: InvocationEnvironment;
+}
+
+export interface InvocationSampling {
+  // share of eligible calls that are kept
+  rate: number;
+  // kept calls per tool version
+  maxPerVersion: number;
+  // calls whose params and result together serialize larger than this are not kept
+  maxBytes: number;
+}
+
+export const defaultInvocationSampling: InvocationSampling = {
+  rate: Number(process.env.TOOL_INVOCATION_SAMPLE_RATE ?? 0.25),
+  maxPerVersion: Number(process.env.TOOL_INVOCATION_MAX_PER_VERSION) || 50,
+  maxBytes: 16 * 1024,
+};
+
+let environment: InvocationEnvironment | null = null;
+
+export function environmentFingerprint(): InvocationEnvironment {
+  if (!environment) {
+    const base = { node: process.version, platform: os.platform(), arch: os.arch() };
+    const fingerprint = crypto.createHash('sha256').update(JSON.stringify({ ...base, cwd: process.cwd() })).digest('hex').slice(0, 12);
+    environment = { ...base, fingerprint };
+  }
+  return environment;
+}
+
+export class InvocationRecorder {
+  // kept calls per `tool@version`, counted on first use
+  private counts = new Map<string, number>();
+
+  constructor(private dir: string, private sampling: InvocationSampling = defaultInvocationSampling) {}
+
+  private file(tool: string): string {
+    return path.join(this.dir, `${tool}.jsonl`);
+  }
+
+  // Keeps the call if it is sampled, under the per-version cap and serializable.
+  maybeRecord(tool: string, version: string, params: any, result: any, durationMs: number, requestId?: string): RecordedInvocation | null {
+    const key = `${tool}@${version}`;
+    if (!this.counts.has(key)) {
+      this.counts.set(key, this.list(tool).filter(invocation => invocation.version === version).length);
+    }
+    if (this.counts.get(key) >= this.sampling.maxPerVersion || Math.random() >= this.sampling.rate) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.stringify([params, result]);
+      if (payload === undefined || payload.length > this.sampling.maxBytes) return null;
+      const invocation: RecordedInvocation = {
+        id: uuidv4().slice(0, 8),
+        tool,
+        version,
+        requestId,
+        params,
+        result,
+        durationMs,
+        recordedAt: new Date().toISOString(),
+        environment: environmentFingerprint(),
+      };
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.appendFileSync(this.file(tool), JSON.stringify(invocation) + '\n');
+      this.counts.set(key, this.counts.get(key) + 1);
+      return invocation;
+    } catch (error) {
+      // circular or otherwise unserializable results are simply not kept
+      log('debug', `Invocation of ${tool} not recorded: ${error.message}`, 'InvocationRecorder');
+      return null;
+    }
+  }
+
+  // Oldest first.
+  list(tool: string): RecordedInvocation[] {
+    const file = this.file(tool);
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        try {
+          return JSON.parse(line);
+        } catch (error) {
+          return null;
+        }
+      })
+      .filter(Boolean);
+  }
+
+  get(tool: string, id: string): RecordedInvocation | undefined {
+    return this.list(tool).find(invocation => invocation.id === id);
+  }
+
+  // The most recent calls, preferring the given version, for prompts.
+  examples(tool: string, version: string, limit: number = 3): RecordedInvocation[] {
+    const all = this.list(tool).reverse();
+    return [...all.filter(invocation => invocation.version === version), ...all.filter(invocation => invocation.version !== version)].slice(0, limit);
+  }
+}
+
+// Few-shot block for prompts about the tool; empty when nothing was recorded.
+export function formatInvocationExamples(invocations: RecordedInvocation[]): string {
+  if (invocations.length === 0) return '';
+  return [
+    'Real invocations of this tool (params -> result):',
+    ...invocations.map(invocation => `- v${invocation.version}: ${JSON.stringify(invocation.params)} -> ${JSON.stringify(invocation.result)}`),
+  ].join('\n');
+}
@@ -0,0 +1,108 @@
+// testing/results.ts
+// Results of a tool test run and the JSON / JUnit-XML reports written from them.
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  name: string;
+  status: TestStatus;
+  durationMs: number;
+  error?: string;
+  logs: string[];
+}
+
+export interface TestSuiteResult {
+  tool: string;
+  version: string;
+  startedAt: string;
+  durationMs: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  tests: TestCaseResult[];
+  // set when the harness itself could not run (load error, sandbox limit...)
+  error?: string;
+}
+
+// A recorded invocation promoted to a test: invoking the tool with `params`
+// must return `expected`.
+export interface InvocationCase {
+  name: string;
+  invocationId: string;
+  params: any;
+  expected: any;
+}
+
+// Human-approved tests of a tool. A copy of the harness they came from is kept,
+// so regenerating the tool's harness does not change its regression suite.
+export interface GoldenSuite {
+  harness: string;
+  tests: string[];
+  cases?: InvocationCase[];
+  approvedAt: string;
+  approvedVersion: string;
+}
+
+export function summarize(tool: string, version: string, startedAt: Date, tests: TestCaseResult[], error?: string): TestSuiteResult {
+  return {
+    tool,
+    version,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    passed: tests.filter(test => test.status === 'passed').length,
+    failed: tests.filter(test => test.status === 'failed').length,
+    skipped: tests.filter(test => test.status === 'skipped').length,
+    tests,
+    ...(error ? { error } : {}),
+  };
+}
+
+export function suitePassed(suite: TestSuiteResult): boolean {
+  return !suite.error && suite.failed === 0 && suite.passed > 0;
+}
+
+// One-line outcome, kept as the tool's `lastTestResult.message`.
+export function describeSuite(suite: TestSuiteResult): string {
+  if (suite.error) return `Test run failed: ${suite.error}`;
+  const failures = suite.tests.filter(test => test.status === 'failed').map(test => `${test.name}: ${test.error}`);
+  const counts = `${suite.passed} passed, ${suite.failed} failed, ${suite.skipped} skipped in ${suite.durationMs}ms`;
+  return failures.length > 0 ? `${counts}. ${failures.join('; ')}` : counts;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // characters XML 1.0 cannot carry at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+export function toJUnitXml(suites: TestSuiteResult[]): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const total = (key: 'passed' | 'failed' | 'skipped') => suites.reduce((sum, suite) => sum + suite[key], 0);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="tools" tests="${suites.reduce((sum, suite) => sum + suite.tests.length, 0)}" failures="${total('failed')}" skipped="${total('skipped')}" errors="${suites.filter(suite => suite.error).length}" time="${seconds(suites.reduce((sum, suite) => sum + suite.durationMs, 0))}">`,
+  ];
+  for (const suite of suites) {
+    lines.push(`  <testsuite name="${escapeXml(suite.tool)}" tests="${suite.tests.length}" failures="${suite.failed}" skipped="${suite.skipped}" errors="${suite.error ? 1 : 0}" time="${seconds(suite.durationMs)}" timestamp="${suite.startedAt}">`);
+    lines.push(`    <properties><property name="version" value="${escapeXml(suite.version)}"/></properties>`);
+    if (suite.error) {
+      lines.push(`    <error message="${escapeXml(suite.error)}"/>`);
+    }
+    for (const test of suite.tests) {
+      const open = `    <testcase classname="${escapeXml(suite.tool)}" name="${escapeXml(test.name)}" time="${seconds(test.durationMs)}"`;
+      const body: string[] = [];
+      if (test.status === 'failed') body.push(`      <failure message="${escapeXml(test.error || 'failed')}"/>`);
+      if (test.status === 'skipped') body.push(`      <skipped${test.error ? ` message="${escapeXml(test.error)}"` : ''}/>`);
+      if (test.logs.length > 0) body.push(`      <system-out>${escapeXml(test.logs.join('\n'))}</system-out>`);
+      lines.push(...(body.length > 0 ? [`${open}>`, ...body, '    </testcase>'] : [`${open}/>`]));
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,94 @@
+// testing/runner.ts
+// Host side of tool testing: runs a harness against a tool in the sandbox and
+// keeps every run, so results can be compared across versions and over time.
+// Each tool's runs are appended to `<resultsDir>/<tool>.jsonl`; the most recent
+// batch is also written as `latest.json` and JUnit `latest.xml`.
+import fs from 'fs';
+import path from 'path';
+import { log } from '../logger';
+import { defaultSandboxPolicy, mergePolicy, policyForTool, SandboxPolicy } from '../sandbox/policy';
+import { testInSandbox } from '../sandbox/sandbox';
+import { InvocationCase, summarize, toJUnitXml, TestSuiteResult } from './results';
+
+export interface TestRunOptions {
+  testTimeoutMs?: number;
+  suiteTimeoutMs?: number;
+  only?: string[];
+  cases?: InvocationCase[];
+}
+
+export interface TestableTool {
+  name: string;
+  version: string;
+  source: string;
+  schema?: any;
+  tags?: string[];
+}
+
+const defaultOptions: Required<Omit<TestRunOptions, 'only' | 'cases'>> = {
+  testTimeoutMs: Number(process.env.TOOL_TEST_TIMEOUT_MS) || 10000,
+  suiteTimeoutMs: Number(process.env.TOOL_TEST_SUITE_TIMEOUT_MS) || 120000,
+};
+
+export class ToolTestRunner {
+  constructor(private resultsDir: string) {}
+
+  // Every harness runs with no more than its fixtures need: the run's own directory,
+  // stubbed fetch() and stubbed tools. Nothing on the network, no host api and
+  // none of the host's secrets, whether or not the tool is trusted. The tool's
+  // own limits apply, within the suite's time budget.
+  private policyFor(tool: TestableTool, suiteTimeoutMs: number): SandboxPolicy {
+    const base = mergePolicy(policyForTool(tool), {
+      fs: { read: [], write: [] },
+      net: [],
+      childProcess: false,
+      env: defaultSandboxPolicy.env,
+      api: [],
+      tools: [],
+    });
+    return mergePolicy(base, { limits: { timeoutMs: suiteTimeoutMs, cpuMs: Math.max(base.limits.cpuMs, suiteTimeoutMs) } });
+  }
+
+  async run(tool: TestableTool, harness: string, api: any, options: TestRunOptions = {}): Promise<TestSuiteResult> {
+    const { testTimeoutMs, suiteTimeoutMs, only, cases } = { ...defaultOptions, ...options };
+    const startedAt = new Date();
+    let suite: TestSuiteResult;
+    try {
+      const tests = await testInSandbox(tool.name, tool.source, tool.schema, harness, api, this.policyFor(tool, suiteTimeoutMs), { testTimeoutMs, only, cases });
+      suite = summarize(tool.name, tool.version, startedAt, tests);
+    } catch (error) {
+      suite = summarize(tool.name, tool.version, startedAt, [], error.message);
+    }
+    this.record(suite);
+    return suite;
+  }
+
+  private record(suite: TestSuiteResult): void {
+    try {
+      fs.mkdirSync(this.resultsDir, { recursive: true });
+      fs.appendFileSync(path.join(this.resultsDir, `${suite.tool}.jsonl`), JSON.stringify(suite) + '\n');
+    } catch (error) {
+      log('error', `Error recording test results for ${suite.tool}: ${error.message}`, 'ToolTestRunner');
+    }
+  }
+
+  writeReports(suites: TestSuiteResult[]): { json: string; junit: string } {
+    fs.mkdirSync(this.resultsDir, { recursive: true });
+    const json = path.join(this.resultsDir, 'latest.json');
+    const junit = path.join(this.resultsDir, 'latest.xml');
+    fs.writeFileSync(json, JSON.stringify(suites, null, 2));
+    fs.writeFileSync(junit, toJUnitXml(suites));
+    return { json, junit };
+  }
+
+  // Newest last.
+  history(toolName: string, limit: number = 20): TestSuiteResult[] {
+    const file = path.join(this.resultsDir, `${toolName}.jsonl`);
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .slice(-limit)
+      .map(line => JSON.parse(line));
+  }
+}
@@ -1,6 +1,35 @@
 import { EventEmitter } from 'events';
 import { ScriptMetadata } from './script/metadataManager';
 import ToolRegistry from './toolRegistry';
+import { policyForTool, shouldSandbox } from './sandbox/policy';
+import { runInSandbox } from './sandbox/sandbox';
+import { describeSuite, suitePassed, TestSuiteResult } from './testing/results';
+
+const testHarnessInstructions = `You are a test coverage generator for javascript functions. Given a javascript function and its schema and description, you generate a test harness which thoroughly tests the function. You write your test harnesses in the following format:
+\`\`\`javascript
+const testHarness = {
+    beforeAll: async (context) => {
+        context.log('beforeAll');
+    },
+    returnsGreeting: async (context) => {
+        const result = await context.invoke({ name: 'World' });
+        context.assertEqual(result, 'Hello, World', 'greets by name');
+    },
+    readsInputFile: async (context) => {
+        const file = context.fixtures.writeFile('input.txt', 'data');
+        const result = await context.invoke({ path: file });
+        context.assert(result.includes('data'), 'returns the file contents');
+    },
+    handlesApiErrors: async (context) => {
+        context.fixtures.stubFetch('api.example.com', { error: 'not found' });
+        context.fixtures.stubTool('otherTool', { ok: true });
+        await context.invoke({ id: 1 });
+    },
+};
+\`\`\`
+Each test gets a fresh context: context.invoke(params) calls the function under test and resolves with its result, context.fixtures.tmpDir is an empty directory for file tests, fixtures.writeFile/readFile work inside it, fixtures.stubFetch(urlSubstring, response) answers fetch() calls and fixtures.stubTool(name, result) answers api.callTool(name). Optional hooks: beforeAll, afterAll, beforeEach, afterEach. Give tests descriptive names. When real invocations of the tool are listed, include tests built from them.
+
+You output RAW Javascript CODE ONLY. Do not include any comments or explanations in the code.`;
 
 export class Tool extends EventEmitter {
   public name: string;
@@ -16,6 +45,8 @@ export class Tool extends EventEmitter {
     success: boolean;
     message: string;
   } | null;
+  // per-test results of the last run
+  public lastTestReport: TestSuiteResult | null = null;
   public metrics: {
     versions: string[];
     totalUpdates: number;
@@ -37,6 +68,9 @@ export class Tool extends EventEmitter {
     usageCount: number;
   };
   public metadata: ScriptMetadata;
+  // Set for tools provided at runtime (e.g. by an MCP server): they run through
+  // it in process and are never saved, versioned or tested by the registry.
+  public handler?: (params: any, api: any) => Promise<any>;
 
   constructor(
     private registry: ToolRegistry,
@@ -93,10 +127,18 @@ export class Tool extends EventEmitter {
     };
   }
 
+  // Tools not tagged builtin or trusted run out of process with only the
+  // capabilities their sandbox policy grants; see sandbox/policy.ts.
   executor(): (params: any, api: any) => Promise<any> {
+    if (this.handler) {
+      return this.handler;
+    }
+    if (shouldSandbox(this)) {
+      return (params: any, api: any) => runInSandbox(this.name, this.source, params, api, policyForTool(this));
+    }
     return async (params: any, api: any) => {
-      const toolModule = await import(this.source);
-      return await toolModule.default.execute(params, api);
+      const toolModule = this.registry.loadToolModule(this);
+      return await toolModule.execute(params, api);
     };
   }
 
@@ -109,32 +151,17 @@ export class Tool extends EventEmitter {
       const messages = [
         {
           role: 'system',
-          content: `You are a test coverage generator for javascript functions. Given a javascript function and its schema and description, you generate a test harness which thoroughly tests the function. You write your test harnesses in the following format:
-\`\`\`javascript
-const testHarness = {
-    beforeAll: (context) => {
-        context.log('beforeAll');
-    },
-    test1: (context) => {
-        context.log('test1');
-        context.assert(true, 'Test 1 passed');
-    },
-    test2: (context) => {
-        context.log('test2');
-    },
-};
-\`\`\`
-
-You output RAW Javascript CODE ONLY. Do not include any comments or explanations in the code.`,
+          content: testHarnessInstructions,
         },
         {
           role: 'user',
-          content: `Tool Source:\n\n${JSON.stringify(this.source)}\n\nSchema:\n\n${JSON.stringify(this.schema)}\n\n`,
+          content: `Tool Source:\n\n${JSON.stringify(this.source)}\n\nSchema:\n\n${JSON.stringify(this.schema)}\n\n${this.registry.invocationExamples(this)}`,
         },
       ];
       const response = await this.registry.conversation.chat(messages);
       this.testHarness = response.content[0].text;
       this.saveTool();
+      await this.registry.commitTestHarness(this);
       this.emit('info', `Test harness generated for tool ${this.name}`);
     } catch (error) {
       this.emit('error', `Error generating test harness for tool ${this.name}:`, error);
@@ -158,9 +185,8 @@ You output RAW Javascript CODE ONLY. Do not include any comments or explanations
         },
       ];
       const response = await this.registry.conversation.chat(messages);
-      this.source = response.content[0].text;
-      this.saveTool();
-      this.emit('info', `Tool ${this.name} hardened successfully.`);
+      await this.registry.proposeToolChange(this.name, 'update', 'hardenToolCode', { source: response.content[0].text });
+      this.emit('info', `Hardened version of tool ${this.name} proposed for review.`);
     } catch (error) {
       this.emit('error', `Error hardening tool ${this.name}:`, error);
     }
@@ -183,9 +209,8 @@ You output RAW Javascript CODE ONLY. Do not include any comments or explanations
         },
       ];
       const response = await this.registry.conversation.chat(messages);
-      this.source = response.content[0].text;
-      this.saveTool();
-      this.emit('info', `Tool ${this.name} enhanced successfully.`);
+      await this.registry.proposeToolChange(this.name, 'update', 'enhanceToolCode', { source: response.content[0].text });
+      this.emit('info', `Enhanced version of tool ${this.name} proposed for review.`);
     } catch (error) {
       this.emit('error', `Error enhancing tool ${this.name}:`, error);
     }
@@ -221,39 +246,18 @@ You output RAW Javascript CODE ONLY. Do not include any comments or explanations
       this.emit('error', `No test harness found for tool ${this.name}`);
       return;
     }
-    try {
-      const context = {
-        log: (message: string) => this.emit('info', `[${this.name} Test] ${message}`),
-        assert: (condition: boolean, message: string) => {
-          this.emit('info', `[${this.name} Test] ${message}`);
-          if (!condition) {
-            throw new Error(message);
-          }
-        },
-      };
-      const testHarness = new Function('context', `return ${this.testHarness}`)();
-      await testHarness.beforeAll(context);
-      for (const key in testHarness) {
-        if (key !== 'beforeAll') {
-          await testHarness[key](context);
-        }
-      }
-
-      this.lastTestResult = {
-        success: true,
-        message: 'All tests passed successfully',
-      };
-
-      this.saveTool();
-      this.updateMetrics('test', { success: true });
-    } catch (error) {
-      this.emit('error', `Error running tests for tool ${this.name}:`, error);
-      this.lastTestResult = {
-        success: false,
-        message: `Test failed: ${error.message}`,
-      };
-      this.updateMetrics('test', { success: false });
+    await this.registry.ensureDependencies(this);
+    const report = await this.registry.testRunner.run(this, this.testHarness, this.registry);
+    this.lastTestReport = report;
+    this.lastTestResult = {
+      success: suitePassed(report),
+      message: describeSuite(report),
+    };
+    if (!this.lastTestResult.success && this.listenerCount('error') > 0) {
+      this.emit('error', `Tests failed for tool ${this.name}: ${this.lastTestResult.message}`);
     }
+    this.saveTool();
+    this.updateMetrics('test', { success: this.lastTestResult.success });
   }
 
   public async saveTool(): Promise<void> {
@@ -281,7 +285,10 @@ You output RAW Javascript CODE ONLY. Do not include any comments or explanations
       return result;
     } catch (error) {
       this.updateMetrics('error', true);
-      this.emit('error', `Error executing tool ${this.name}:`, error);
+      // an 'error' event nobody listens to would throw and hide the tool's own error
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', `Error executing tool ${this.name}:`, error);
+      }
       throw error;
     }
   }
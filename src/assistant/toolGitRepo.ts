@@ -0,0 +1,348 @@
+// toolGitRepo.ts
+// The tool repository (`tool_repo/`) as a local git repo. Each tool is kept as
+// `<name>.js` (source) and `<name>.json` (version, schema, tags, metadata),
+// with its test harness in `<name>.test.js` and its golden regression suite in
+// `<name>.golden.json`. Every change is a commit with Tool/Version/Action/Reason trailers, so
+// history, blame and rollback come from git and tool changes can be reviewed
+// like any other code.
+import fs from 'fs';
+import path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { ToolRepo, ToolVersion } from './types';
+import { log } from './logger';
+import { GoldenSuite } from './testing/results';
+
+export type ToolChangeAction = 'add' | 'update' | 'remove' | 'rollback' | 'tests' | 'golden';
+
+export interface ToolCommit {
+  hash: string;
+  date: string;
+  tool: string;
+  version: string;
+  action: ToolChangeAction;
+  reason: string;
+}
+
+export interface ToolBlameLine {
+  line: number;
+  content: string;
+  commit: string;
+  version: string;
+  reason: string;
+  date: string;
+}
+
+function toolFiles(name: string): string[] {
+  return [`${name}.js`, `${name}.json`, `${name}.test.js`, `${name}.golden.json`];
+}
+
+const ignoredFiles = ['.registry', '.metrics', '.usage', '.history', '.pending', '.test-results', '.invocations', '.runs', '.scripts', '.mcp', 'node_modules'];
+
+export class ToolGitRepo {
+  private git: SimpleGit;
+  private ready: Promise<void> | null = null;
+  // git commands touching the index must not interleave
+  private queue: Promise<any> = Promise.resolve();
+
+  constructor(private repoPath: string, private authorName: string = 'Tool Registry', private authorEmail: string = 'tool-registry@localhost') {
+    fs.mkdirSync(repoPath, { recursive: true });
+    this.git = simpleGit(repoPath);
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => this.init()).then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.initRepo().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async initRepo(): Promise<void> {
+    if (fs.existsSync(path.join(this.repoPath, '.git'))) return;
+
+    await this.git.init();
+    await this.git.addConfig('user.name', this.authorName);
+    await this.git.addConfig('user.email', this.authorEmail);
+    fs.writeFileSync(path.join(this.repoPath, '.gitignore'), ignoredFiles.join('\n') + '\n');
+    await this.git.add('.gitignore');
+    await this.git.commit('Initialize tool repository');
+    log('info', `Initialized tool repository at ${this.repoPath}`, 'ToolGitRepo');
+
+    await this.migrateHistoryFile();
+  }
+
+  // Repositories created before git replay the old `.history` JSON file, one
+  // commit per stored version with its original date.
+  private async migrateHistoryFile(): Promise<void> {
+    const historyFile = path.join(this.repoPath, '.history');
+    if (!fs.existsSync(historyFile)) return;
+
+    let repo: ToolRepo;
+    try {
+      repo = JSON.parse(fs.readFileSync(historyFile, 'utf8'));
+    } catch (error) {
+      log('warn', `Skipping unreadable tool history ${historyFile}: ${error.message}`, 'ToolGitRepo');
+      return;
+    }
+
+    const entries = Object.entries(repo).flatMap(([name, { versions }]) =>
+      Object.values(versions).map(version => ({ name, version }))
+    );
+    entries.sort((a, b) => a.version.createdAt.localeCompare(b.version.createdAt) || compareVersions(a.version.version, b.version.version));
+
+    // env() sticks to the instance, so the backdated commits get their own
+    const git = simpleGit(this.repoPath);
+    const seen = new Set<string>();
+    for (const { name, version } of entries) {
+      const action: ToolChangeAction = seen.has(name) ? 'update' : 'add';
+      seen.add(name);
+      const { createdAt, ...snapshot } = version;
+      this.writeToolFiles(name, snapshot);
+      await git.add([`${name}.js`, `${name}.json`]);
+      await git
+        .env({ ...process.env, GIT_AUTHOR_DATE: createdAt, GIT_COMMITTER_DATE: createdAt })
+        .commit(commitMessage(name, version.version, action, 'migrated from .history'));
+    }
+    log('info', `Migrated ${entries.length} tool versions from ${historyFile}`, 'ToolGitRepo');
+  }
+
+  private writeToolFiles(name: string, snapshot: Omit<ToolVersion, 'createdAt'>): void {
+    const { source, testHarness, ...meta } = snapshot;
+    fs.writeFileSync(path.join(this.repoPath, `${name}.js`), source ?? '');
+    fs.writeFileSync(path.join(this.repoPath, `${name}.json`), JSON.stringify(meta, null, 2) + '\n');
+    if (testHarness) {
+      fs.writeFileSync(path.join(this.repoPath, `${name}.test.js`), testHarness);
+    }
+  }
+
+  private existingFiles(name: string): string[] {
+    return toolFiles(name).filter(file => fs.existsSync(path.join(this.repoPath, file)));
+  }
+
+  // Commits whatever the tool's files hold now; null when nothing changed.
+  private async commitFiles(name: string, version: string, action: ToolChangeAction, reason: string): Promise<ToolCommit | null> {
+    const files = this.existingFiles(name);
+    await this.git.add(files);
+    const staged = await this.git.diff(['--cached', '--name-only', '--', ...files]);
+    if (!staged.trim()) return null;
+
+    const result = await this.git.commit(commitMessage(name, version, action, reason));
+    log('info', `Committed ${name}@${version} (${action}: ${reason})`, 'ToolGitRepo');
+    return { hash: result.commit, date: new Date().toISOString(), tool: name, version, action, reason };
+  }
+
+  // Writes the tool and commits it. A snapshot identical to what is already
+  // committed leaves the history untouched.
+  record(name: string, snapshot: Omit<ToolVersion, 'createdAt'>, action: ToolChangeAction, reason: string): Promise<ToolCommit | null> {
+    return this.exclusive(async () => {
+      this.writeToolFiles(name, snapshot);
+      return this.commitFiles(name, snapshot.version, action, reason);
+    });
+  }
+
+  recordTests(name: string, version: string, harness: string, reason: string): Promise<ToolCommit | null> {
+    return this.exclusive(async () => {
+      fs.writeFileSync(path.join(this.repoPath, `${name}.test.js`), harness);
+      return this.commitFiles(name, version, 'tests', reason);
+    });
+  }
+
+  recordGolden(name: string, version: string, golden: GoldenSuite, reason: string): Promise<ToolCommit | null> {
+    return this.exclusive(async () => {
+      fs.writeFileSync(path.join(this.repoPath, `${name}.golden.json`), JSON.stringify(golden, null, 2) + '\n');
+      return this.commitFiles(name, version, 'golden', reason);
+    });
+  }
+
+  // The tools' npm dependencies: package.json and package-lock.json.
+  recordDependencies(reason: string): Promise<string | null> {
+    return this.exclusive(async () => {
+      const files = ['package.json', 'package-lock.json'].filter(file => fs.existsSync(path.join(this.repoPath, file)));
+      if (files.length === 0) return null;
+      await this.git.add(files);
+      const staged = await this.git.diff(['--cached', '--name-only', '--', ...files]);
+      if (!staged.trim()) return null;
+
+      const result = await this.git.commit([`deps: ${reason}`, `Reason: ${reason}`]);
+      log('info', `Committed tool dependencies (${reason})`, 'ToolGitRepo');
+      return result.commit;
+    });
+  }
+
+  readGolden(name: string): GoldenSuite | null {
+    const file = path.join(this.repoPath, `${name}.golden.json`);
+    try {
+      return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+    } catch (error) {
+      log('error', `Error reading golden tests of ${name}: ${error.message}`, 'ToolGitRepo');
+      return null;
+    }
+  }
+
+  remove(name: string, version: string, reason: string): Promise<ToolCommit | null> {
+    return this.exclusive(async () => {
+      const files = this.existingFiles(name);
+      if (files.length === 0) return null;
+
+      await this.git.rm(files);
+      const result = await this.git.commit(commitMessage(name, version, 'remove', reason));
+      log('info', `Committed removal of ${name} (${reason})`, 'ToolGitRepo');
+      return { hash: result.commit, date: new Date().toISOString(), tool: name, version, action: 'remove', reason };
+    });
+  }
+
+  // Newest first.
+  log(name: string): Promise<ToolCommit[]> {
+    return this.exclusive(() => this.readLog(name));
+  }
+
+  private async readLog(name: string): Promise<ToolCommit[]> {
+    const output = await this.git.raw(['log', '--format=%H%x1f%aI%x1f%B%x1e', '--', ...toolFiles(name)]);
+    return output
+      .split('\x1e')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [hash, date, body] = entry.split('\x1f');
+        return {
+          hash,
+          date,
+          tool: trailer(body, 'Tool') || name,
+          version: trailer(body, 'Version'),
+          action: trailer(body, 'Action') as ToolChangeAction,
+          reason: trailer(body, 'Reason'),
+        };
+      })
+      .filter(commit => commit.tool === name && commit.version);
+  }
+
+  // The commit that introduced each version, oldest first. Rollbacks restore
+  // an existing version and test commits leave the version as it is, so
+  // neither counts as a version of its own.
+  async listVersions(name: string): Promise<ToolCommit[]> {
+    const commits = await this.log(name);
+    const versions = new Map<string, ToolCommit>();
+    for (const commit of [...commits].reverse()) {
+      if (commit.action !== 'add' && commit.action !== 'update') continue;
+      versions.set(commit.version, commit);
+    }
+    return [...versions.values()].sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  async latestVersion(name: string): Promise<string | null> {
+    const versions = await this.listVersions(name);
+    return versions.length > 0 ? versions[versions.length - 1].version : null;
+  }
+
+  async has(name: string, version: string): Promise<boolean> {
+    return (await this.findVersion(name, version)) !== null;
+  }
+
+  private async findVersion(name: string, version: string): Promise<ToolCommit | null> {
+    const versions = await this.listVersions(name);
+    return versions.find(commit => commit.version === version) || null;
+  }
+
+  async getVersion(name: string, version: string): Promise<ToolVersion | null> {
+    const commit = await this.findVersion(name, version);
+    if (!commit) return null;
+
+    return this.exclusive(async () => {
+      const source = await this.git.show([`${commit.hash}:${name}.js`]);
+      const meta = JSON.parse(await this.git.show([`${commit.hash}:${name}.json`]));
+      // versions committed before the tool had a harness have no test file
+      const testHarness = await this.git.show([`${commit.hash}:${name}.test.js`]).catch(() => undefined);
+      return { ...meta, version, source, testHarness, createdAt: commit.date };
+    });
+  }
+
+  // Unified diff of the tool's source and metadata between two versions.
+  async diff(name: string, fromVersion: string, toVersion: string): Promise<string> {
+    const from = await this.findVersion(name, fromVersion);
+    const to = await this.findVersion(name, toVersion);
+    if (!from || !to) {
+      throw new Error(`Version not found for tool ${name}: ${!from ? fromVersion : toVersion}`);
+    }
+    return this.exclusive(() => this.git.diff([from.hash, to.hash, '--', `${name}.js`, `${name}.json`, `${name}.test.js`]));
+  }
+
+  // Diff of a change that has not been made yet: the proposed files (or their
+  // removal when `snapshot` is null) against what is committed. The working
+  // copy is restored before the lock is released.
+  previewDiff(name: string, snapshot: Omit<ToolVersion, 'createdAt'> | null): Promise<string> {
+    return this.exclusive(async () => {
+      const files = [`${name}.js`, `${name}.json`];
+      const tracked = (await this.git.raw(['ls-files', '--', ...files])).trim();
+      if (!tracked) return '';
+      try {
+        if (snapshot) {
+          this.writeToolFiles(name, snapshot);
+        } else {
+          files.forEach(file => fs.rmSync(path.join(this.repoPath, file), { force: true }));
+        }
+        return await this.git.diff(['HEAD', '--', ...files]);
+      } finally {
+        await this.git.raw(['checkout', 'HEAD', '--', ...files]);
+      }
+    });
+  }
+
+  // Which version (and why) last changed each line of the current source.
+  async blame(name: string): Promise<ToolBlameLine[]> {
+    if (!fs.existsSync(path.join(this.repoPath, `${name}.js`))) {
+      throw new Error(`Tool not found in repository: ${name}`);
+    }
+    const commits = new Map((await this.log(name)).map(commit => [commit.hash, commit] as [string, ToolCommit]));
+    const output: string = await this.exclusive(() => this.git.raw(['blame', '--porcelain', '--', `${name}.js`]));
+
+    const lines: ToolBlameLine[] = [];
+    let hash = '';
+    for (const row of output.split('\n')) {
+      const header = row.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+      if (header) {
+        hash = header[1];
+      } else if (row.startsWith('\t')) {
+        const commit = commits.get(hash);
+        lines.push({
+          line: lines.length + 1,
+          content: row.slice(1),
+          commit: hash.slice(0, 8),
+          version: commit?.version || '',
+          reason: commit?.reason || '',
+          date: commit?.date || '',
+        });
+      }
+    }
+    return lines;
+  }
+}
+
+function commitMessage(name: string, version: string, action: ToolChangeAction, reason: string): string[] {
+  return [
+    `tool(${name}): ${action} v${version}`,
+    [`Tool: ${name}`, `Version: ${version}`, `Action: ${action}`, `Reason: ${reason}`].join('\n'),
+  ];
+}
+
+function trailer(body: string, key: string): string {
+  const match = body.match(new RegExp(`^${key}: (.*)$`, 'm'));
+  return match ? match[1].trim() : '';
+}
+
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
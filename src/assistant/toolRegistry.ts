@@ -2,7 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { EventEmitter } from 'events';
 import Conversation from './conversation';
-import { Assistant } from './types';
+import { Assistant, ToolVersion } from './types';
 import { ScriptValidator } from './script/validator';
 import { ScriptPerformanceMonitor } from './script/performanceMonitor';
 import { ScriptCleanupManager } from './script/cleanupManager';
@@ -13,6 +13,21 @@ import { parse, stringify } from 'flatted';
 import JSON5 from 'json5';
 import { v4 as uuidv4 } from 'uuid';
 import { Tool } from './tool';
+import { runInSandbox, SandboxError } from './sandbox/sandbox';
+import { currentCallerPolicy, policyForTool, registerModulePath, registerProtectedPath, shouldSandbox } from './sandbox/policy';
+import { SandboxCapabilityError } from './sandbox/capabilities';
+import { LoadedToolModule, ModuleLoadError, ToolModuleLoader } from './script/moduleLoader';
+import { SchemaValidationIssue, ToolValidationError, validateInput, validateOutput } from './script/schemaValidator';
+import { ToolBlameLine, ToolChangeAction, ToolGitRepo, compareVersions } from './toolGitRepo';
+import { ToolDefinition } from './llm/types';
+import { currentUsageScope, runWithUsageScope, usageTracker, UsageScope } from './llm/usage';
+import { runOutsideBudget } from './budget';
+import { PendingChange, PendingChangeAction, PendingChangeQueue, isAutoApproved } from './approval';
+import { ToolTestRunner } from './testing/runner';
+import { describeSuite, GoldenSuite, suitePassed, TestSuiteResult } from './testing/results';
+import { formatInvocationExamples, InvocationRecorder, RecordedInvocation } from './testing/invocations';
+import { EphemeralScript, EphemeralScriptStore } from './script/ephemeralStore';
+import { DependencyManager, formatPackageSpec, parsePackageSpec } from './script/dependencyManager';
 
 interface RegistryData {
   tools: Tool[];
@@ -23,11 +38,19 @@ export class ToolRegistry extends EventEmitter {
   public registryData: RegistryData;
   private registryFile: string;
   private loadedTools: Set<string>;
-  private repoPath: string;
+  public repoPath: string;
   private metricsFile: string;
   private metrics: { [key: string]: any };
   private testInterval: NodeJS.Timeout;
   public conversation: Conversation;
+  public moduleLoader: ToolModuleLoader;
+  public toolRepo: ToolGitRepo;
+  public pendingChanges: PendingChangeQueue;
+  public testRunner: ToolTestRunner;
+  public invocations: InvocationRecorder;
+  public scripts: EphemeralScriptStore;
+  public dependencies: DependencyManager;
+  private improving: Promise<void> | null = null;
 
   public toolWatcher: ToolWatcher;
 
@@ -43,20 +66,34 @@ export class ToolRegistry extends EventEmitter {
     this.registryFile = path.join(__dirname, repoPath, registryFile);
     this.repoPath = path.join(__dirname, repoPath);
     this.metricsFile = path.join(__dirname, repoPath, metricsFile);
+    usageTracker.setLogFile(path.join(__dirname, repoPath, '.usage'));
+    this.moduleLoader = new ToolModuleLoader(this.repoPath);
+    this.toolRepo = new ToolGitRepo(this.repoPath);
+    this.pendingChanges = new PendingChangeQueue(path.join(this.repoPath, '.pending'));
+    this.testRunner = new ToolTestRunner(path.join(this.repoPath, '.test-results'));
+    this.invocations = new InvocationRecorder(path.join(this.repoPath, '.invocations'));
+    this.scripts = new EphemeralScriptStore(path.join(this.repoPath, '.scripts'));
+    this.dependencies = new DependencyManager(this.repoPath);
+    registerModulePath(this.dependencies.modulesDir);
+    registerProtectedPath(this.repoPath);
 
     this.loadedTools = new Set();
     this.registryData = { tools: [] };
-    this.conversation = new Conversation('claude');
+    this.conversation = new Conversation();
     this.metrics = {};
     this.initializeRegistry();
     this.startContinuousTesting();
 
     this.toolWatcher = new ToolWatcher(this);
-    this.initializeToolWatcher();
   }
 
+  // Dev mode: tool files saved under tools/ are reloaded, versioned and tested.
   public async initializeToolWatcher() {
-    await this.toolWatcher.loadExistingTools();
+    await this.toolWatcher.start();
+  }
+
+  public async stopToolWatcher() {
+    await this.toolWatcher.stop();
   }
 
   private serializeWithRefs(obj: any): any {
@@ -110,6 +147,11 @@ export class ToolRegistry extends EventEmitter {
             )
           )
         };
+        parsedData.tools.forEach((toolData: any, index: number) => {
+          this.registryData.tools[index].testHarness = toolData.testHarness || '';
+        });
+
+        this.backfillToolRepo().catch(error => log('error', `Error backfilling tool repository: ${error.message}`, 'ToolRegistry'));
         
         log('info', 'Registry loaded successfully.', 'ToolRegistry');
       } else {
@@ -129,7 +171,7 @@ export class ToolRegistry extends EventEmitter {
       return false;
     }
 
-    const success = await this.addTool(name, source, {}, ['ai-generated']);
+    const success = await this.addTool(name, source, {}, ['ai-generated'], 'ai-generated');
     if (success) {
       await MetadataManager.addMetadata(this, name, {
         originalQuery,
@@ -137,7 +179,6 @@ export class ToolRegistry extends EventEmitter {
         author: 'AI Assistant',
         version: '1.0.0',
         tags: ['ai-generated'],
-        dependencies: []
       });
     }
     return success;
@@ -151,12 +192,56 @@ export class ToolRegistry extends EventEmitter {
     return result;
   }
 
+  // Compiled module for the tool's current version, from the loader cache when
+  // possible. Load failures are recorded in the tool's metrics before rethrowing.
+  loadToolModule(tool: Tool): LoadedToolModule {
+    try {
+      return this.moduleLoader.load(tool.name, tool.version, tool.source);
+    } catch (error) {
+      if (error instanceof ModuleLoadError) {
+        log('error', error.message, 'ToolRegistry');
+        this.updateMetrics(tool.name, 'load', { version: error.version, phase: error.phase, message: error.message });
+      }
+      throw error;
+    }
+  }
+
   async callTool(name: string, params: any): Promise<any> {
     const tool = this.registryData.tools.find(t => t.name === name);
     if (!tool) {
       throw new Error(`Tool not found: ${name}`);
     }
-    return await tool.call(params, this);
+    // a sandboxed tool only reaches tools running outside the sandbox it is allowed
+    const caller = currentCallerPolicy();
+    if (caller && (tool.handler || !shouldSandbox(tool)) && !(caller.tools || []).includes(name)) {
+      throw new SandboxCapabilityError(`api.callTool: ${name} runs outside the sandbox and is not in the caller's allowed tools`);
+    }
+    const input = validateInput(name, params, tool.schema?.input_schema);
+    if (input.error) {
+      log('warn', input.error.message, 'ToolRegistry');
+      throw input.error;
+    }
+    await this.ensureDependencies(tool);
+    try {
+      const startTime = Date.now();
+      const result = await runWithUsageScope({ tool: name }, () => tool.call(input.value, this));
+      const outputError = validateOutput(name, result, tool.schema?.output_schema);
+      if (outputError) {
+        log('warn', outputError.message, 'ToolRegistry');
+        throw outputError;
+      }
+      // only calls made while serving a request are real usage worth keeping
+      const { requestId } = currentUsageScope();
+      if (requestId) {
+        this.invocations.maybeRecord(name, tool.version, input.value, result, Date.now() - startTime, requestId);
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof SandboxError) {
+        log('error', `Tool ${name} failed in sandbox (${error.kind}): ${error.message}`, 'ToolRegistry');
+      }
+      throw error;
+    }
   }
 
   getTools(): { [key: string]: Tool } {
@@ -172,6 +257,7 @@ export class ToolRegistry extends EventEmitter {
   
   async performMaintenance(): Promise<void> {
     await ScriptCleanupManager.cleanupUnusedScripts(this);
+    this.scripts.sweep();
     // Other maintenance tasks...
   }
 
@@ -183,7 +269,7 @@ export class ToolRegistry extends EventEmitter {
   }
 
   private async testAndImproveTools() {
-    for (const tool of this.registryData.tools) {
+    for (const tool of this.registryData.tools.filter(tool => !tool.handler)) {
       const testResult = await this.testTool(tool);
       if (!testResult.success) {
         await this.improveTool(tool);
@@ -192,6 +278,10 @@ export class ToolRegistry extends EventEmitter {
   }
 
   private async testTool(tool: Tool): Promise<{ success: boolean; error?: string }> {
+    return runWithUsageScope({ tool: tool.name }, () => this.runToolTests(tool));
+  }
+
+  private async runToolTests(tool: Tool): Promise<{ success: boolean; error?: string }> {
     if (!tool.testHarness) {
       await tool.generateTestHarness();
     }
@@ -203,8 +293,21 @@ export class ToolRegistry extends EventEmitter {
     }
   }
 
+  // After a request: one improvement pass at a time, in the background and
+  // charged to no request, so its LLM calls never count against a budget.
+  improveToolsInBackground(): Promise<void> {
+    if (!this.improving) {
+      this.improving = runOutsideBudget(() => runWithUsageScope({ requestId: undefined }, () => this.improveTools()))
+        .catch(error => log('error', `Error improving tools: ${error.message}`, 'ToolRegistry'))
+        .finally(() => {
+          this.improving = null;
+        });
+    }
+    return this.improving;
+  }
+
   async improveTools(): Promise<void> {
-    for (const tool of this.registryData.tools) {
+    for (const tool of this.registryData.tools.filter(tool => !tool.handler)) {
       if (tool.lastTestResult && !tool.lastTestResult.success) {
         await this.improveTool(tool);
       }
@@ -213,22 +316,21 @@ export class ToolRegistry extends EventEmitter {
 
   private async improveTool(tool: Tool): Promise<void> {
     try {
-      const improvedCode = await this.conversation.chat([{
+      const improved = await runWithUsageScope({ tool: tool.name }, () => this.conversation.chat([{
         role: 'system',
         content:
           'You are javascript developer working to improve javascript functions. Given the function\'s source code, schema, and any existing test results, <important>output an improved version of the function. If you cannot improve the function, output the original source code.</important><critical>output NO commentary, explanation or formatting</critical>',
       }, {
         role: 'user',
-        content: `Tool Source: ${tool.source}\nSchema: ${JSON.stringify(tool.schema)}\nTest Results: ${JSON.stringify(tool.lastTestResult)}`,
-      }], {} as any, 'gemini-1.5-flash-001');
-      await this.updateTool(tool.name, improvedCode, tool.schema, tool.tags);
-      this.emit('text', `Tool ${tool.name} improved based on test results`);
+        content: `Tool Source: ${tool.source}\nSchema: ${JSON.stringify(tool.schema)}\nTest Results: ${JSON.stringify(tool.lastTestResult)}\n${this.invocationExamples(tool)}`,
+      }], {} as any, 'fast'));
+      await this.proposeToolChange(tool.name, 'update', 'improveTool', { source: improved.content[0].text });
     } catch (error) {
       this.emit('error', `Error improving tool ${tool.name}:`, error);
     }
   }
 
-  async updateMetrics(toolName: string, updateType: 'version' | 'test' | 'execution' | 'error' | 'usage', data: any): Promise<void> {
+  async updateMetrics(toolName: string, updateType: 'version' | 'test' | 'execution' | 'error' | 'usage' | 'load', data: any): Promise<void> {
     if (!this.metrics[toolName]) {
       this.metrics[toolName] = {
         versions: [],
@@ -249,6 +351,8 @@ export class ToolRegistry extends EventEmitter {
         },
         errorRate: 0,
         usageCount: 0,
+        loadErrors: 0,
+        lastLoadError: null,
       };
     }
 
@@ -285,6 +389,15 @@ export class ToolRegistry extends EventEmitter {
       case 'usage':
         metrics.usageCount++;
         break;
+      case 'load':
+        metrics.loadErrors = (metrics.loadErrors || 0) + 1;
+        metrics.lastLoadError = {
+          version: data.version,
+          phase: data.phase,
+          message: data.message,
+          timestamp: new Date().toISOString(),
+        };
+        break;
     }
 
     this.saveMetrics();
@@ -315,12 +428,38 @@ export class ToolRegistry extends EventEmitter {
       report += `  Slowest Execution Time: ${toolMetrics.executionStats.slowestExecutionTime.toFixed(2)}ms\n`;
       report += `  Last Execution Time: ${toolMetrics.executionStats.lastExecutionTime?.toFixed(2)}ms\n`;
       report += `Error Rate: ${(toolMetrics.errorRate * 100).toFixed(2)}%\n`;
-      report += `Usage Count: ${toolMetrics.usageCount}\n\n`;
+      report += `Usage Count: ${toolMetrics.usageCount}\n`;
+      if (toolMetrics.loadErrors) {
+        report += `Load Errors: ${toolMetrics.loadErrors} (last: ${toolMetrics.lastLoadError?.message})\n`;
+      }
+      report += `\n`;
     }
 
     return report;
   }
 
+  // LLM usage (tokens, latency, estimated cost) for this process, optionally
+  // narrowed to one session, request or tool.
+  async generateUsageReport(format: 'text' | 'json' = 'text', filter: UsageScope = {}): Promise<string | object> {
+    const report = usageTracker.generateReport(filter);
+    if (format === 'json') {
+      return report;
+    }
+
+    const formatSummary = (summary: any) =>
+      `${summary.calls} calls, ${summary.inputTokens} in / ${summary.outputTokens} out tokens, ${(summary.latencyMs / 1000).toFixed(1)}s, $${summary.cost.toFixed(4)}`;
+
+    let text = "LLM Usage Report\n================\n\n";
+    text += `Total: ${formatSummary(report.total)}\n`;
+    for (const [title, groups] of [['By Session', report.bySession], ['By Request', report.byRequest], ['By Tool', report.byTool], ['By Model', report.byModel]]) {
+      text += `\n${title}:\n`;
+      for (const [key, summary] of Object.entries(groups)) {
+        text += `  ${key}: ${formatSummary(summary)}\n`;
+      }
+    }
+    return text;
+  }
+
   get tools(): { [key: string]: Tool } {
     return this.registryData.tools.reduce((tools, tool) => {
       tools[tool.name] = tool;
@@ -349,18 +488,178 @@ export class ToolRegistry extends EventEmitter {
     }
   }
 
-  async getToolHistory(name: string): Promise<string[]> {
+  async getToolHistory(name: string): Promise<{ version: string; date: string; reason: string; current: boolean }[]> {
+    const tool = this.registryData.tools.find(t => t.name === name);
+    if (!tool) {
+      throw new Error(`Tool not found: ${name}`);
+    }
+    const versions = await this.toolRepo.listVersions(name);
+    return versions.map(commit => ({
+      version: commit.version,
+      date: commit.date,
+      reason: commit.reason,
+      current: commit.version === tool.version,
+    }));
+  }
+
+  async getToolVersion(name: string, version: string): Promise<ToolVersion | null> {
+    return this.toolRepo.getVersion(name, version);
+  }
+
+  async diffToolVersions(name: string, fromVersion: string, toVersion: string): Promise<string> {
+    return this.toolRepo.diff(name, fromVersion, toVersion);
+  }
+
+  async blameTool(name: string): Promise<ToolBlameLine[]> {
+    return this.toolRepo.blame(name);
+  }
+
+  private async commitTool(tool: Tool, action: ToolChangeAction, reason: string): Promise<void> {
+    try {
+      await this.toolRepo.record(tool.name, {
+        version: tool.version,
+        source: tool.source,
+        schema: tool.schema,
+        tags: tool.tags,
+        metadata: tool.metadata,
+        testHarness: tool.testHarness || undefined,
+      }, action, reason);
+    } catch (error) {
+      log('error', `Error committing tool ${tool.name} to repository: ${error.message}`, 'ToolRegistry');
+    }
+  }
+
+  async commitTestHarness(tool: Tool, reason: string = 'generated'): Promise<void> {
+    try {
+      await this.toolRepo.recordTests(tool.name, tool.version, tool.testHarness, reason);
+    } catch (error) {
+      log('error', `Error committing test harness of ${tool.name}: ${error.message}`, 'ToolRegistry');
+    }
+  }
+
+  // Installs the npm packages the tool declares or requires that are missing;
+  // throws a DependencyError for packages that are refused.
+  async ensureDependencies(tool: Tool): Promise<void> {
+    if (tool.handler) return;
+    const installed = await this.dependencies.ensure(tool);
+    if (installed.length > 0) {
+      await this.commitDependencies(`install ${installed.map(formatPackageSpec).join(', ')} for ${tool.name}`);
+    }
+  }
+
+  // Adds `name@range` declarations to the tool, as a new version.
+  async declareDependencies(name: string, specs: string[]): Promise<boolean> {
+    const tool = this.registryData.tools.find(t => t.name === name);
+    if (!tool) {
+      throw new Error(`Tool not found: ${name}`);
+    }
+    const declared = specs.map(parsePackageSpec);
+    const kept = (tool.metadata?.dependencies || []).filter(existing => !declared.some(spec => existing.startsWith(`${spec.name}@`)));
+    tool.metadata = { ...tool.metadata, dependencies: [...kept, ...declared.map(formatPackageSpec)] };
+    return this.updateTool(name, tool.source, tool.schema, tool.tags, `dependencies: ${declared.map(formatPackageSpec).join(', ')}`);
+  }
+
+  // Installs packages not tied to one tool, e.g. for the scripts of a request.
+  async installPackages(specs: string[], requestedBy: string): Promise<void> {
+    const missing = specs.map(parsePackageSpec).filter(spec => !this.dependencies.isAvailable(spec.name));
+    await this.dependencies.install(missing, requestedBy);
+    if (missing.length > 0) {
+      await this.commitDependencies(`install ${missing.map(formatPackageSpec).join(', ')} for ${requestedBy}`);
+    }
+  }
+
+  private async commitDependencies(reason: string): Promise<void> {
+    try {
+      await this.toolRepo.recordDependencies(reason);
+    } catch (error) {
+      log('error', `Error committing tool dependencies: ${error.message}`, 'ToolRegistry');
+    }
+  }
+
+  getGoldenTests(name: string): GoldenSuite | null {
+    return this.toolRepo.readGolden(name);
+  }
+
+  // Marks tests as golden. Only tests that passed in the tool's last run on its
+  // current version can be approved; without names, all of those are.
+  async approveGoldenTests(name: string, testNames: string[] = []): Promise<GoldenSuite> {
     const tool = this.registryData.tools.find(t => t.name === name);
     if (!tool) {
       throw new Error(`Tool not found: ${name}`);
     }
-    return this.metrics[name]?.versions || [];
+    const report = tool.lastTestReport;
+    if (!tool.testHarness || !report || report.version !== tool.version) {
+      throw new Error(`Run the tests of ${name} v${tool.version} before approving any of them.`);
+    }
+    const passed = report.tests.filter(test => test.status === 'passed').map(test => test.name);
+    const approved = testNames.length > 0 ? testNames : passed;
+    const notPassing = approved.filter(test => !passed.includes(test));
+    if (notPassing.length > 0) {
+      throw new Error(`Only passing tests can be golden; not passing in the last run: ${notPassing.join(', ')}`);
+    }
+    if (approved.length === 0) {
+      throw new Error(`No passing tests to approve for ${name}.`);
+    }
+
+    // tests approved from the same harness add up; a new harness starts a new suite
+    const existing = this.toolRepo.readGolden(name);
+    const tests = existing && existing.harness === tool.testHarness
+      ? [...new Set([...existing.tests, ...approved])]
+      : approved;
+    if (existing && existing.harness !== tool.testHarness && existing.tests.length > 0) {
+      log('warn', `Golden tests of ${name} replaced; they were approved from a different harness (${existing.tests.join(', ')})`, 'ToolRegistry');
+    }
+    const golden: GoldenSuite = { harness: tool.testHarness, tests, cases: existing?.cases, approvedAt: new Date().toISOString(), approvedVersion: tool.version };
+    await this.toolRepo.recordGolden(name, tool.version, golden, `approved ${approved.join(', ')}`);
+    return golden;
+  }
+
+  // Runs the golden tests of `name` against a candidate source; null when the
+  // tool has no golden tests.
+  async runGoldenSuite(name: string, candidate: { version: string; source: string; schema: any; tags: string[] }): Promise<TestSuiteResult | null> {
+    const golden = this.toolRepo.readGolden(name);
+    if (!golden || (golden.tests.length === 0 && !golden.cases?.length)) return null;
+    return this.testRunner.run({ name, ...candidate }, golden.harness, this, { only: golden.tests, cases: golden.cases });
+  }
+
+  listInvocations(name: string): RecordedInvocation[] {
+    return this.invocations.list(name);
+  }
+
+  // Few-shot examples for prompts that rewrite or test the tool.
+  invocationExamples(tool: Tool, limit: number = 3): string {
+    return formatInvocationExamples(this.invocations.examples(tool.name, tool.version, limit));
+  }
+
+  // Turns a recorded invocation into a golden test case: the tool must keep
+  // returning the recorded result for the recorded params.
+  async promoteInvocation(name: string, invocationId: string): Promise<GoldenSuite> {
+    const invocation = this.invocations.get(name, invocationId);
+    if (!invocation) {
+      throw new Error(`Invocation ${invocationId} of tool ${name} not found`);
+    }
+    const existing = this.toolRepo.readGolden(name);
+    const golden: GoldenSuite = existing || { harness: '', tests: [], approvedAt: '', approvedVersion: '' };
+    const cases = (golden.cases || []).filter(testCase => testCase.invocationId !== invocationId);
+    cases.push({ name: `invocation_${invocation.id}`, invocationId: invocation.id, params: invocation.params, expected: invocation.result });
+    const updated: GoldenSuite = { ...golden, cases, approvedAt: new Date().toISOString(), approvedVersion: invocation.version };
+    await this.toolRepo.recordGolden(name, invocation.version, updated, `promoted invocation ${invocation.id}`);
+    return updated;
+  }
+
+  // registries saved before the tool repository was a git repo start its history at their current version
+  private async backfillToolRepo(): Promise<void> {
+    for (const tool of this.registryData.tools) {
+      if (!(await this.toolRepo.has(tool.name, tool.version))) {
+        await this.commitTool(tool, 'add', 'imported from registry');
+      }
+    }
   }
 
   public saveRegistry(): void {
     try {
       const registryDataToSave = {
-        tools: this.registryData.tools.map(tool => ({
+        tools: this.registryData.tools.filter(tool => !tool.handler).map(tool => ({
           name: tool.name,
           version: tool.version,
           description: tool.description,
@@ -368,6 +667,7 @@ export class ToolRegistry extends EventEmitter {
           tags: tool.tags,
           schema: tool.schema,
           metadata: tool.metadata,
+          testHarness: tool.testHarness,
           metrics: tool.metrics
         }))
       };
@@ -383,12 +683,33 @@ export class ToolRegistry extends EventEmitter {
   public hasTool(name: string): boolean {
     return this.registryData.tools.some(t => t.name === name);
   }
+
+  // Registers a tool that lives outside the registry (see Tool.handler), or
+  // replaces one registered earlier. Never shadows a registry tool.
+  registerRuntimeTool(name: string, schema: any, tags: string[], handler: (params: any, api: any) => Promise<any>): boolean {
+    const existing = this.registryData.tools.find(t => t.name === name);
+    if (existing && !existing.handler) {
+      log('warn', `Not registering ${name}: a registry tool has that name`, 'ToolRegistry');
+      return false;
+    }
+    const tool = new Tool(this, name, '1.0.0', schema.description || name, '', tags, schema);
+    tool.handler = handler;
+    this.registryData.tools = [...this.registryData.tools.filter(t => t !== existing), tool];
+    return true;
+  }
+
+  unregisterRuntimeTool(name: string): boolean {
+    const tool = this.registryData.tools.find(t => t.name === name && t.handler);
+    if (!tool) return false;
+    this.registryData.tools = this.registryData.tools.filter(t => t !== tool);
+    return true;
+  }
   
   private async importToolsFromFile(): Promise<void> {
     try {
       const toolsModule = await import('./tools');
       for (const [name, tool] of Object.entries(toolsModule.tools)) {
-        await this.addTool(name, tool.execute.toString(), tool.schema || {}, tool.tags || []);
+        await this.addTool(name, tool.execute.toString(), tool.schema || {}, [...(tool.tags || []), 'builtin']);
       }
       console.log('Tools imported from tools.ts file.');
     } catch (error) {
@@ -476,6 +797,9 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
         return null;
       }
 
+      if (!shouldSandbox(tool)) {
+        this.loadToolModule(tool);
+      }
       this.loadedTools.add(name);
       console.log(`Tool ${name} loaded successfully.`);
       return tool;
@@ -485,7 +809,9 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
     }
   }
 
-  async updateTool(name: string, source: string, schema: any, tags: string[]): Promise<boolean> {
+  // With `regression`, the new source must pass the tool's golden tests or the
+  // update is refused; AI-made updates (approved proposals, auto-fixes) set it.
+  async updateTool(name: string, source: string, schema: any, tags: string[], reason: string = 'manual', options: { regression?: boolean } = {}): Promise<boolean> {
     try {
       const toolIndex = this.registryData.tools.findIndex(t => t.name === name);
       if (toolIndex === -1) {
@@ -494,15 +820,32 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
       }
 
       const tool: Tool = this.registryData.tools[toolIndex];
-      const newVersion = this.incrementVersion(tool.version);
+      if (tool.handler) {
+        console.error(`Tool ${name} is provided at runtime (${tool.tags.join(', ')}) and cannot be updated.`);
+        return false;
+      }
+      // after a rollback the current version is not the newest one
+      const latest = await this.toolRepo.latestVersion(name);
+      const newVersion = this.incrementVersion(latest && compareVersions(latest, tool.version) > 0 ? latest : tool.version);
+
+      if (options.regression) {
+        const regression = await this.runGoldenSuite(name, { version: newVersion, source, schema, tags });
+        if (regression && !suitePassed(regression)) {
+          console.error(`Update of tool ${name} to ${newVersion} rejected, golden tests failed: ${describeSuite(regression)}`);
+          this.emit('error', `Update of tool ${name} rejected by its golden tests: ${describeSuite(regression)}`);
+          return false;
+        }
+      }
 
       tool.version = newVersion;
       tool.source = source;
       tool.schema = schema;
       tool.tags = tags;
+      tool.metadata = { ...tool.metadata, dependencies: this.dependencies.declare(source, tool.metadata?.dependencies) };
+      this.moduleLoader.invalidate(name);
       this.saveRegistry();
 
-      await this.saveToolToRepo(name, source, newVersion);
+      await this.commitTool(tool, 'update', reason);
       console.log(`Tool ${name} updated to version ${newVersion}.`);
       this.updateMetrics(name, 'version', newVersion);
       return true;
@@ -512,40 +855,80 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
     }
   }
 
-  validateToolInput(toolName: string, params: any): { valid: boolean; errors: any[] } {
+  // `params` is the coerced value that callTool would pass to the tool.
+  validateToolInput(toolName: string, params: any): { valid: boolean; errors: SchemaValidationIssue[]; params: any } {
     const tool = this.tools[toolName];
-    if (!tool || !tool.schema) {
-      return { valid: true, errors: [] };
+    const { value, error } = validateInput(toolName, params, tool?.schema?.input_schema);
+    return { valid: !error, errors: error ? error.issues : [], params: value };
+  }
+
+  // A script that is not already a tool runs as an ephemeral script and stays
+  // out of the registry.
+  async callScript(script: string): Promise<any> {
+    const tool = await this.getTool(script);
+    if (tool) {
+      return await this.callTool(tool.name, {});
     }
-    // Implement input validation logic here
-    return { valid: true, errors: [] };
+    const ephemeral = this.scripts.put('script', script, { description: 'Ad-hoc script' });
+    return await this.runScript(ephemeral.id, {});
   }
 
-  private async saveToolToRepo(name: string, source: string, version: string): Promise<void> {
+  // Runs a stored script in the sandbox, with its schema checked like a tool's.
+  // A script written as a bare function body is wrapped as a module's execute().
+  async runScript(id: string, params: any = {}): Promise<any> {
+    const script = this.scripts.get(id);
+    if (!script) {
+      throw new Error(`Script not found: ${id}`);
+    }
+    const input = validateInput(script.name, params, script.schema?.input_schema);
+    if (input.error) {
+      throw input.error;
+    }
+    const policy = policyForTool(script);
     try {
-      const filePath = path.join(this.repoPath, `${name}.js`);
-      fs.mkdirSync(path.dirname(filePath), { recursive: true });
-      fs.writeFileSync(filePath, source);
-      console.log(`Tool ${name} v${version} saved to repository successfully.`);
+      let result: any;
+      try {
+        result = await runWithUsageScope({ tool: script.name }, () => runInSandbox(script.name, script.source, input.value, this, policy));
+      } catch (error) {
+        if (!(error instanceof SandboxError && error.kind === 'load')) throw error;
+        const wrapped = `module.exports = {\n  async execute(params, api) {\n${script.source}\n  }\n};`;
+        result = await runWithUsageScope({ tool: script.name }, () => runInSandbox(script.name, wrapped, input.value, this, policy));
+        this.scripts.replaceSource(id, wrapped);
+      }
+      const outputError = validateOutput(script.name, result, script.schema?.output_schema);
+      if (outputError) {
+        throw outputError;
+      }
+      this.scripts.recordRun(id, true);
+      return result;
     } catch (error) {
-      console.error(`Error saving tool ${name} to repository:`, error);
+      this.scripts.recordRun(id, false, error.message);
+      throw error;
     }
   }
 
-  async callScript(script: string): Promise<any> {
-    const tool = await this.getTool(script);
-    if (tool) {
-      return await this.callTool(tool.name, {});
-    } else {
-      // If not found as a tool, execute as a new script
-      const taskId = `task_${Date.now()}`;
-      await this.addTool(taskId, script, {
-        name: taskId,
-        description: 'Auto-generated task',
-        methodSignature: `${taskId}(params: any, api: any): Promise<any>`,
-      }, ['ai-generated']);
-      return await this.callTool(taskId, {});
+  // Makes a stored script a registry tool, as an explicit user action.
+  async promoteScript(id: string, name?: string): Promise<boolean> {
+    const script = this.scripts.get(id);
+    if (!script) {
+      throw new Error(`Script not found: ${id}`);
+    }
+    const toolName = name || script.name;
+    const schema = {
+      ...(script.schema || {}),
+      name: toolName,
+      description: script.description,
+      methodSignature: (script.schema?.methodSignature || '(params: any, api: any): Promise<any>').replace(/^[^(]*/, toolName),
+    };
+    const added = await this.addTool(toolName, script.source, schema, ['ai-generated'], `promoted from script ${id}`);
+    if (added) {
+      this.scripts.remove(id);
     }
+    return added;
+  }
+
+  listScripts(runId?: string): EphemeralScript[] {
+    return this.scripts.list(runId);
   }
 
   async getTool(scriptOrName: string): Promise<Tool | null> {
@@ -569,12 +952,28 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
         return false;
       }
 
+      if (this.registryData.tools[toolIndex].handler) {
+        this.emit('error', `Tool ${name} is provided at runtime and has no versions.`);
+        return false;
+      }
+
+      const snapshot = await this.toolRepo.getVersion(name, version);
+      if (!snapshot) {
+        this.emit('error', `Version ${version} of tool ${name} not found.`);
+        return false;
+      }
+
       const tool = this.registryData.tools[toolIndex];
       const oldVersion = tool.version;
       tool.version = version;
-      // Here you would typically retrieve the old source code for the specified version
-      // and update the tool's source. For this example, we'll just update the version.
+      tool.source = snapshot.source;
+      tool.schema = snapshot.schema;
+      tool.tags = snapshot.tags;
+      tool.metadata = snapshot.metadata;
+      tool.testHarness = snapshot.testHarness || tool.testHarness;
+      this.moduleLoader.invalidate(name);
       this.saveRegistry();
+      await this.commitTool(tool, 'rollback', `rolled back from v${oldVersion}`);
 
       this.emit('text', `Tool ${name} rolled back from version ${oldVersion} to ${version} successfully.`);
       this.updateMetrics(name, 'version', version);
@@ -604,6 +1003,22 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
     await this.generateAndRunTests();
   }
 
+  // Native tool-use definitions built from each tool's `input_schema`. Tools that
+  // only declare a method signature get a permissive object schema.
+  getToolDefinitions(names?: string[]): ToolDefinition[] {
+    return this.registryData.tools
+      .filter(tool => !tool.schema?.archived)
+      .filter(tool => !names || names.includes(tool.name))
+      .filter(tool => /^[a-zA-Z0-9_-]{1,64}$/.test(tool.name))
+      .map(tool => ({
+        name: tool.name,
+        description: [tool.schema?.description || tool.description || tool.name, tool.schema?.methodSignature]
+          .filter(Boolean)
+          .join('\n'),
+        input_schema: tool.schema?.input_schema || { type: 'object', properties: {}, additionalProperties: true },
+      }));
+  }
+
   getCompactRepresentation(): any {
     return this.registryData.tools.map(tool => `${tool.schema.methodSignature} - ${tool.schema.description}`).join('\n');
   }
@@ -626,7 +1041,7 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
         content: `Description: ${description}\nSchema: ${JSON.stringify(
           schema
         )}\nConstraints: ${constraints.join(', ')}`
-      }], {} as any, 'gemini-1.5-flash-001');
+      }], {} as any, 'fast');
       toolCode = toolCode.content[0].text;
       const { name, description: toolDescription, methodSignature, source } = JSON.parse(toolCode);
 
@@ -649,15 +1064,44 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
     }
   }
 
-  async generateAndRunTests(): Promise<void> {
+  // Results are kept per tool under `.test-results`; the whole batch is also
+  // written as latest.json and JUnit latest.xml there.
+  async generateAndRunTests(): Promise<TestSuiteResult[]> {
+    const suites: TestSuiteResult[] = [];
     for (const tool of this.registryData.tools) {
-      await tool.generateTestHarness();
+      if (!tool.testHarness) {
+        await tool.generateTestHarness();
+      }
       try {
         await tool.runTests();
+        if (tool.lastTestReport) suites.push(tool.lastTestReport);
       } catch (error) {
         this.emit('text', `Error running tests for tool ${tool.name}:`, error);
       }
     }
+    try {
+      const reports = this.testRunner.writeReports(suites);
+      this.emit('text', `Test reports written to ${reports.json} and ${reports.junit}`);
+    } catch (error) {
+      log('error', `Error writing test reports: ${error.message}`, 'ToolRegistry');
+    }
+    return suites;
+  }
+
+  async testToolByName(name: string): Promise<TestSuiteResult> {
+    const tool = this.registryData.tools.find(t => t.name === name);
+    if (!tool) {
+      throw new Error(`Tool not found: ${name}`);
+    }
+    await this.testTool(tool);
+    if (!tool.lastTestReport) {
+      throw new Error(`No test harness could be generated for tool ${name}`);
+    }
+    return tool.lastTestReport;
+  }
+
+  getTestHistory(name: string, limit?: number): TestSuiteResult[] {
+    return this.testRunner.history(name, limit);
   }
 
   async analyzeAndCreateToolFromScript(script: string, taskDescription: string): Promise<void> {
@@ -727,7 +1171,7 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
       return false;
     }
 
-    return this.addTool(name, source, schema, ['auto-generated']);
+    return this.addTool(name, source, schema, ['auto-generated'], 'auto-generated');
   }
 
   async reviewAutoGeneratedTools(): Promise<void> {
@@ -768,48 +1212,156 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
           console.log(`Tool '${tool.name}' kept. Reason: ${reason}`);
           break;
         case 'modify':
-          await this.updateTool(tool.name, modifications, tool.schema, tool.tags);
-          console.log(`Tool '${tool.name}' modified. Reason: ${reason}`);
+          await this.proposeToolChange(tool.name, 'update', `review: ${reason}`, { source: modifications });
           break;
         case 'remove':
-          await this.removeTool(tool.name);
-          console.log(`Tool '${tool.name}' removed. Reason: ${reason}`);
+          await this.proposeToolChange(tool.name, 'remove', `review: ${reason}`);
           break;
       }
     }
   }
 
-  async removeTool(name: string): Promise<boolean> {
-    const initialLength = this.registryData.tools.length;
-    this.registryData.tools = this.registryData.tools.filter(tool => tool.name !== name);
-    const removed = this.registryData.tools.length < initialLength;
+  // AI-made changes to existing tools go through here. They are applied at once
+  // when the tool's tags are auto-approved, otherwise queued for `.review`.
+  async proposeToolChange(
+    name: string,
+    action: PendingChangeAction,
+    reason: string,
+    change: { source?: string; schema?: any; tags?: string[] } = {}
+  ): Promise<PendingChange | null> {
+    const tool = this.registryData.tools.find(t => t.name === name);
+    if (!tool) {
+      console.error(`Tool not found: ${name}`);
+      return null;
+    }
+
+    const source = change.source ?? tool.source;
+    const schema = change.schema ?? tool.schema;
+    const tags = change.tags ?? tool.tags;
+    let diff = '';
+    try {
+      diff = await this.toolRepo.previewDiff(name, action === 'remove'
+        ? null
+        : { version: tool.version, source, schema, tags, metadata: tool.metadata });
+    } catch (error) {
+      log('warn', `Could not diff proposed change to ${name}: ${error.message}`, 'ToolRegistry');
+    }
+    if (action === 'update' && !diff) {
+      log('info', `Proposed change to ${name} (${reason}) is identical to v${tool.version}; ignored`, 'ToolRegistry');
+      return null;
+    }
+
+    // a change that breaks golden tests is never queued
+    const regression = action === 'update'
+      ? await this.runGoldenSuite(name, { version: `${tool.version}-proposed`, source, schema, tags })
+      : null;
+    if (regression && !suitePassed(regression)) {
+      this.emit('error', `Proposed change to tool ${name} (${reason}) dropped, golden tests failed: ${describeSuite(regression)}`);
+      return null;
+    }
+
+    const pending = this.pendingChanges.add({
+      tool: name,
+      action,
+      baseVersion: tool.version,
+      ...(action === 'update' ? { source, schema, tags } : {}),
+      reason,
+      diff,
+      testResult: tool.lastTestResult ? { ...tool.lastTestResult } : null,
+      regression,
+    });
+
+    // an AI-written change to a tool that runs unsandboxed is always reviewed
+    if (isAutoApproved(tool.tags) && shouldSandbox(tool)) {
+      await this.approveToolChange(pending.id, 'auto-approve');
+      return pending;
+    }
+    this.emit('text', `Change to tool ${name} (${action}: ${reason}) is waiting for review: .review ${pending.id}`);
+    return pending;
+  }
+
+  listPendingChanges(): PendingChange[] {
+    return this.pendingChanges.list();
+  }
+
+  async approveToolChange(id: string, approvedBy: string = 'user'): Promise<boolean> {
+    const change = this.pendingChanges.get(id);
+    if (!change) {
+      throw new Error(`Pending change not found: ${id}`);
+    }
+    const tool = this.registryData.tools.find(t => t.name === change.tool);
+    if (!tool) {
+      this.pendingChanges.remove(id);
+      throw new Error(`Tool ${change.tool} no longer exists; change ${id} dropped.`);
+    }
+    if (tool.version !== change.baseVersion) {
+      throw new Error(`Change ${id} was proposed against v${change.baseVersion} of ${change.tool}, which is now at v${tool.version}. Reject it and propose it again.`);
+    }
+
+    const reason = `${change.reason} (approved by ${approvedBy})`;
+    const applied = change.action === 'remove'
+      ? await this.removeTool(change.tool, reason)
+      : await this.updateTool(change.tool, change.source, change.schema, change.tags, reason, { regression: true });
+    if (applied) {
+      this.pendingChanges.remove(id);
+      log('info', `Applied ${change.action} of ${change.tool}: ${reason}`, 'ToolRegistry');
+    }
+    return applied;
+  }
+
+  rejectToolChange(id: string): boolean {
+    const change = this.pendingChanges.remove(id);
+    if (change) {
+      log('info', `Rejected ${change.action} of ${change.tool} (${change.reason})`, 'ToolRegistry');
+    }
+    return !!change;
+  }
+
+  async removeTool(name: string, reason: string = 'manual'): Promise<boolean> {
+    const tool = this.registryData.tools.find(t => t.name === name);
+    this.registryData.tools = this.registryData.tools.filter(t => t.name !== name);
+    const removed = !!tool;
+    if (removed && tool.handler) {
+      return true;
+    }
     if (removed) {
+      this.moduleLoader.invalidate(name);
       this.saveRegistry();
+      try {
+        await this.toolRepo.remove(name, tool.version, reason);
+      } catch (error) {
+        log('error', `Error committing removal of tool ${name}: ${error.message}`, 'ToolRegistry');
+      }
       console.log(`Tool '${name}' removed successfully.`);
     }
     return removed;
   }
 
-  async addTool(name: string, source: string, schema: any, tags: string[]): Promise<boolean> {
+  // `standardize: false` keeps the source as written (the dev loop's tool files);
+  // `dependencies` declares npm packages as `name@range`.
+  async addTool(name: string, source: string, schema: any, tags: string[], reason: string = 'manual', options: { standardize?: boolean; dependencies?: string[] } = {}): Promise<boolean> {
     if (this.registryData.tools.some(t => t.name === name)) {
       console.log(`Tool '${name}' already exists. Skipping addition.`);
       return false;
     }
     try {
       let standardizedSource = source;
-      try {
-        standardizedSource = await this.standardizeTool(name, source, schema);
-      } catch (error) {
-        console.warn(`Failed to standardize tool ${name}. Using original source.`, error);
+      if (options.standardize !== false) {
+        try {
+          standardizedSource = await runWithUsageScope({ tool: name }, () => this.standardizeTool(name, source, schema));
+        } catch (error) {
+          console.warn(`Failed to standardize tool ${name}. Using original source.`, error);
+        }
       }
 
       const version = '1.0.0';
       const newTool = new Tool(this, name, version, schema.description, standardizedSource, tags, schema);
+      newTool.metadata.dependencies = this.dependencies.declare(standardizedSource, options.dependencies);
 
       this.registryData.tools.push(newTool);
       this.saveRegistry();
 
-      await this.saveToolToRepo(name, standardizedSource, version);
+      await this.commitTool(newTool, 'add', reason);
       console.log(`Tool ${name} added successfully.`);
       return true;
     } catch (error) {
@@ -870,6 +1422,8 @@ You output only RAW JAVASCRIPT, WITHOUT ANY COMMENTARY, EXPLANATION or FORMATTIN
         },
         errorRate: 0,
         usageCount: 0,
+        loadErrors: 0,
+        lastLoadError: null,
       };
     }
   }
@@ -1,80 +1,229 @@
 // toolWatcher.ts
+// Dev mode for tool authors. Each `<name>.ts` / `<name>.js` file under tools/
+// is a tool: saving it compiles it, registers it as the tool's next version and
+// re-runs the tool's tests. A `<name>.test.ts` / `.test.js` next to it becomes
+// the tool's test harness. Results are emitted as 'reload' events.
 import chokidar from 'chokidar';
 import path from 'path';
 import fs from 'fs';
+import { EventEmitter } from 'events';
 import ToolRegistry from './toolRegistry';
+import { Tool } from './tool';
 import { log } from './logger';
+import { registerProtectedPath } from './sandbox/policy';
+import { runWithUsageScope } from './llm/usage';
+import { describeSuite, suitePassed, TestSuiteResult } from './testing/results';
 
-export class ToolWatcher {
-  private watcher: chokidar.FSWatcher;
-  private toolsDir: string;
+export type ToolReloadStatus = 'added' | 'updated' | 'unchanged' | 'removed' | 'failed';
 
-  constructor(private toolRegistry: ToolRegistry) {
-    this.toolsDir = path.join(__dirname, '../../tools');
-    // does the tools directory exist?
+export interface ToolReload {
+  tool: string;
+  file: string;
+  status: ToolReloadStatus;
+  version?: string;
+  error?: string;
+  // null when the tool has no test harness
+  tests?: TestSuiteResult | null;
+}
+
+const testFilePattern = /\.test\.(ts|js)$/;
+
+function isToolFile(filePath: string): boolean {
+  return /\.(ts|js)$/.test(filePath) && !filePath.endsWith('.d.ts') && !testFilePattern.test(filePath);
+}
+
+function toolNameOf(filePath: string): string {
+  return path.basename(filePath).replace(testFilePattern, '').replace(/\.(ts|js)$/, '');
+}
+
+// The schema the module exports (as `schema`, or on its default export); the
+// tool's current one otherwise.
+function declaredSchema(name: string, exported: any, current: any): any {
+  const schema = [exported, exported?.default].find(candidate => candidate?.schema && typeof candidate.schema === 'object')?.schema;
+  if (schema) return { description: name, ...schema, name };
+  return current || { name, description: name, methodSignature: `${name}(params: any): Promise<any>`, input_schema: { type: 'object', properties: {} } };
+}
+
+function declaredTags(exported: any, current: string[] | undefined): string[] {
+  const tags = [exported, exported?.default].find(candidate => Array.isArray(candidate?.tags))?.tags;
+  return tags || current || ['dev'];
+}
+
+// One line for the terminal.
+export function describeReload(reload: ToolReload): string {
+  const label = path.basename(reload.file);
+  if (reload.status === 'failed') return `✗ ${label}: ${reload.error}`;
+  if (reload.status === 'removed') return `${label}: tool ${reload.tool} removed`;
+  const change = reload.status === 'unchanged' ? 'unchanged' : `${reload.status} v${reload.version}`;
+  if (reload.tests === undefined) return `${label}: ${reload.tool} ${change}`;
+  if (reload.tests === null) return `${label}: ${reload.tool} ${change}, no tests (add ${reload.tool}.test.ts next to it)`;
+  const mark = suitePassed(reload.tests) ? '✓' : '✗';
+  return `${mark} ${label}: ${reload.tool} ${change}, ${describeSuite(reload.tests)}`;
+}
+
+export function reloadFailed(reload: ToolReload): boolean {
+  return reload.status === 'failed' || (!!reload.tests && !suitePassed(reload.tests));
+}
+
+export class ToolWatcher extends EventEmitter {
+  private watcher: chokidar.FSWatcher | null = null;
+  // reloads run one at a time, in the order the files were saved
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private toolRegistry: ToolRegistry, public toolsDir: string = path.join(__dirname, '../../tools')) {
+    super();
+    // files dropped here are compiled in the host and registered with their own tags
+    registerProtectedPath(toolsDir);
+  }
+
+  get watching(): boolean {
+    return !!this.watcher;
+  }
+
+  // Brings the registry up to date with the files already there, then watches.
+  async start(): Promise<void> {
+    if (this.watcher) return;
     if (!fs.existsSync(this.toolsDir)) {
-      fs.mkdirSync(this.toolsDir);
+      fs.mkdirSync(this.toolsDir, { recursive: true });
     }
     this.watcher = chokidar.watch(this.toolsDir, {
       ignored: /(^|[\/\\])\../, // ignore dotfiles
-      persistent: true
+      persistent: true,
+      ignoreInitial: true,
+      // editors write a file in several steps
+      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
     });
-
     this.setupWatcher();
+    await this.loadExistingTools();
+    log('info', `Watching ${this.toolsDir} for tool changes`, 'ToolWatcher');
+  }
+
+  async stop(): Promise<void> {
+    const watcher = this.watcher;
+    this.watcher = null;
+    await watcher?.close();
+    await this.queue;
   }
 
   private setupWatcher() {
     this.watcher
-      .on('add', (filePath) => this.handleNewFile(filePath))
+      .on('add', (filePath) => this.handleFileChange(filePath))
       .on('change', (filePath) => this.handleFileChange(filePath))
       .on('unlink', (filePath) => this.handleFileRemoval(filePath));
   }
 
-  private async handleNewFile(filePath: string) {
-    log('info', `New tool file detected: ${filePath}`, 'ToolWatcher');
-    await this.loadTool(filePath);
+  private enqueue(task: () => Promise<ToolReload | null>): Promise<void> {
+    this.queue = this.queue.then(task).then(reload => {
+      if (reload) this.emit('reload', reload);
+    }).catch(error => log('error', `Error reloading tool: ${error.message}`, 'ToolWatcher'));
+    return this.queue;
   }
 
-  private async handleFileChange(filePath: string) {
+  private handleFileChange(filePath: string) {
     log('info', `Tool file changed: ${filePath}`, 'ToolWatcher');
-    await this.loadTool(filePath);
+    const toolFile = isToolFile(filePath) ? filePath : this.toolFileOf(filePath);
+    if (toolFile) {
+      this.enqueue(() => this.loadTool(toolFile));
+    }
   }
 
-  private async handleFileRemoval(filePath: string) {
+  private handleFileRemoval(filePath: string) {
+    if (!isToolFile(filePath)) return;
     log('info', `Tool file removed: ${filePath}`, 'ToolWatcher');
-    const toolName = path.basename(filePath, '.ts');
-    await this.toolRegistry.removeTool(toolName);
+    this.enqueue(async () => {
+      const toolName = toolNameOf(filePath);
+      const tool = this.toolRegistry.getTools()[toolName];
+      if (!tool || tool.handler) return null;
+      await this.toolRegistry.removeTool(toolName, `dev: ${path.basename(filePath)} removed`);
+      return { tool: toolName, file: filePath, status: 'removed' };
+    });
+  }
+
+  // The tool file a test file belongs to.
+  private toolFileOf(testFile: string): string | null {
+    if (!testFilePattern.test(testFile)) return null;
+    const base = path.join(path.dirname(testFile), toolNameOf(testFile));
+    return [`${base}.ts`, `${base}.js`].find(candidate => fs.existsSync(candidate)) || null;
   }
 
-  private async loadTool(filePath: string) {
+  private testHarnessOf(toolFile: string): string | null {
+    const base = toolFile.replace(/\.(ts|js)$/, '');
+    const testFile = [`${base}.test.ts`, `${base}.test.js`].find(candidate => fs.existsSync(candidate));
+    return testFile ? fs.readFileSync(testFile, 'utf8') : null;
+  }
+
+  // Compiles the file and registers it as the tool's next version (or as a new
+  // tool), then runs the tool's tests. A file identical to the current version
+  // is left alone, and its tests are only run when its test file changed.
+  async loadTool(filePath: string): Promise<ToolReload> {
+    const toolName = toolNameOf(filePath);
+    const reload: ToolReload = { tool: toolName, file: filePath, status: 'failed' };
+    const reason = `dev: ${path.basename(filePath)}`;
     try {
-      const toolName = path.basename(filePath, '.ts');
-      
-      if (this.toolRegistry.hasTool(toolName)) {
-        log('info', `Tool '${toolName}' already loaded. Skipping.`, 'ToolWatcher');
-        return;
+      const source = fs.readFileSync(filePath, 'utf8');
+      // throws a ModuleLoadError saying whether it failed to compile, run or export
+      const compiled = this.toolRegistry.moduleLoader.compile(toolName, 'dev', source);
+
+      const current = this.toolRegistry.getTools()[toolName];
+      if (current?.handler) {
+        throw new Error(`${toolName} is provided at runtime (${current.tags.join(', ')}) and cannot be replaced by a file`);
       }
-  
-      const toolModule = await import(filePath);
-      
-      if (toolModule.default && typeof toolModule.default === 'object') {
-        const tool = toolModule.default;
-        await this.toolRegistry.addTool(toolName, tool.execute, tool.schema, tool.tags || []);
-        log('info', `Tool '${toolName}' loaded successfully`, 'ToolWatcher');
+      const schema = declaredSchema(toolName, compiled.exports, current?.schema);
+      const tags = declaredTags(compiled.exports, current?.tags);
+
+      if (!current) {
+        if (!(await this.toolRegistry.addTool(toolName, source, schema, tags, reason, { standardize: false }))) {
+          throw new Error(`The registry did not add ${toolName}`);
+        }
+        reload.status = 'added';
+      } else if (current.source === source && JSON.stringify(current.schema) === JSON.stringify(schema) && current.tags.join() === tags.join()) {
+        reload.status = 'unchanged';
       } else {
-        log('error', `Invalid tool format in file: ${filePath}`, 'ToolWatcher');
+        if (!(await this.toolRegistry.updateTool(toolName, source, schema, tags, reason))) {
+          throw new Error(`The registry did not update ${toolName}`);
+        }
+        reload.status = 'updated';
       }
+
+      const tool = this.toolRegistry.getTools()[toolName];
+      reload.version = tool.version;
+      const harnessChanged = await this.syncTestHarness(tool, filePath);
+      if (reload.status !== 'unchanged' || harnessChanged) {
+        reload.tests = await this.runTests(tool);
+      }
+      log('debug', describeReload(reload), 'ToolWatcher');
     } catch (error) {
+      reload.error = error.message;
       log('error', `Error loading tool from file ${filePath}: ${error.message}`, 'ToolWatcher');
     }
+    return reload;
+  }
+
+  private async syncTestHarness(tool: Tool, filePath: string): Promise<boolean> {
+    const harness = this.testHarnessOf(filePath);
+    if (!harness || harness === tool.testHarness) return false;
+    tool.testHarness = harness;
+    await tool.saveTool();
+    await this.toolRegistry.commitTestHarness(tool, `dev: tests of ${path.basename(filePath)}`);
+    return true;
   }
 
-  public async loadExistingTools() {
-    const files = await fs.promises.readdir(this.toolsDir);
+  private async runTests(tool: Tool): Promise<TestSuiteResult | null> {
+    if (!tool.testHarness) return null;
+    await runWithUsageScope({ tool: tool.name }, () => tool.runTests());
+    return tool.lastTestReport;
+  }
+
+  public async loadExistingTools(): Promise<ToolReload[]> {
+    const reloads: ToolReload[] = [];
+    const files = (await fs.promises.readdir(this.toolsDir)).filter(isToolFile).sort();
     for (const file of files) {
-      if (file.endsWith('.ts')) {
-        await this.loadTool(path.join(this.toolsDir, file));
-      }
+      await this.enqueue(async () => {
+        const reload = await this.loadTool(path.join(this.toolsDir, file));
+        reloads.push(reload);
+        return reload;
+      });
     }
+    return reloads;
   }
-}
\ No newline at end of file
+}
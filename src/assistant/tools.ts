@@ -4,6 +4,7 @@
 import 'dotenv/config';
 import shell from 'shelljs';
 import Conversation from './conversation';
+import { hasProvider, listProviders } from './llm/registry';
 import validator from 'validator';
 import * as fs from 'fs/promises'; // Use fs.promises for async/await
 import ajv from 'ajv';
@@ -705,10 +706,9 @@ export const tools: { [key: string]: any } = {
     execute: async (params: any, api) => {
       const { exec } = require('child_process');
       return new Promise((resolve, reject) => {
-        params = Array.isArray(params) ? params[0] : params;
-        exec(params, (error: any, stdout: any, stderr: any) => {
+        exec(params.command, (error: any, stdout: any, stderr: any) => {
           if (error) {
-            resolve(error);
+            resolve(stderr || error.message);
           } else {
             resolve(stdout);
           }
@@ -761,6 +761,21 @@ export const tools: { [key: string]: any } = {
       'name': 'say_aloud',
       'description': 'Speaks the given text aloud using PlayHT. PASS IN A text and voice PARAMETERS TO SPEAK ALOUD. voice can be either \'male\' or \'female\'.',
       'methodSignature': 'say_aloud({text, voice}:{string, string}): string',
+      'input_schema': {
+        'type': 'object',
+        'properties': {
+          'text': {
+            'type': 'string',
+            'description': 'The text to speak aloud',
+          },
+          'voice': {
+            'type': 'string',
+            'enum': ['male', 'female'],
+            'description': 'The voice to speak with',
+          },
+        },
+        'required': ['text'],
+      },
     },
     execute: async (params: any, api: any) => {
       const PlayHT = require('playht');
@@ -807,40 +822,35 @@ export const tools: { [key: string]: any } = {
         });
       }
 
-      if (!Array.isArray(params)) params = [params];
-      for (const param of params) {
-        // if params is a string, convert it to an object
-        let { text, voice } = param;
-        voice = voice || 'female';
-        if (!text) throw new Error('Text is required to speak aloud');
-        if (!voice) throw new Error('Voice is required to speak aloud');
+      let { text, voice } = params;
+      voice = voice || 'female';
+      if (!text) throw new Error('Text is required to speak aloud');
+      if (!voice) throw new Error('Voice is required to speak aloud');
 
-        let sentences = await api.conversation.chat([
-          {
-            role: 'system',
-            content: 'Convert the given text into a number of sentences meant to be spoken aloud. This means breaking the text into sentences that are easy to read and understand as well as phonetically pronouncing any difficult words, urls, or acronyms.*** Return your response as a RAW JSON ARRAY of strings. ***',
-          },
-          {
-            role: 'user',
-            content: text + '\n\n*** Return your response as a RAW JSON ARRAY of strings. ***',
-          },
-        ]);
-        sentences = sentences.content[0].text;
-        sentences = sentences instanceof Array ? sentences : JSON.parse(sentences);
-        const consumeSentence = async () => {
-          return new Promise((resolve, reject) => {
-            const loop: any = async () => {
-              const sentence = sentences.shift();
-              if (!sentence) return resolve('done');
-              await speakSentence(sentence, voice);
-              return await loop();
-            };
-            return loop();
-          });
-        };
-        await consumeSentence();
-
-      }
+      let sentences = await api.conversation.chat([
+        {
+          role: 'system',
+          content: 'Convert the given text into a number of sentences meant to be spoken aloud. This means breaking the text into sentences that are easy to read and understand as well as phonetically pronouncing any difficult words, urls, or acronyms.*** Return your response as a RAW JSON ARRAY of strings. ***',
+        },
+        {
+          role: 'user',
+          content: text + '\n\n*** Return your response as a RAW JSON ARRAY of strings. ***',
+        },
+      ]);
+      sentences = sentences.content[0].text;
+      sentences = sentences instanceof Array ? sentences : JSON.parse(sentences);
+      const consumeSentence = async () => {
+        return new Promise((resolve, reject) => {
+          const loop: any = async () => {
+            const sentence = sentences.shift();
+            if (!sentence) return resolve('done');
+            await speakSentence(sentence, voice);
+            return await loop();
+          };
+          return loop();
+        });
+      };
+      await consumeSentence();
 
       return '(aloud) ' + text;
     },
@@ -948,83 +958,90 @@ export const tools: { [key: string]: any } = {
     'description': 'Call the LLM with the given system prompt and prompt, optionally specifying the model and response format and setting a result variable.',
     'schema': {
       'name': 'callLLM',
-      "methodSignature": "callLLM(params: { prompt: string, system_prompt?: string, model?: string, responseFormat?: string, resultVar?: string }[]): any",
+      "methodSignature": "callLLM(params: { prompt: string, system_prompt?: string, model?: string, responseFormat?: string, resultVar?: string }): any",
       'description': 'Call the LLM with the given system prompt and prompt, optionally specifying the model and response format and setting a result variable.',
+      'input_schema': {
+        'type': 'object',
+        'properties': {
+          'prompt': { 'type': 'string', 'description': 'The prompt to send' },
+          'system_prompt': { 'type': 'string', 'description': 'The system prompt; defaults to the prompt' },
+          'model': { 'type': 'string', 'description': 'The model to call' },
+          'responseFormat': { 'type': 'string', 'description': 'A TypeScript type the response must match' },
+          'resultVar': { 'type': 'string', 'description': 'A variable to store the response in' },
+        },
+        'required': ['prompt'],
+      },
     },
     execute: async (params: any, api: any) => {
-      if (!Array.isArray(params)) params = [params];
-      for (const param of params) {
-        let { prompt, system_prompt, model, responseFormat, resultVar } = param;
-        try {
-          if (!prompt) {
-            throw new Error("Both 'prompt' and 'system_prompt' are required parameters for the 'callLLM' tool.");
-          }
-          if (!system_prompt) system_prompt = prompt;
-          model = model || 'claude';
-          if (model !== 'claude' && model !== 'gemini') {
-            throw new Error("Invalid model specified. Choose either 'claude' or 'gemini'.");
-          }
-          if (responseFormat) {
-            system_prompt = `${system_prompt}. Response Format: You MUST respond with a JSON - encoded string in the following format: \n\`\`\`typescript\n${responseFormat}\n\`\`\`\n`;
-          }
-          const convo = new Conversation(model);
-          const response = await convo.chat([
-            {
-              role: 'system',
-              content: system_prompt,
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ]);
+      let { prompt, system_prompt, model, responseFormat, resultVar } = params;
+      try {
+        if (!prompt) {
+          throw new Error("Both 'prompt' and 'system_prompt' are required parameters for the 'callLLM' tool.");
+        }
+        if (!system_prompt) system_prompt = prompt;
+        if (model && !hasProvider(model)) {
+          throw new Error(`Invalid model specified. Choose one of: ${listProviders().join(', ')}.`);
+        }
+        if (responseFormat) {
+          system_prompt = `${system_prompt}. Response Format: You MUST respond with a JSON - encoded string in the following format: \n\`\`\`typescript\n${responseFormat}\n\`\`\`\n`;
+        }
+        const convo = new Conversation(model);
+        const response = await convo.chat([
+          {
+            role: 'system',
+            content: system_prompt,
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ]);
 
-          const data = response.content[0].text.trim();
+        const data = response.content[0].text.trim();
 
-          // Validate JSON structure before parsing
-          if (responseFormat) {
-            try {
-              const isValidJson = jsonValidator(responseFormat, data);
-              if (!isValidJson) {
-                throw new Error('Invalid JSON structure in LLM response. Actual response: ' + data) + ' Expected response format: ' + responseFormat;
-              }
+        // Validate JSON structure before parsing
+        if (responseFormat) {
+          try {
+            const isValidJson = jsonValidator(responseFormat, data);
+            if (!isValidJson) {
+              throw new Error('Invalid JSON structure in LLM response. Actual response: ' + data) + ' Expected response format: ' + responseFormat;
+            }
 
-              const rr = JSON.parse(data);
-              if (resultVar) {
-                api.store[resultVar] = rr;
-              }
-              return rr;
-            } catch (error: any) {
-              api.emit('error', `JSON parsing failed for LLM response: ${data}`);
-              if (resultVar) {
-                api.store[resultVar] = data;
-              }
-              return data;
+            const rr = JSON.parse(data);
+            if (resultVar) {
+              api.store[resultVar] = rr;
             }
-          } else {
+            return rr;
+          } catch (error: any) {
+            api.emit('error', `JSON parsing failed for LLM response: ${data}`);
             if (resultVar) {
               api.store[resultVar] = data;
             }
             return data;
           }
-        } catch (error: any) {
-          let llmResponse = await api.conversation.chat([
-            {
-              role: 'system',
-              content: 'Analyze the provided error details and generate a fix or provide guidance on resolving the issue.',
-            },
-            {
-              role: 'user',
-              content: JSON.stringify({
-                error: error.message,
-                stackTrace: error.stack,
-                context: { prompt, system_prompt, model, responseFormat, resultVar },
-              }),
-            },
-          ]);
-          llmResponse = llmResponse.content[0].text.trim();
-          throw error;
+        } else {
+          if (resultVar) {
+            api.store[resultVar] = data;
+          }
+          return data;
         }
+      } catch (error: any) {
+        let llmResponse = await api.conversation.chat([
+          {
+            role: 'system',
+            content: 'Analyze the provided error details and generate a fix or provide guidance on resolving the issue.',
+          },
+          {
+            role: 'user',
+            content: JSON.stringify({
+              error: error.message,
+              stackTrace: error.stack,
+              context: { prompt, system_prompt, model, responseFormat, resultVar },
+            }),
+          },
+        ]);
+        llmResponse = llmResponse.content[0].text.trim();
+        throw error;
       }
     },
   },
@@ -1037,13 +1054,13 @@ export const tools: { [key: string]: any } = {
       "methodSignature": "call_agent(params: { prompt: string, model?: string, resultVar?: string }): any",
       'description': 'Call the agent with the given task to perform.'
     },
-    execute: async ({ prompt, model = 'claude', resultVar }: any, api: any) => {
+    execute: async ({ prompt, model, resultVar }: any, api: any) => {
       try {
         if (!prompt) {
           throw new Error("The 'prompt' parameter is required for the 'call_agent' tool.");
         }
-        if (model !== 'claude' && model !== 'gemini') {
-          throw new Error("Invalid model specified. Choose either 'claude' or 'gemini'.");
+        if (model && !hasProvider(model)) {
+          throw new Error(`Invalid model specified. Choose one of: ${listProviders().join(', ')}.`);
         }
         const compactRepresentation = () => {
           return JSON.stringify(api.getSchemas());
@@ -1200,7 +1217,7 @@ CRITICAL: Verify the JSON output for accuracy and completeness before submission
         }
         const results = await Promise.all(
           prompts.map(async (prompt: string) => {
-            return await api.callTool('call_agent', { prompt, model: 'claude' });
+            return await api.callTool('call_agent', { prompt });
           }),
         );
         if (resultVar) {
@@ -1294,67 +1311,73 @@ CRITICAL: Verify the JSON output for accuracy and completeness before submission
       'name': 'apply_patch',
       "methodSignature": "apply_patch({ file: string, patch: string, resultVar?: string }): string",
       'description': 'Apply a universal patch to a file. Pass a file path, a patch string, and an optional resultVar to save the patched file contents.',
-      "required": ["file", "patch"],
+      'input_schema': {
+        'type': 'object',
+        'properties': {
+          'file': { 'type': 'string', 'description': 'The file to patch' },
+          'patch': { 'type': 'string', 'description': 'The universal patch to apply' },
+          'resultVar': { 'type': 'string', 'description': 'A variable to store the patched file contents in' },
+        },
+        'required': ['file', 'patch'],
+      },
     },
     execute: async (params: any, api: any) => {
-      if (!Array.isArray(params)) params = [params];
-      for (const { file, patch, resultVar } of params) {
+      const { file, patch, resultVar } = params;
+      try {
+        if (!file || !patch) {
+          throw new Error("Both 'file' and 'patch' are required parameters for the 'apply_patch' tool.");
+        }
+        const existsSync = require('fs').existsSync;
+        const filePath = require('path').resolve(file);
+        if (!(await existsSync(filePath))) {
+          throw new Error(`The file '${file}' does not exist.`);
+        }
         try {
-          if (!file || !patch) {
-            throw new Error("Both 'file' and 'patch' are required parameters for the 'apply_patch' tool.");
-          }
-          const existsSync = require('fs').existsSync;
-          const filePath = require('path').resolve(file);
-          if (!(await existsSync(filePath))) {
-            throw new Error(`The file '${file}' does not exist.`);
+          const result = await api.callTool('busybox', {
+            command: 'patch',
+            args: [file],
+            options: { input: patch },
+            resultVar,
+          });
+          if (resultVar) {
+            api.store[resultVar] = result;
           }
+          return result;
+        } catch (error: any) {
           try {
-            const result = await api.callTool('busybox', {
-              command: 'patch',
-              args: [file],
-              options: { input: patch },
-              resultVar,
-            });
-            if (resultVar) {
-              api.store[resultVar] = result;
-            }
-            return result;
+            const fileContent = await fs.readFile(file, 'utf8');
+            const results = await api.conversation.chat([
+              {
+                role: 'system',
+                content: 'Given one or more universal patches and file content, analyze the patches and the file content to determine the best way to apply the patch to the content, then apply the patch to the file. Return ONLY the patched file contents IN ITS ENTIRETY.',
+              },
+              {
+                role: 'user',
+                content: `File content: ${fileContent}\n\nPatch: ${patch}`,
+              },
+            ]);
+            return results.content[0].text;
           } catch (error: any) {
-            try {
-              const fileContent = await fs.readFile(file, 'utf8');
-              const results = await api.conversation.chat([
-                {
-                  role: 'system',
-                  content: 'Given one or more universal patches and file content, analyze the patches and the file content to determine the best way to apply the patch to the content, then apply the patch to the file. Return ONLY the patched file contents IN ITS ENTIRETY.',
-                },
-                {
-                  role: 'user',
-                  content: `File content: ${fileContent}\n\nPatch: ${patch}`,
-                },
-              ]);
-              return results.content[0].text;
-            } catch (error: any) {
-              throw new Error(`Failed to apply patch: ${error.message} Tool source: ${error.stack}`);
-            }
+            throw new Error(`Failed to apply patch: ${error.message} Tool source: ${error.stack}`);
           }
-        } catch (error: any) {
-          let llmResponse = await api.conversation.chat([
-            {
-              role: 'system',
-              content: 'Analyze the provided error details and generate a fix or provide guidance on resolving the issue.',
-            },
-            {
-              role: 'user',
-              content: JSON.stringify({
-                error: error.message,
-                stackTrace: error.stack,
-                context: { file, patch, resultVar },
-              }),
-            },
-          ]);
-          llmResponse = llmResponse.content[0].text.trim();
-          throw new Error(llmResponse);
         }
+      } catch (error: any) {
+        let llmResponse = await api.conversation.chat([
+          {
+            role: 'system',
+            content: 'Analyze the provided error details and generate a fix or provide guidance on resolving the issue.',
+          },
+          {
+            role: 'user',
+            content: JSON.stringify({
+              error: error.message,
+              stackTrace: error.stack,
+              context: { file, patch, resultVar },
+            }),
+          },
+        ]);
+        llmResponse = llmResponse.content[0].text.trim();
+        throw new Error(llmResponse);
       }
     },
   },
@@ -1626,7 +1649,7 @@ CRITICAL: Verify the JSON output for accuracy and completeness before submission
       'description': 'given some text content with some JSON within it, it will extract the JSON and return a syntactically correct JSON object/array, given some text content without any JSON within it, it will attempt to structure the text content into a JSON object',
     },
     execute: async ({ json, resultVar }: any, api: any) => {
-      const convo = new Conversation('gemini');
+      const convo = new Conversation();
       const sp = `Given some content that contains a JSON object or array, you ignore EVERYTHING BEFORE OR AFTER what is obviously JSON data, ignoring funky keys and weird data, and you output a syntactically-valid version of the JSON, with other quoting characters properly escaped, on a single line. If the content contains no JSON data, you output a JSON object containing the input data, structured in the most appropriate manner for the data.`;
       const tasks = await convo.chat([
         {
@@ -1637,7 +1660,7 @@ CRITICAL: Verify the JSON output for accuracy and completeness before submission
           role: 'user',
           content: json,
         },
-      ], {} as any, 'gemini-1.5-flash-001');
+      ], {} as any, 'fast');
       let task = tasks.content[0].text;
       try {
         task = JSON.parse(task);
@@ -35,11 +35,22 @@ export interface Assistant extends EventEmitter {
   callTool: (toolName: string, params: any) => Promise<any>;
 }
 
+// A snapshot of a tool as it was at one version
+export interface ToolVersion {
+  version: string;
+  source: string;
+  schema: any;
+  tags: string[];
+  metadata: any;
+  testHarness?: string;
+  createdAt: string;
+}
+
 // Define the structure of the tool repository
 export interface ToolRepo {
   [toolName: string]: {
     versions: {
-      [version: string]: string; // source code for the version
+      [version: string]: ToolVersion;
     };
   };
 }
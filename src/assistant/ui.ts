@@ -7,6 +7,7 @@ import { Theme, themes } from './themes';
 export class UI extends EventEmitter {
   readlineInterface: any;
   currentTheme: Theme;
+  private streaming = false;
 
   constructor() {
     super();
@@ -36,9 +37,13 @@ export class UI extends EventEmitter {
     }
   }
 
+  // When `partial` is set the content is a streamed fragment: it is appended to
+  // the current line instead of printed as a line of its own. The next regular
+  // update closes the streamed block.
   updateOutput(
     content: string,
-    type: 'userInput' | 'aiResponse' | 'error' | 'warning' | 'info' | 'debug' | 'success' = 'info'
+    type: 'userInput' | 'aiResponse' | 'error' | 'warning' | 'info' | 'debug' | 'success' = 'info',
+    partial: boolean = false
   ) {
     let coloredContent;
     switch (type) {
@@ -66,7 +71,20 @@ export class UI extends EventEmitter {
       default:
         coloredContent = content;
     }
-    process.stdout.write('\u001b[1A\u001b[2K');
+    if (partial) {
+      if (!this.streaming) {
+        process.stdout.write('\u001b[1A\u001b[2K');
+        this.streaming = true;
+      }
+      process.stdout.write(coloredContent);
+      return;
+    }
+    if (this.streaming) {
+      process.stdout.write('\n');
+      this.streaming = false;
+    } else {
+      process.stdout.write('\u001b[1A\u001b[2K');
+    }
     console.log(coloredContent);
   }
 
@@ -2,33 +2,116 @@ import { ChromaClient } from 'chromadb';
 import { TerminalSessionManager } from './assistant/terminalSessionManager';
 import { Assistant } from './assistant/assistant';
 import { MaintenanceManager } from './assistant/maintenance';
-import { log } from './assistant/logger';
+import { log, logToStderr } from './assistant/logger';
 import chalk from 'chalk';
 import * as packageJson from '../package.json';
 import ToolRegistry from './assistant/toolRegistry';
+import { ServerSessionManager } from './assistant/server/sessions';
+import { createServerMethods } from './assistant/server/methods';
+import { defaultServerPort, generateServerToken, startHttpServer } from './assistant/server/http';
+import { serveStdio } from './assistant/server/stdio';
+import { McpClientManager } from './assistant/mcp/manager';
+import { McpToolServer } from './assistant/mcp/server';
+import { PluginLoader } from './assistant/plugins/loader';
 
 
 const client = new ChromaClient({
   path: 'http://localhost:8000',
 });
 
+// For the stdio protocols: anything else written to stdout would corrupt them.
+function reserveStdout() {
+  logToStderr();
+  console.log = console.error;
+  console.info = console.error;
+}
+
+// `--serve [port]` answers JSON-RPC over HTTP, `--stdio` over stdin/stdout;
+// neither starts the terminal UI.
+async function serve(args: string[], planMode: boolean) {
+  const stdio = args[0] === '--stdio';
+  if (stdio) {
+    reserveStdout();
+  }
+  if (planMode) {
+    log('warn', 'Plan mode needs the terminal; it is off in server mode', 'Main');
+  }
+
+  const toolRegistry = new ToolRegistry();
+  await new PluginLoader(toolRegistry).loadAll();
+  await new McpClientManager(toolRegistry).start();
+  const sessions = new ServerSessionManager(toolRegistry, client);
+  const { assistant } = sessions.create();
+  const methods = createServerMethods(toolRegistry, sessions);
+  const maintenanceManager = new MaintenanceManager(assistant, toolRegistry, assistant.memoryStore);
+  setInterval(() => {
+    maintenanceManager.performMaintenance();
+  }, 24 * 60 * 60 * 1000);
+
+  if (stdio) {
+    await serveStdio(methods, sessions);
+    process.exit(0);
+  }
+  let token = process.env.AGENT_SERVER_TOKEN;
+  if (!token) {
+    token = generateServerToken();
+    process.stderr.write(`AGENT_SERVER_TOKEN is not set; clients must send Authorization: Bearer ${token}\n`);
+  }
+  await startHttpServer(methods, sessions, {
+    port: args[1] ? Number(args[1]) : defaultServerPort,
+    host: process.env.AGENT_SERVER_HOST,
+    token,
+  });
+}
+
 async function main() {
+  // Handle command-line arguments
+  const args = process.argv.slice(2);
+  let planMode = false;
+  let devMode = false;
+  while (args[0] === '--plan' || args[0] === '--dev') {
+    planMode = planMode || args[0] === '--plan';
+    devMode = devMode || args[0] === '--dev';
+    args.shift();
+  }
+  if (args[0] === '--serve' || args[0] === '--stdio') {
+    return serve(args, planMode);
+  }
+  if (args[0] === '--mcp') {
+    // publishes the registry's tools to an MCP client on stdio
+    reserveStdout();
+    const toolRegistry = new ToolRegistry();
+    await new PluginLoader(toolRegistry).loadAll();
+    await new McpToolServer(toolRegistry).serve();
+    process.exit(0);
+  }
+
   const sessionManager = new TerminalSessionManager(client);
   const assistant = new Assistant(sessionManager, sessionManager.chromaClient);
+  sessionManager.assistant = assistant;
+  sessionManager.plugins = new PluginLoader(sessionManager);
+  await sessionManager.plugins.loadAll();
+  sessionManager.mcp = new McpClientManager(sessionManager);
+  // servers connect in the background; `.mcp list` shows how far they got
+  sessionManager.mcp.start();
   const maintenanceManager = new MaintenanceManager(
     assistant,
     sessionManager as ToolRegistry,
     assistant.memoryStore
   );
-  (sessionManager as ToolRegistry).initializeToolWatcher();
+  if (devMode) {
+    // tool files saved under tools/ are reloaded and tested as they change
+    await sessionManager.initializeToolWatcher();
+  }
 
   // Set up periodic maintenance
   setInterval(() => {
     maintenanceManager.performMaintenance();
   }, 24 * 60 * 60 * 1000); // Run every 24 hours
 
-  // Handle command-line arguments
-  const args = process.argv.slice(2);
+  if (planMode) {
+    assistant.planMode = true;
+  }
 
   if (args.length === 0) {
     log('info', chalk.bold.yellow(`AI Assistant CLI Version ${packageJson.version}`), 'Main');